@@ -1,6 +1,6 @@
 
-import React, { useState, useEffect, useRef } from 'react';
-import { DriveFile, MemoryBook, FileType, AppSettings, CompressionLevel } from './types';
+import React, { useState, useEffect, useRef, useMemo } from 'react';
+import { DriveFile, FileType, MemoryBook, AppSettings, CompressionLevel, BookRoot } from './types';
 import Layout from './components/Layout';
 import FileBrowser from './components/FileBrowser';
 import StoryEditor from './components/StoryEditor';
@@ -8,7 +8,13 @@ import Dashboard from './components/Dashboard';
 import AppLogo from './components/AppLogo';
 import LandingPage from './components/LandingPage';
 import PrivacyPolicy from './components/PrivacyPolicy';
-import { createFolder, fetchDriveFiles, findOrCreateFolder, moveFile, listDriveBookFolders, fetchProjectState, renameBookArtifacts } from './services/driveService';
+import { createDriveBookStorage, createLocalFirstBookStorage, purgeExpiredBooksDaily, loadBookRoot, saveBookRoot, BookChangeEvent, BookStorageProvider } from './services/bookStorage';
+import { setDriveTokenRefresher, describeDriveError } from './services/driveClient';
+import { fetchDriveUser } from './services/driveService';
+import { copyFromAccount } from './services/itemMaterializer';
+import { SearchTarget } from './services/bookSearch';
+import { GoogleAccount, loadAccounts, saveAccounts, loadActiveAccountEmail, saveActiveAccountEmail, upsertAccount, withFreshToken } from './services/accounts';
+import { ProjectFileError, describeProjectFileError } from './services/projectSchema';
 
 declare global {
   interface Window {
@@ -17,13 +23,6 @@ declare global {
   }
 }
 
-interface GoogleUser {
-  name: string;
-  email: string;
-  picture: string;
-  accessToken?: string;
-}
-
 const DEFAULT_SETTINGS: AppSettings = {
     compressionLevel: 'low', // Low compression = High Quality by default
     maxChunkSizeMB: 15.0,
@@ -32,12 +31,28 @@ const DEFAULT_SETTINGS: AppSettings = {
 
 const App: React.FC = () => {
   const [isAuthenticated, setIsAuthenticated] = useState(false);
-  const [user, setUser] = useState<GoogleUser | null>(null);
+  // Every account signed in on this device; the active one's books are on the Dashboard
+  const [accounts, setAccounts] = useState<GoogleAccount[]>(() => loadAccounts());
+  const [activeEmail, setActiveEmail] = useState<string | null>(() => loadActiveAccountEmail() || accounts[0]?.email || null);
+  const user = accounts.find(a => a.email === activeEmail) || null;
+  // The token client callback is created once, so it reads these through refs
+  const accountsRef = useRef(accounts);
+  const activeEmailRef = useRef(activeEmail);
+  useEffect(() => { accountsRef.current = accounts; saveAccounts(accounts); }, [accounts]);
+  useEffect(() => { activeEmailRef.current = activeEmail; saveActiveAccountEmail(activeEmail); }, [activeEmail]);
+  // Set while "Lägg till konto" waits for Google; gets the new account's email
+  const onAccountAddedRef = useRef<((email: string) => void) | null>(null);
   const [isGoogleReady, setIsGoogleReady] = useState(false);
   const [googleLoadError, setGoogleLoadError] = useState(false);
   
   const [currentBook, setCurrentBook] = useState<MemoryBook | null>(null);
+  // Latest saved state of the open book when it was changed on another device
+  const [remoteBookUpdate, setRemoteBookUpdate] = useState<MemoryBook | null>(null);
+  const currentBookRef = useRef<MemoryBook | null>(null);
+  useEffect(() => { currentBookRef.current = currentBook; }, [currentBook]);
   const [isLoadingBook, setIsLoadingBook] = useState(false); 
+  // Tile to show once a book opened from a search result has loaded
+  const [focusTarget, setFocusTarget] = useState<SearchTarget | null>(null);
 
   const [showSourceSelector, setShowSourceSelector] = useState(false);
   const [showShareModal, setShowShareModal] = useState(false); 
@@ -62,17 +77,53 @@ const App: React.FC = () => {
   // GLOBAL App Settings (Default for NEW books)
   const [globalSettings, setGlobalSettings] = useState<AppSettings>(DEFAULT_SETTINGS);
 
+  // Account whose Drive the FileBrowser shows (null = the active account)
+  const [sourceEmail, setSourceEmail] = useState<string | null>(null);
+  const [isImportingSources, setIsImportingSources] = useState(false);
   const [browserState, setBrowserState] = useState({
     currentFolder: 'root',
     currentDriveId: null as string | null,
     breadcrumbs: [{id: 'root', name: 'Min Enhet'}],
     activeTab: 'local' as 'local' | 'drive' | 'shared'
   });
+
+  // Where books are kept (null = "Dela din historia" in My Drive), picked with the FileBrowser
+  const [bookRoot, setBookRoot] = useState<BookRoot | null>(() => activeEmail ? loadBookRoot(activeEmail) : null);
+  const [showBookRootPicker, setShowBookRootPicker] = useState(false);
+  const [bookRootBrowserState, setBookRootBrowserState] = useState({
+    currentFolder: 'root',
+    currentDriveId: null as string | null,
+    breadcrumbs: [{id: 'root-drives', name: 'Delade Enheter'}],
+    activeTab: 'shared' as 'local' | 'drive' | 'shared'
+  });
   
   const headerGoogleBtnDesktopRef = useRef<HTMLDivElement>(null); 
   const headerGoogleBtnMobileRef = useRef<HTMLDivElement>(null);
   const tokenClientRef = useRef<any>(null);
 
+  // All book persistence goes through a storage provider: IndexedDB first, synced to Google Drive
+  const storage = useMemo(
+      () => user?.accessToken ? createLocalFirstBookStorage(createDriveBookStorage(user.accessToken, bookRoot, user.email)) : null,
+      [user?.accessToken, bookRoot]
+  );
+  // The other signed-in accounts keep a storage too, so a book stays bound to the account it lives in
+  const otherAccountsKey = accounts.filter(a => a.email !== activeEmail && a.accessToken).map(a => `${a.email}:${a.accessToken}`).join('|');
+  const otherStorages = useMemo(() => {
+      const map = new Map<string, BookStorageProvider>();
+      accounts.forEach(a => {
+          if (a.email === activeEmail || !a.accessToken) return;
+          map.set(a.email, createLocalFirstBookStorage(createDriveBookStorage(a.accessToken, loadBookRoot(a.email), a.email)));
+      });
+      return map;
+  }, [otherAccountsKey]);
+  const isOtherAccount = (email?: string) => !!email && email !== activeEmail;
+  // Storage and token for the open book, which may belong to an account that is no longer active
+  const bookAccount = isOtherAccount(currentBook?.accountEmail) ? accounts.find(a => a.email === currentBook!.accountEmail) : user;
+  const bookStorage = isOtherAccount(currentBook?.accountEmail) ? otherStorages.get(currentBook!.accountEmail!) || null : storage;
+  const sourceAccount = (sourceEmail && accounts.find(a => a.email === sourceEmail)) || bookAccount;
+  // Resolves a silent re-auth started by the Drive request layer after a 401
+  const tokenRefreshResolverRef = useRef<{ email: string, resolve: (token: string | null) => void } | null>(null);
+
   // --- PERSISTENCE & INIT ---
 
   const decodeJwt = (token: string) => {
@@ -83,22 +134,7 @@ const App: React.FC = () => {
 
   // Restore session on mount
   useEffect(() => {
-      const storedToken = localStorage.getItem('google_access_token');
-      const storedTokenExpiry = localStorage.getItem('google_access_token_expiry');
-      const storedUser = localStorage.getItem('google_user_info');
-
-      if (storedToken && storedTokenExpiry && storedUser) {
-          const now = new Date().getTime();
-          if (now < parseInt(storedTokenExpiry)) {
-              try {
-                  const parsedUser = JSON.parse(storedUser);
-                  setUser({ ...parsedUser, accessToken: storedToken });
-                  setIsAuthenticated(true);
-              } catch (e) {
-                  console.error("Failed to restore user", e);
-              }
-          }
-      }
+      if (user?.accessToken) setIsAuthenticated(true);
       
       const savedSettings = localStorage.getItem('global_settings');
       if (savedSettings) {
@@ -112,23 +148,27 @@ const App: React.FC = () => {
       }
   }, []);
 
+  // Shows the account's books; an open book stays open, it is bound to its own account
+  const activateAccount = (email: string) => {
+      if (email === activeEmailRef.current) return;
+      activeEmailRef.current = email;
+      setActiveEmail(email);
+      setBookRoot(loadBookRoot(email));
+      setBooks([]);
+      setSourceEmail(null);
+  };
+
   const handleCredentialResponse = (response: any) => {
     const payload = decodeJwt(response.credential);
     if (payload) {
-      const newUser = { 
-          name: payload.name, 
-          email: payload.email, 
-          picture: payload.picture,
-          accessToken: user?.accessToken 
-      };
-      
-      setUser(newUser);
+      const existing = accountsRef.current.find(a => a.email === payload.email);
+      setAccounts(prev => upsertAccount(prev, { email: payload.email, name: payload.name, picture: payload.picture }));
+      activateAccount(payload.email);
       setIsAuthenticated(true);
-      localStorage.setItem('google_user_info', JSON.stringify(newUser));
 
       // AUTO-TRIGGER Drive Access if missing
       // We do this to create a seamless experience where books load immediately
-      if (!newUser.accessToken && tokenClientRef.current) {
+      if (!existing?.accessToken && tokenClientRef.current) {
           setTimeout(() => {
              // Requesting both file (write) and readonly (read everything) covers all bases
              tokenClientRef.current.requestAccessToken({ login_hint: payload.email, prompt: '' }); 
@@ -145,14 +185,79 @@ const App: React.FC = () => {
     }
   };
 
-  // Logout Helper
+  // Lets Google show its account chooser; onAdded gets the email of the account that was picked
+  const handleAddAccount = (onAdded: (email: string) => void) => {
+      if (!tokenClientRef.current) return;
+      onAccountAddedRef.current = onAdded;
+      tokenClientRef.current.requestAccessToken({ prompt: 'select_account consent' });
+  };
+
+  const handleSwitchAccount = (email: string) => {
+      const account = accounts.find(a => a.email === email);
+      if (!account) return;
+      activateAccount(email);
+      // Signed in earlier but the token has expired
+      if (!account.accessToken && tokenClientRef.current) {
+          tokenClientRef.current.requestAccessToken({ login_hint: email, prompt: '' });
+      }
+  };
+
+  // Browsing another account's Drive starts at the top of it
+  const handleChangeSourceAccount = (email: string) => {
+      setSourceEmail(email);
+      setBrowserState(prev => prev.activeTab === 'local' ? prev : {
+          ...prev,
+          currentFolder: 'root',
+          currentDriveId: null,
+          breadcrumbs: prev.activeTab === 'shared' ? [{id: 'root-drives', name: 'Delade Enheter'}] : [{id: 'root', name: 'Min Enhet'}]
+      });
+  };
+
+  // Signs out the active account; the next one (if any) takes over
   const handleLogout = () => {
-      setIsAuthenticated(false); 
-      setUser(null); 
-      localStorage.removeItem('google_access_token');
-      localStorage.removeItem('google_access_token_expiry');
-      localStorage.removeItem('google_user_info');
+      const remaining = accounts.filter(a => a.email !== activeEmail);
+      setAccounts(remaining);
       setBooks([]);
+      setCurrentBook(null);
+      setSourceEmail(null);
+      const next = remaining.find(a => a.accessToken);
+      if (next) {
+          activateAccount(next.email);
+      } else {
+          activeEmailRef.current = null;
+          setActiveEmail(null);
+          setBookRoot(null);
+          setIsAuthenticated(false);
+      }
+  };
+
+  // Every token, new sign-in or renewal, is stored on the account it belongs to
+  const handleAccessToken = async (accessToken: string) => {
+      const refresh = tokenRefreshResolverRef.current;
+      tokenRefreshResolverRef.current = null;
+      const onAdded = onAccountAddedRef.current;
+      onAccountAddedRef.current = null;
+
+      let profile: Partial<GoogleAccount> & { email: string };
+      try {
+          profile = await fetchDriveUser(accessToken);
+      } catch (e) {
+          console.warn("Could not identify the account for a new token", e);
+          // Assume it is the account we asked for
+          const email = refresh?.email || (onAdded ? null : activeEmailRef.current);
+          if (!email) {
+              refresh?.resolve(null);
+              return;
+          }
+          profile = { email };
+      }
+
+      setAccounts(prev => upsertAccount(prev, { ...profile, ...withFreshToken(accessToken) }));
+      // Someone may pick another account than the one we asked to renew
+      refresh?.resolve(profile.email === refresh.email ? accessToken : null);
+      if (onAdded) onAdded(profile.email);
+      else if (!activeEmailRef.current) activateAccount(profile.email);
+      setIsAuthenticated(true);
   };
 
   useEffect(() => {
@@ -181,16 +286,18 @@ const App: React.FC = () => {
             scope: "https://www.googleapis.com/auth/drive.file https://www.googleapis.com/auth/drive.readonly",
             callback: (r: any) => {
               if (r?.access_token) {
-                const expiry = new Date().getTime() + (50 * 60 * 1000); // ~50 mins safety
-                localStorage.setItem('google_access_token', r.access_token);
-                localStorage.setItem('google_access_token_expiry', expiry.toString());
-
-                setUser(prev => {
-                    const updated = prev ? { ...prev, accessToken: r.access_token } : { name: 'User', email: '', picture: '', accessToken: r.access_token };
-                    localStorage.setItem('google_user_info', JSON.stringify(updated));
-                    return updated;
-                });
-                setIsAuthenticated(true);
+                handleAccessToken(r.access_token);
+              } else if (tokenRefreshResolverRef.current) {
+                tokenRefreshResolverRef.current.resolve(null);
+                tokenRefreshResolverRef.current = null;
+              }
+            },
+            error_callback: () => {
+              // Popup closed or blocked - let pending Drive requests fail with an auth error
+              onAccountAddedRef.current = null;
+              if (tokenRefreshResolverRef.current) {
+                  tokenRefreshResolverRef.current.resolve(null);
+                  tokenRefreshResolverRef.current = null;
               }
             },
           });
@@ -226,6 +333,71 @@ const App: React.FC = () => {
     };
   }, [isGoogleReady]);
 
+  // Let the Drive request layer re-authenticate when a token expires mid-session
+  useEffect(() => {
+      if (!isGoogleReady) return;
+      setDriveTokenRefresher((expiredToken) => new Promise<string | null>((resolve) => {
+          // Renew the account the expired token belonged to, which need not be the active one
+          const account = accountsRef.current.find(a => a.accessToken === expiredToken) || accountsRef.current.find(a => a.email === activeEmailRef.current);
+          if (!tokenClientRef.current || !account) {
+              resolve(null);
+              return;
+          }
+          tokenRefreshResolverRef.current = { email: account.email, resolve };
+          tokenClientRef.current.requestAccessToken({ login_hint: account.email, prompt: '' });
+      }));
+      return () => setDriveTokenRefresher(null);
+  }, [isGoogleReady]);
+
+  // LIVE CHANGES: books created, renamed or removed elsewhere show up without a reload
+  useEffect(() => {
+      if (!storage?.watchChanges) return;
+      const matches = (book: MemoryBook, id: string) => book.id === id || book.driveFolderId === id;
+
+      const handleChange = async (event: BookChangeEvent) => {
+          const openBook = currentBookRef.current;
+          if (event.type === 'bookUpserted') {
+              setBooks(prev => prev.some(b => matches(b, event.book.id))
+                  ? prev.map(b => matches(b, event.book.id) ? { ...b, title: event.book.title, summary: event.book.summary || b.summary } : b)
+                  : [event.book, ...prev]);
+              if (openBook && matches(openBook, event.book.id) && openBook.title !== event.book.title) {
+                  setCurrentBook(prev => prev ? { ...prev, title: event.book.title } : prev);
+              }
+          } else if (event.type === 'bookRemoved') {
+              setBooks(prev => prev.filter(b => !matches(b, event.bookId)));
+              if (openBook && matches(openBook, event.bookId)) {
+                  alert(`Boken "${openBook.title}" har tagits bort på en annan enhet.`);
+                  setCurrentBook(null);
+              }
+          } else if (event.type === 'bookContentChanged') {
+              if (!openBook || !matches(openBook, event.bookId)) return;
+              try {
+                  const latest = await storage.loadBook(openBook);
+                  if (latest) setRemoteBookUpdate(latest);
+              } catch (e) {
+                  console.warn("Could not load changes from another device", e);
+              }
+          }
+      };
+
+      return storage.watchChanges(handleChange);
+  }, [storage]);
+
+  // BACKGROUND SYNC: push books edited offline once we're back online.
+  // Each storage only pushes books of its own account, so every signed-in account is flushed.
+  useEffect(() => {
+      const storages = [storage, ...otherStorages.values()].filter((s): s is BookStorageProvider => !!s?.syncPending);
+      if (storages.length === 0) return;
+      const flush = () => storages.forEach(s => { s.syncPending?.().catch(e => console.warn("Background sync failed", e)); });
+      flush();
+      window.addEventListener('online', flush);
+      const interval = setInterval(flush, 60 * 1000);
+      return () => {
+          window.removeEventListener('online', flush);
+          clearInterval(interval);
+      };
+  }, [storage, otherStorages]);
+
   // Update Global Settings helper
   const handleUpdateGlobalSettings = (newSettings: AppSettings) => {
       setGlobalSettings(newSettings);
@@ -234,9 +406,9 @@ const App: React.FC = () => {
 
   // SYNC BOOKS FROM DRIVE ON AUTH
   useEffect(() => {
-      if (user?.accessToken) {
+      if (storage) {
           const syncBooks = async () => {
-              const driveBooks = await listDriveBookFolders(user.accessToken!);
+              const driveBooks = await storage.listBooks();
               
               setBooks(prevLocalBooks => {
                   // Merge strategy: Keep existing full objects if ID matches, else add new
@@ -263,15 +435,32 @@ const App: React.FC = () => {
                                ...localMatch, 
                                driveFolderId: dBook.driveFolderId, 
                                id: dBook.id,
-                               items: updatedItems 
+                               items: updatedItems,
+                               summary: dBook.summary,
+                               driveId: dBook.driveId,
+                               sharedBy: dBook.sharedBy,
+                               canEdit: dBook.canEdit,
+                               accountEmail: dBook.accountEmail
                            };
                       }
                       return dBook;
                   });
                   return merged;
               });
+
+              // Covers arrive after the list so the Dashboard doesn't wait for them
+              if (storage.loadCovers) {
+                  const covers = await storage.loadCovers(driveBooks);
+                  setBooks(prev => prev.map(book => {
+                      const thumbnail = covers[book.id];
+                      if (!thumbnail) return book;
+                      const preview: DriveFile = { id: 'preview-cover', name: 'Omslag', type: FileType.IMAGE, size: 0, modifiedTime: '', thumbnail };
+                      return { ...book, items: [preview, ...book.items.filter(i => i.id !== 'preview-cover')] };
+                  }));
+              }
           };
           syncBooks();
+          if (user?.email) purgeExpiredBooksDaily(storage, user.email).catch(e => console.warn("Automatic purge failed", e));
           
           if (pendingAction) {
               if (pendingAction === 'createBook') setShowCreateBookModal(true);
@@ -279,7 +468,7 @@ const App: React.FC = () => {
               setPendingAction(null);
           }
       }
-  }, [user?.accessToken]);
+  }, [storage]);
 
   // Render buttons
   useEffect(() => {
@@ -306,20 +495,6 @@ const App: React.FC = () => {
       localStorage.setItem('hide_intro', String(shouldHide));
   };
 
-  const ensureBookFolder = async (title: string): Promise<string> => {
-    if (!user?.accessToken) throw new Error("Ingen åtkomst till Drive");
-    const rootFiles = await fetchDriveFiles(user.accessToken, 'root');
-    let rootFolder = rootFiles.find(f => f.name === 'Dela din historia' && f.type === FileType.FOLDER);
-    if (!rootFolder) {
-      const rootId = await createFolder(user.accessToken, 'root', 'Dela din historia');
-      rootFolder = { id: rootId } as DriveFile;
-    }
-    const bookFiles = await fetchDriveFiles(user.accessToken, rootFolder.id);
-    let bookFolder = bookFiles.find(f => f.name.toLowerCase() === title.toLowerCase() && f.type === FileType.FOLDER);
-    if (bookFolder) throw new Error("DUPLICATE_NAME");
-    return await createFolder(user.accessToken, rootFolder.id, title);
-  };
-
   const handleInitiateCreateBook = () => {
     if (!user?.accessToken) {
        setPendingAction('createBook');
@@ -342,13 +517,10 @@ const App: React.FC = () => {
     setShowCreateBookModal(false);
     
     try {
-      const folderId = await ensureBookFolder(title);
+      if (!storage) throw new Error("Ingen åtkomst till Drive");
+      const createdBook = await storage.createBook(title);
       const newBook: MemoryBook = {
-        id: folderId, // Use folder ID as book ID
-        title: title,
-        createdAt: new Date().toISOString(),
-        items: [],
-        driveFolderId: folderId,
+        ...createdBook,
         settings: globalSettings // Copy global defaults to new book
       };
 
@@ -361,7 +533,7 @@ const App: React.FC = () => {
           alert("En mapp med detta namn finns redan.");
           setShowCreateBookModal(true);
       } else {
-          alert("Kunde inte skapa mappen på Drive.");
+          alert(`Kunde inte skapa mappen på Drive. ${describeDriveError(e, '')}`);
       }
     } finally {
       setIsCreatingBook(false);
@@ -369,19 +541,23 @@ const App: React.FC = () => {
   };
 
   const handleOpenBook = async (book: MemoryBook) => {
-      if (!user?.accessToken) {
+      if (!storage) {
           alert("Du måste vara inloggad för att öppna böcker.");
           return;
       }
       
       setIsLoadingBook(true);
       try {
-          if (book.driveFolderId) {
-              const cloudState = await fetchProjectState(user.accessToken, book.driveFolderId);
+          // Read-only shared books can't be saved but still have content to load
+          if (storage.canSave(book) || book.canEdit === false) {
+              const cloudState = await storage.loadBook(book);
               if (cloudState) {
                   // Ensure settings exist, if not use global
                   const bookWithSettings = {
                       ...cloudState,
+                      sharedBy: book.sharedBy,
+                      canEdit: book.canEdit,
+                      accountEmail: book.accountEmail,
                       settings: cloudState.settings || globalSettings
                   };
                   setCurrentBook(bookWithSettings);
@@ -396,32 +572,92 @@ const App: React.FC = () => {
           }
       } catch (e) {
           console.error("Failed to load book state", e);
+          // Opening it anyway would save an empty book over the damaged file
+          if (e instanceof ProjectFileError) {
+              alert(`Kunde inte öppna "${book.title}". ${describeProjectFileError(e)}`);
+              return;
+          }
           setCurrentBook({ ...book, settings: book.settings || globalSettings }); 
       } finally {
           setIsLoadingBook(false);
       }
   };
 
+  const handleOpenSearchResult = async (book: MemoryBook, target: SearchTarget) => {
+      setFocusTarget(target.itemId ? target : null);
+      await handleOpenBook(book);
+  };
+
+  // Restores an earlier version of a book (from Historik) into a new book next to it
+  const handleRestoreBookCopy = async (revisionBook: MemoryBook) => {
+      if (!bookStorage) return;
+      const title = `${revisionBook.title} (kopia ${new Date().toLocaleDateString()})`;
+      try {
+          // The copy goes next to the original, in the same account
+          const createdBook = await bookStorage.createBook(title);
+          const copy: MemoryBook = {
+              ...revisionBook,
+              id: createdBook.id,
+              driveFolderId: createdBook.driveFolderId,
+              driveId: createdBook.driveId,
+              accountEmail: createdBook.accountEmail,
+              title,
+              createdAt: createdBook.createdAt,
+              // Chunk PDFs belong to the original book's folder
+              chunks: undefined,
+              optimizationCursor: undefined,
+              optimizationHash: undefined
+          };
+          await bookStorage.saveBook(copy);
+          if (!isOtherAccount(copy.accountEmail)) setBooks(prev => [copy, ...prev]);
+          alert(`Kopian "${title}" finns nu bland dina böcker.`);
+      } catch (e: any) {
+          if (e.message === "DUPLICATE_NAME") alert(`En bok med namnet "${title}" finns redan.`);
+          else alert(`Kunde inte skapa kopian. ${describeDriveError(e, '')}`);
+      }
+  };
+
+  // A new storage is created for the new root, which reloads the book list
+  const handlePickBookRoot = (root: BookRoot | null) => {
+      if (activeEmail) saveBookRoot(activeEmail, root);
+      setBookRoot(root);
+      setShowBookRootPicker(false);
+  };
+
   const handleDeleteBook = async (book: MemoryBook) => {
-      if (!confirm(`Vill du ta bort boken "${book.title}"?`)) return;
-      if (book.driveFolderId && user?.accessToken) {
+      const question = book.sharedBy
+          ? `Vill du lämna boken "${book.title}"? ${book.sharedBy} måste bjuda in dig igen för att du ska se den.`
+          : `Vill du ta bort boken "${book.title}"?`;
+      if (!confirm(question)) return;
+      if (storage && (storage.canSave(book) || book.sharedBy)) {
           try {
-              const rootFiles = await fetchDriveFiles(user.accessToken, 'root');
-              let rootFolder = rootFiles.find(f => f.name === 'Dela din historia' && f.type === FileType.FOLDER);
-              if (rootFolder) {
-                  const trashId = await findOrCreateFolder(user.accessToken, rootFolder.id, "Papperskorg");
-                  await moveFile(user.accessToken, book.driveFolderId, trashId);
-                  alert(`Boken flyttad till Papperskorgen på Drive.`);
-              }
+              await storage.trashBook(book);
+              if (storage.kind === 'drive' && !book.sharedBy) alert(`Boken flyttad till Papperskorgen på Drive.`);
           } catch (e) {
-              alert("Kunde inte flytta på Drive, men tar bort från listan.");
+              alert(`Kunde inte flytta på Drive, men tar bort från listan. ${describeDriveError(e, '')}`);
           }
       }
       setBooks(prev => prev.filter(b => b.id !== book.id));
   };
 
-  const handleAddItemsToBook = (newItems: DriveFile[]) => {
+  const handleAddItemsToBook = async (pickedItems: DriveFile[]) => {
     if (!currentBook) return;
+    let newItems = pickedItems;
+    // Files from another account's Drive are copied into the book, its account can't read them
+    if (sourceAccount?.accessToken && sourceAccount.email !== bookAccount?.email) {
+        setShowSourceSelector(false);
+        setIsImportingSources(true);
+        try {
+            newItems = await Promise.all(pickedItems.map(item =>
+                item.isLocal || item.type === FileType.HEADER || item.type === FileType.TEXT ? item : copyFromAccount(sourceAccount.accessToken!, item)
+            ));
+        } catch (e) {
+            alert(`Kunde inte hämta filerna från ${sourceAccount.email}. ${describeDriveError(e, '')}`);
+            return;
+        } finally {
+            setIsImportingSources(false);
+        }
+    }
     let updatedItems = [...currentBook.items];
     if (insertAtIndex !== null) {
       updatedItems.splice(insertAtIndex, 0, ...newItems);
@@ -441,7 +677,7 @@ const App: React.FC = () => {
   
   // New handler for renaming that includes Drive sync and Duplicate Check
   const handleRenameBook = async (newTitle: string) => {
-      if (!currentBook || !user?.accessToken || !currentBook.driveFolderId) {
+      if (!currentBook || !bookStorage || !bookStorage.canSave(currentBook)) {
           if (currentBook) handleUpdateBook({ ...currentBook, title: newTitle });
           return;
       }
@@ -455,28 +691,16 @@ const App: React.FC = () => {
       
       setIsLoadingBook(true); // Show spinner overlay
       try {
-          // 2. Check for duplicate folder name
-          const rootFiles = await fetchDriveFiles(user.accessToken, 'root');
-          let rootFolder = rootFiles.find(f => f.name === 'Dela din historia' && f.type === FileType.FOLDER);
-          
-          if (rootFolder) {
-             const siblings = await fetchDriveFiles(user.accessToken, rootFolder.id);
-             const duplicate = siblings.find(f => f.name.toLowerCase() === trimmedTitle.toLowerCase() && f.id !== currentBook.driveFolderId);
-             
-             if (duplicate) {
-                 alert("En bok med detta namn finns redan. Välj ett annat namn.");
-                 handleUpdateBook({ ...currentBook, title: oldTitle }); // Revert
-                 setIsLoadingBook(false);
-                 return;
-             }
-
-             // 3. Rename Folder and Artifacts
-             await renameBookArtifacts(user.accessToken, currentBook.driveFolderId, oldTitle, trimmedTitle);
+          // 2. Rename folder and artifacts (the provider rejects duplicate names)
+          await bookStorage.renameBook(currentBook, oldTitle, trimmedTitle);
+      } catch (e: any) {
+          if (e.message === "DUPLICATE_NAME") {
+              alert("En bok med detta namn finns redan. Välj ett annat namn.");
+              handleUpdateBook({ ...currentBook, title: oldTitle }); // Revert
+              return;
           }
-
-      } catch (e) {
           console.error("Rename failed", e);
-          alert("Kunde inte byta namn på Drive. Kontrollera din anslutning.");
+          alert(`Kunde inte byta namn på Drive. ${describeDriveError(e, 'Kontrollera din anslutning.')}`);
           handleUpdateBook({ ...currentBook, title: oldTitle }); // Revert
       } finally {
           setIsLoadingBook(false);
@@ -547,6 +771,11 @@ const App: React.FC = () => {
                             onOpenBook={handleOpenBook} 
                             onUpdateBooks={setBooks}
                             onDeleteBook={handleDeleteBook}
+                            storage={storage}
+                            bookRootName={bookRoot?.name}
+                            onChangeBookRoot={() => setShowBookRootPicker(true)}
+                            onOpenSearchResult={handleOpenSearchResult}
+                            onBookRestored={(book) => setBooks(prev => prev.some(b => b.id === book.id) ? prev : [book, ...prev])}
                         />
                     </div>
                 </div>
@@ -588,7 +817,8 @@ const App: React.FC = () => {
                   return updatedBook;
               });
           }}
-          accessToken={user.accessToken!}
+          accessToken={bookAccount?.accessToken || ''}
+          storage={bookStorage}
           bookTitle={currentBook.title}
           onUpdateBookTitle={(newTitle) => handleRenameBook(newTitle)} 
           showShareView={showShareModal}
@@ -596,6 +826,10 @@ const App: React.FC = () => {
           onOpenSourceSelector={(idx) => { setInsertAtIndex(idx); setShowSourceSelector(true); }}
           settings={currentBook.settings || globalSettings}
           onUpdateSettings={(newSettings) => handleUpdateBook({...currentBook, settings: newSettings})}
+          onRestoreAsCopy={handleRestoreBookCopy}
+          remoteBookUpdate={remoteBookUpdate}
+          focusTarget={focusTarget}
+          onFocusHandled={() => setFocusTarget(null)}
         />
       );
   };
@@ -604,6 +838,9 @@ const App: React.FC = () => {
     <Layout 
       user={user} 
       onLogout={handleLogout}
+      accounts={accounts}
+      onSwitchAccount={handleSwitchAccount}
+      onAddAccount={() => handleAddAccount(activateAccount)}
       showBookControls={!!currentBook && isAuthenticated}
       currentBookTitle={currentBook?.title}
       onUpdateBookTitle={currentBook ? (newTitle) => handleRenameBook(newTitle) : undefined}
@@ -624,7 +861,17 @@ const App: React.FC = () => {
             <div className="flex flex-col items-center">
                 <i className="fas fa-folder-plus fa-spin text-4xl text-indigo-600 mb-4"></i>
                 <p className="font-bold text-slate-700">Skapar mappstruktur på Drive...</p>
-                <p className="text-xs text-slate-400">Dela din historia / {newBookTitle || 'Ny bok'}</p>
+                <p className="text-xs text-slate-400">{bookRoot?.name || 'Dela din historia'} / {newBookTitle || 'Ny bok'}</p>
+            </div>
+         </div>
+      )}
+
+      {isImportingSources && (
+         <div className="fixed inset-0 z-[100] bg-white/80 backdrop-blur-sm flex items-center justify-center">
+            <div className="flex flex-col items-center">
+                <i className="fas fa-cloud-arrow-down fa-bounce text-4xl text-indigo-600 mb-4"></i>
+                <p className="font-bold text-slate-700">Hämtar filer från {sourceAccount?.email}...</p>
+                <p className="text-xs text-slate-400">De kopieras till bokens mapp när boken sparas</p>
             </div>
          </div>
       )}
@@ -635,13 +882,34 @@ const App: React.FC = () => {
         <div className="fixed inset-0 z-50 bg-black/50 backdrop-blur-sm flex items-center justify-center p-0 md:p-4">
            <div className="bg-white md:rounded-2xl shadow-2xl w-full max-w-4xl h-full md:h-[80vh] overflow-hidden flex flex-col">
               <FileBrowser 
-                accessToken={user?.accessToken || ''}
+                accessToken={sourceAccount?.accessToken || ''}
                 onRequestAccess={handleRequestDriveAccess}
                 onAddFiles={handleAddItemsToBook}
                 selectedIds={currentBook?.items.map(i => i.id) || []}
                 browserState={browserState}
                 onUpdateState={setBrowserState}
                 onClose={() => setShowSourceSelector(false)}
+                accounts={accounts}
+                activeAccountEmail={sourceAccount?.email}
+                onChangeAccount={handleChangeSourceAccount}
+                onAddAccount={() => handleAddAccount(handleChangeSourceAccount)}
+              />
+           </div>
+        </div>
+      )}
+
+      {showBookRootPicker && user?.accessToken && (
+        <div className="fixed inset-0 z-50 bg-black/50 backdrop-blur-sm flex items-center justify-center p-0 md:p-4">
+           <div className="bg-white md:rounded-2xl shadow-2xl w-full max-w-4xl h-full md:h-[80vh] overflow-hidden flex flex-col">
+              <FileBrowser 
+                accessToken={user.accessToken}
+                onRequestAccess={handleRequestDriveAccess}
+                onAddFiles={() => {}}
+                selectedIds={[]}
+                browserState={bookRootBrowserState}
+                onUpdateState={setBookRootBrowserState}
+                onPickFolder={handlePickBookRoot}
+                onClose={() => setShowBookRootPicker(false)}
               />
            </div>
         </div>
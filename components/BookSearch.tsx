@@ -0,0 +1,97 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { MemoryBook } from '../types';
+import { BookStorageProvider } from '../services/bookStorage';
+import { buildSearchIndex, collectSearchableBooks, searchBooks, SearchField, SearchHit, SearchTarget } from '../services/bookSearch';
+
+interface BookSearchProps {
+    books: MemoryBook[];
+    storage?: BookStorageProvider | null;
+    onOpenResult: (book: MemoryBook, target: SearchTarget) => void;
+}
+
+const FIELD_LABELS: Record<SearchField, { icon: string, label: string }> = {
+    title: { icon: 'fa-book', label: 'Bokens titel' },
+    name: { icon: 'fa-file', label: 'Filnamn' },
+    header: { icon: 'fa-heading', label: 'Rubrik' },
+    footer: { icon: 'fa-align-left', label: 'Bildtext' },
+    description: { icon: 'fa-align-left', label: 'Text' },
+    transcript: { icon: 'fa-microphone-lines', label: 'Transkription' }
+};
+
+const BookSearch: React.FC<BookSearchProps> = ({ books, storage, onOpenResult }) => {
+    const [query, setQuery] = useState('');
+    const [loadedBooks, setLoadedBooks] = useState<MemoryBook[]>([]);
+    const [isLoading, setIsLoading] = useState(true);
+
+    useEffect(() => {
+        let isCancelled = false;
+        setLoadedBooks([]);
+        setIsLoading(true);
+        collectSearchableBooks(storage, books, (book) => {
+            if (!isCancelled) setLoadedBooks(prev => [...prev, book]);
+        }).finally(() => { if (!isCancelled) setIsLoading(false); });
+        return () => { isCancelled = true; };
+    }, [storage, books.length]);
+
+    const index = useMemo(() => buildSearchIndex(loadedBooks), [loadedBooks]);
+    const hits = useMemo(() => searchBooks(index, query), [index, query]);
+
+    const handleOpen = (hit: SearchHit) => {
+        const book = books.find(b => b.id === hit.bookId) || index.books[hit.bookId];
+        if (book) onOpenResult(book, { itemId: hit.itemId, pageIndex: hit.pageIndex });
+    };
+
+    return (
+        <div className="max-w-3xl" onClick={(e) => e.stopPropagation()}>
+            <div className="relative mb-2">
+                <i className="fas fa-search absolute left-4 top-1/2 -translate-y-1/2 text-slate-400"></i>
+                <input
+                    autoFocus
+                    type="search"
+                    value={query}
+                    onChange={(e) => setQuery(e.target.value)}
+                    placeholder="Sök i titlar, filnamn, bildtexter och transkriptioner..."
+                    className="w-full pl-11 pr-4 py-3 rounded-xl border border-slate-300 focus:border-indigo-500 focus:ring-4 focus:ring-indigo-100 outline-none text-slate-800 bg-white"
+                />
+            </div>
+            <p className="text-[10px] text-slate-400 mb-6 ml-1">
+                {isLoading
+                    ? <><i className="fas fa-circle-notch fa-spin mr-1"></i>Läser in böcker ({loadedBooks.length} av {books.length})...</>
+                    : `Söker i ${loadedBooks.length} böcker.`}
+            </p>
+
+            {query.trim() && hits.length === 0 && !isLoading && (
+                <div className="text-center text-slate-400 py-12">
+                    <i className="fas fa-search text-3xl mb-3 opacity-50"></i>
+                    <p className="text-sm font-bold">Inga träffar på "{query.trim()}"</p>
+                </div>
+            )}
+
+            <ul className="space-y-2">
+                {hits.map(hit => {
+                    const field = FIELD_LABELS[hit.field];
+                    return (
+                        <li key={`${hit.bookId}-${hit.itemId || 'book'}`}>
+                            <button onClick={() => handleOpen(hit)} className="w-full text-left p-4 bg-white rounded-xl border border-slate-200 hover:border-indigo-300 hover:shadow-md transition-all flex items-start space-x-4">
+                                <div className="w-8 h-8 rounded-lg bg-indigo-50 text-indigo-500 flex items-center justify-center shrink-0" title={field.label}>
+                                    <i className={`fas ${field.icon} text-xs`}></i>
+                                </div>
+                                <div className="flex-1 min-w-0">
+                                    <p className="text-sm font-bold text-slate-800 truncate">
+                                        {hit.itemName || hit.bookTitle}
+                                        {hit.pageIndex !== undefined && <span className="ml-2 text-[10px] font-bold text-slate-400">Sida {hit.pageIndex + 1}</span>}
+                                    </p>
+                                    {hit.field !== 'title' && hit.field !== 'name' && <p className="text-xs text-slate-600 line-clamp-2">{hit.snippet}</p>}
+                                    <p className="text-[10px] text-slate-400 truncate mt-1"><i className="fas fa-book mr-1"></i>{hit.bookTitle} · {field.label}</p>
+                                </div>
+                                <i className="fas fa-chevron-right text-slate-300 text-xs self-center"></i>
+                            </button>
+                        </li>
+                    );
+                })}
+            </ul>
+        </div>
+    );
+};
+
+export default BookSearch;
@@ -0,0 +1,102 @@
+import React, { useState } from 'react';
+import { DriveFile, FileType } from '../types';
+import { ItemConflict, ConflictChoice } from '../services/projectMerge';
+
+interface ConflictResolutionModalProps {
+    conflicts: ItemConflict[];
+    onResolve: (choices: Record<string, ConflictChoice>) => void;
+    onClose: () => void;
+}
+
+// Text the user actually wrote on the item, for comparing the two versions
+const describeItemText = (item: DriveFile): string[] => {
+    const lines: string[] = [];
+    if (item.type === FileType.HEADER && item.headerText) lines.push(item.headerText);
+    if (item.description) lines.push(item.description);
+    Object.values(item.pageMeta || {}).forEach(meta => {
+        meta.headerLines.forEach(l => l.text && lines.push(l.text));
+        meta.footerLines.forEach(l => l.text && lines.push(l.text));
+    });
+    return lines;
+};
+
+const VersionCard = ({ item, label, isSelected, onSelect }: { item?: DriveFile, label: string, isSelected: boolean, onSelect: () => void }) => {
+    const textLines = item ? describeItemText(item) : [];
+    return (
+        <button
+            onClick={onSelect}
+            className={`flex-1 min-w-0 text-left p-3 rounded-xl border-2 transition-all ${isSelected ? 'border-indigo-500 bg-indigo-50' : 'border-slate-200 hover:border-slate-300 bg-white'}`}
+        >
+            <div className="flex items-center justify-between mb-2">
+                <span className="text-[10px] font-bold uppercase tracking-wider text-slate-500">{label}</span>
+                {isSelected && <i className="fas fa-check-circle text-indigo-600"></i>}
+            </div>
+            {item ? (
+                <div className="flex space-x-3">
+                    <div className="w-12 h-16 rounded bg-slate-100 shrink-0 overflow-hidden flex items-center justify-center">
+                        {item.type === FileType.HEADER ? (
+                            <i className="fas fa-heading text-slate-400"></i>
+                        ) : item.thumbnail ? (
+                            <img src={item.thumbnail} className="w-full h-full object-cover" alt={item.name} />
+                        ) : (
+                            <i className={`fas ${item.type === FileType.PDF ? 'fa-file-pdf' : 'fa-image'} text-slate-400`}></i>
+                        )}
+                    </div>
+                    <div className="min-w-0 flex-1">
+                        <p className="text-xs font-bold text-slate-800 truncate">{item.type === FileType.HEADER ? 'Kapitel' : item.name}</p>
+                        {textLines.length > 0 ? (
+                            textLines.slice(0, 4).map((line, i) => <p key={i} className="text-[11px] text-slate-600 line-clamp-2">{line}</p>)
+                        ) : (
+                            <p className="text-[11px] text-slate-400 italic">Ingen text</p>
+                        )}
+                    </div>
+                </div>
+            ) : (
+                <div className="h-16 flex items-center justify-center text-xs font-bold text-slate-400">
+                    <i className="fas fa-trash mr-2"></i> Borttagen
+                </div>
+            )}
+        </button>
+    );
+};
+
+const ConflictResolutionModal: React.FC<ConflictResolutionModalProps> = ({ conflicts, onResolve, onClose }) => {
+    const [choices, setChoices] = useState<Record<string, ConflictChoice>>(
+        Object.fromEntries(conflicts.map(c => [c.id, 'local' as ConflictChoice]))
+    );
+
+    const chooseAll = (choice: ConflictChoice) => setChoices(Object.fromEntries(conflicts.map(c => [c.id, choice])));
+
+    return (
+        <div className="fixed inset-0 z-[80] bg-black/60 backdrop-blur-sm flex items-center justify-center p-4">
+            <div className="bg-white rounded-2xl shadow-2xl w-full max-w-2xl max-h-[90vh] overflow-hidden flex flex-col animate-in fade-in zoom-in">
+                <div className="p-6 border-b border-slate-100 flex justify-between items-start">
+                    <div>
+                        <h3 className="text-lg font-bold text-slate-900">Boken har ändrats på en annan enhet</h3>
+                        <p className="text-sm text-slate-500 mt-1">
+                            Övriga ändringar har slagits ihop automatiskt. Välj vilken version som ska gälla för {conflicts.length === 1 ? 'minnet' : `de ${conflicts.length} minnena`} nedan.
+                        </p>
+                    </div>
+                    <button onClick={onClose} className="text-slate-400 hover:text-red-500 ml-4"><i className="fas fa-times"></i></button>
+                </div>
+
+                <div className="flex-1 overflow-y-auto p-6 space-y-4">
+                    {conflicts.map(conflict => (
+                        <div key={conflict.id} className="flex space-x-3">
+                            <VersionCard item={conflict.local} label="Din version" isSelected={choices[conflict.id] === 'local'} onSelect={() => setChoices(prev => ({ ...prev, [conflict.id]: 'local' }))} />
+                            <VersionCard item={conflict.remote} label="Andra enheten" isSelected={choices[conflict.id] === 'remote'} onSelect={() => setChoices(prev => ({ ...prev, [conflict.id]: 'remote' }))} />
+                        </div>
+                    ))}
+                </div>
+
+                <div className="p-6 border-t border-slate-100 flex flex-wrap gap-3">
+                    <button onClick={() => chooseAll('local')} className="px-4 py-2 bg-slate-100 hover:bg-slate-200 text-slate-600 text-xs font-bold rounded-xl transition-colors">Behåll alla mina</button>
+                    <button onClick={() => chooseAll('remote')} className="px-4 py-2 bg-slate-100 hover:bg-slate-200 text-slate-600 text-xs font-bold rounded-xl transition-colors">Använd alla från andra enheten</button>
+                    <button onClick={() => onResolve(choices)} className="ml-auto px-6 py-2 bg-indigo-600 hover:bg-indigo-700 text-white text-sm font-bold rounded-xl transition-colors shadow-lg shadow-indigo-200">Spara val</button>
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export default ConflictResolutionModal;
@@ -2,6 +2,10 @@
 import React, { useState } from 'react';
 import { MemoryBook, FileType } from '../types';
 import AppLogo from './AppLogo';
+import TrashView from './TrashView';
+import BookSearch from './BookSearch';
+import { SearchTarget } from '../services/bookSearch';
+import { BookStorageProvider } from '../services/bookStorage';
 
 interface DashboardProps {
   books: MemoryBook[];
@@ -9,6 +13,11 @@ interface DashboardProps {
   onOpenBook: (book: MemoryBook) => void;
   onUpdateBooks: (books: MemoryBook[]) => void;
   onDeleteBook: (book: MemoryBook) => Promise<void>; // Updated to Promise
+  storage?: BookStorageProvider | null;
+  onBookRestored?: (book: MemoryBook) => void;
+  bookRootName?: string; // Chosen book folder; unset means the default in My Drive
+  onChangeBookRoot?: () => void;
+  onOpenSearchResult?: (book: MemoryBook, target: SearchTarget) => void;
 }
 
 // Helper moved outside
@@ -35,6 +44,11 @@ interface BookCardProps {
 
 const BookCard: React.FC<BookCardProps> = ({ book, isSelected, isDeleting, onSelect, onDelete }) => {
     const thumb = getThumbnail(book);
+    // Listed books only carry a cover preview; the real numbers come from the folder metadata
+    const itemCount = book.summary ? book.summary.itemCount : book.items.length;
+    const lastEdited = book.summary?.lastEditedAt || book.createdAt;
+    const chunkCount = book.summary?.chunkCount || 0;
+    const chunksSynced = book.summary?.chunksSynced || 0;
     const [dims, setDims] = useState({ width: 'auto', height: '180px' });
     const [imgLoaded, setImgLoaded] = useState(false);
 
@@ -84,7 +98,7 @@ const BookCard: React.FC<BookCardProps> = ({ book, isSelected, isDeleting, onSel
                   <button 
                       onClick={(e) => onDelete(e, book)}
                       className="absolute top-2 right-2 z-30 w-6 h-6 bg-white/90 backdrop-blur text-slate-400 hover:text-red-500 hover:bg-white rounded-full flex items-center justify-center shadow-sm opacity-0 group-hover:opacity-100 transition-all"
-                      title="Ta bort bok"
+                      title={book.sharedBy ? 'Lämna boken' : 'Ta bort bok'}
                   >
                       <i className="fas fa-times text-xs"></i>
                   </button>
@@ -96,6 +110,12 @@ const BookCard: React.FC<BookCardProps> = ({ book, isSelected, isDeleting, onSel
                   </div>
               )}
 
+              {book.sharedBy && !isDeleting && (
+                  <div className="absolute bottom-2 left-2 z-20 max-w-[85%] px-2 py-0.5 bg-white/90 backdrop-blur rounded-full shadow-sm text-[9px] font-bold text-indigo-700 truncate group-hover:opacity-0 transition-opacity" title={book.canEdit === false ? 'Du kan bara läsa den här boken' : undefined}>
+                      <i className="fas fa-user-friends mr-1"></i>Delad av {book.sharedBy}
+                  </div>
+              )}
+
               {thumb ? (
                   <img 
                       src={thumb} 
@@ -118,21 +138,31 @@ const BookCard: React.FC<BookCardProps> = ({ book, isSelected, isDeleting, onSel
                   {book.title}
               </h3>
               <div className="flex items-center justify-between mt-1 text-[9px] font-medium opacity-80">
-                   <span>{new Date(book.createdAt).toLocaleDateString()}</span>
-                   <span>{book.items.length} st</span>
+                   <span>{book.summary?.lastEditedAt ? 'Ändrad ' : ''}{new Date(lastEdited).toLocaleDateString()}</span>
+                   <span>{itemCount} st</span>
               </div>
+              {chunkCount > 0 && (
+                  <div className="text-[9px] font-bold mt-0.5 opacity-90">
+                      {chunksSynced === chunkCount ? <span><i className="fas fa-check-circle mr-1"></i>Alla {chunkCount} delar klara</span> : <span>{chunksSynced} av {chunkCount} delar klara</span>}
+                  </div>
+              )}
           </div>
           
           {/* Always visible title if not hovered (Small bar) */}
           <div className="p-2 bg-white border-t border-slate-100 group-hover:hidden h-12 flex flex-col justify-center">
                <h3 className="text-[11px] font-bold text-slate-700 leading-tight truncate">{book.title}</h3>
-               <span className="text-[9px] text-slate-400">{book.items.length} objekt</span>
+               <span className="text-[9px] text-slate-400">
+                   {itemCount} objekt
+                   {chunkCount > 0 && chunksSynced === chunkCount && <i className="fas fa-check-circle text-emerald-500 ml-1" title="Alla delar klara för FamilySearch"></i>}
+               </span>
           </div>
       </div>
     );
 };
 
-const Dashboard: React.FC<DashboardProps> = ({ books, onCreateNew, onOpenBook, onUpdateBooks, onDeleteBook }) => {
+const Dashboard: React.FC<DashboardProps> = ({ books, onCreateNew, onOpenBook, onUpdateBooks, onDeleteBook, storage, onBookRestored, bookRootName, onChangeBookRoot, onOpenSearchResult }) => {
+  const [showTrash, setShowTrash] = useState(false);
+  const [showSearch, setShowSearch] = useState(false);
   const [selectedBookIds, setSelectedBookIds] = useState<Set<string>>(new Set());
   const [deletingBookIds, setDeletingBookIds] = useState<Set<string>>(new Set());
 
@@ -211,8 +241,8 @@ const Dashboard: React.FC<DashboardProps> = ({ books, onCreateNew, onOpenBook, o
                <AppLogo variant="phase1" className="w-14 h-14" />
             </div>
             <div>
-                <h2 className="text-2xl font-serif font-bold text-slate-900 mb-1">Senaste böckerna</h2>
-                <p className="text-xs text-slate-500">Dina pågående berättelser och minnen.</p>
+                <h2 className="text-2xl font-serif font-bold text-slate-900 mb-1">{showTrash ? 'Papperskorg' : showSearch ? 'Sök' : 'Senaste böckerna'}</h2>
+                <p className="text-xs text-slate-500">{showTrash ? 'Böcker du har tagit bort.' : showSearch ? 'Hitta bilder och texter i alla dina böcker.' : 'Dina pågående berättelser och minnen.'}</p>
             </div>
           </div>
           
@@ -222,14 +252,39 @@ const Dashboard: React.FC<DashboardProps> = ({ books, onCreateNew, onOpenBook, o
                      {selectedBookIds.size} markerade
                  </div>
              )}
-             <button className="text-xs font-bold text-slate-400 hover:text-indigo-600 transition-colors flex items-center space-x-1">
-                 <span>Visa alla</span>
-                 <i className="fas fa-chevron-right text-[10px]"></i>
-             </button>
+             {onOpenSearchResult && !showTrash && (
+                 <button onClick={(e) => { e.stopPropagation(); setShowSearch(!showSearch); setSelectedBookIds(new Set()); }} className={`text-xs font-bold transition-colors flex items-center space-x-1 ${showSearch ? 'text-indigo-600' : 'text-slate-400 hover:text-indigo-600'}`}>
+                     <i className={`fas ${showSearch ? 'fa-arrow-left' : 'fa-search'} text-[10px]`}></i>
+                     <span>{showSearch ? 'Tillbaka till böckerna' : 'Sök'}</span>
+                 </button>
+             )}
+             {onChangeBookRoot && !showTrash && !showSearch && (
+                 <button onClick={(e) => { e.stopPropagation(); onChangeBookRoot(); }} className="text-xs font-bold text-slate-400 hover:text-indigo-600 transition-colors flex items-center space-x-1 max-w-[12rem]" title="Välj var böckerna sparas, t.ex. i en delad enhet">
+                     <i className="fas fa-folder text-[10px]"></i>
+                     <span className="truncate">{bookRootName || 'Min Enhet / Dela din historia'}</span>
+                 </button>
+             )}
+             {storage?.listTrashedBooks && !showSearch && (
+                 <button onClick={(e) => { e.stopPropagation(); setShowTrash(!showTrash); setSelectedBookIds(new Set()); }} className={`text-xs font-bold transition-colors flex items-center space-x-1 ${showTrash ? 'text-indigo-600' : 'text-slate-400 hover:text-indigo-600'}`}>
+                     <i className={`fas ${showTrash ? 'fa-arrow-left' : 'fa-trash-alt'} text-[10px]`}></i>
+                     <span>{showTrash ? 'Tillbaka till böckerna' : 'Papperskorg'}</span>
+                 </button>
+             )}
+             {!showTrash && !showSearch && (
+                 <button className="text-xs font-bold text-slate-400 hover:text-indigo-600 transition-colors flex items-center space-x-1">
+                     <span>Visa alla</span>
+                     <i className="fas fa-chevron-right text-[10px]"></i>
+                 </button>
+             )}
           </div>
         </header>
 
-        {/* Dynamic Grid using Flex-Wrap */}
+        {/* Dynamic Grid using Flex-Wrap, or the trash list */}
+        {showTrash && storage ? (
+            <TrashView storage={storage} onBookRestored={(book) => onBookRestored?.(book)} />
+        ) : showSearch && onOpenSearchResult ? (
+            <BookSearch books={books} storage={storage} onOpenResult={onOpenSearchResult} />
+        ) : (
         <div className="flex flex-wrap gap-4 pb-10 justify-center md:justify-start">
           
           {/* Create New Card (Fixed Portrait) */}
@@ -260,6 +315,7 @@ const Dashboard: React.FC<DashboardProps> = ({ books, onCreateNew, onOpenBook, o
              />
           ))}
         </div>
+        )}
 
       {selectedBookIds.size > 0 && (
         <div className="fixed bottom-8 left-1/2 transform -translate-x-1/2 bg-slate-900 text-white px-6 py-3 rounded-full shadow-2xl z-50 flex items-center space-x-6 animate-in slide-in-from-bottom-6">
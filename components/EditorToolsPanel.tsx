@@ -1,8 +1,17 @@
 
 import React, { useState, useEffect, useRef } from 'react';
 import AppLogo from './AppLogo';
-import { TextConfig, RichTextLine, PageMetadata } from '../types';
-import { DEFAULT_TEXT_CONFIG } from '../services/pdfService';
+import { TextConfig, RichTextLine, PageMetadata, CaptureInfo, FontFamily } from '../types';
+import { DEFAULT_TEXT_CONFIG } from '../services/textDefaults';
+import { describeCaptureInfo, hasCaptureInfo } from '../services/exif';
+
+// The families the PDF can draw, with a similar browser font so the text box gives an idea of the result
+const FONT_FAMILIES: { value: FontFamily, label: string, css?: string }[] = [
+    { value: 'serif', label: 'Klassisk' }, // The text box's own serif
+    { value: 'sans', label: 'Modern', css: 'Helvetica, Arial, sans-serif' },
+    { value: 'handwriting', label: 'Handskrift', css: "'Caveat', cursive" },
+    { value: 'mono', label: 'Maskinskrift', css: "'Courier New', Courier, monospace" }
+];
 
 interface EditorToolsPanelProps {
     activeSection: 'header' | 'footer';
@@ -13,6 +22,7 @@ interface EditorToolsPanelProps {
     updateCurrentMeta: (updates: Partial<PageMetadata>) => void;
     focusedLineId: string | null;
     setFocusedLineId: (id: string | null) => void;
+    captureInfo?: CaptureInfo; // From the photo's EXIF; offered as a ready-made caption line
 }
 
 const EditorToolsPanel: React.FC<EditorToolsPanelProps> = ({
@@ -23,7 +33,8 @@ const EditorToolsPanel: React.FC<EditorToolsPanelProps> = ({
     pageMeta,
     updateCurrentMeta,
     focusedLineId,
-    setFocusedLineId
+    setFocusedLineId,
+    captureInfo
 }) => {
     // Show settings toggle
     const [showSettings, setShowSettings] = useState(false);
@@ -34,6 +45,7 @@ const EditorToolsPanel: React.FC<EditorToolsPanelProps> = ({
 
     // Convert array of lines to single string for textarea
     const textValue = (activeLines || []).map(l => l.text).join('\n');
+    const fontFamilyCss = FONT_FAMILIES.find(f => f.value === currentConfig.fontFamily)?.css;
 
     // Handle typing in the textarea
     const handleTextChange = (newFullText: string) => {
@@ -59,6 +71,18 @@ const EditorToolsPanel: React.FC<EditorToolsPanelProps> = ({
         else updateCurrentMeta({ footerLines: newRichLines });
     };
 
+    const captureText = hasCaptureInfo(captureInfo) ? describeCaptureInfo(captureInfo) : '';
+    const hasCaptureLine = !!captureText && (activeLines || []).some(l => l.text === captureText);
+
+    // Adds date, place and camera as a line of its own, styled like the last line
+    const handleAddCaptureLine = () => {
+        const lines = (activeLines || []).filter(l => l.text.trim() !== '');
+        const config = lines.length > 0 ? lines[lines.length - 1].config : DEFAULT_TEXT_CONFIG;
+        const newLines = [...lines, { id: `line-${Date.now()}-capture`, text: captureText, config }];
+        if (activeSection === 'header') updateCurrentMeta({ headerLines: newLines });
+        else updateCurrentMeta({ footerLines: newLines });
+    };
+
     // Auto-focus logic
     useEffect(() => {
         if (isMobileExpanded || window.innerWidth >= 1024) {
@@ -127,7 +151,8 @@ const EditorToolsPanel: React.FC<EditorToolsPanelProps> = ({
                         style={{ 
                             fontWeight: currentConfig.isBold ? 'bold' : 'normal', 
                             fontStyle: currentConfig.isItalic ? 'italic' : 'normal',
-                            textAlign: currentConfig.alignment
+                            textAlign: currentConfig.alignment,
+                            fontFamily: fontFamilyCss
                         }} 
                         placeholder={activeSection === 'header' ? "Skriv rubrik eller text på bilden..." : "Skriv din berättelse här..."} 
                     />
@@ -136,6 +161,18 @@ const EditorToolsPanel: React.FC<EditorToolsPanelProps> = ({
                     </div>
                 </div>
 
+                {captureText && (
+                    <button
+                        onClick={handleAddCaptureLine}
+                        disabled={hasCaptureLine}
+                        className="w-full text-left px-3 py-2 rounded-xl border border-dashed border-slate-300 bg-white hover:border-indigo-400 hover:bg-indigo-50 transition-all disabled:opacity-50 disabled:hover:bg-white disabled:hover:border-slate-300 shadow-sm"
+                        title="Lägg till som en egen rad"
+                    >
+                        <span className="block text-[9px] font-bold text-slate-400 mb-0.5"><i className="fas fa-camera mr-1"></i>{hasCaptureLine ? 'Fotoinfo tillagd' : 'Lägg till fotoinfo'}</span>
+                        <span className="block text-xs text-slate-600 truncate">{captureText}</span>
+                    </button>
+                )}
+
                 {/* 3. Expandable Formatting Settings */}
                 {showSettings && (
                     <div className="bg-white rounded-xl border border-slate-200 overflow-hidden shadow-sm animate-in slide-in-from-top-2 fade-in duration-200">
@@ -175,6 +212,44 @@ const EditorToolsPanel: React.FC<EditorToolsPanelProps> = ({
                                 <input type="range" min="8" max="72" value={currentConfig.fontSize} onChange={(e) => updateActiveConfig('fontSize', parseInt(e.target.value))} className="w-full h-1 bg-slate-200 rounded-lg appearance-none cursor-pointer accent-indigo-600" />
                             </div>
 
+                            {/* Typeface */}
+                            <div>
+                                <label className="text-[9px] font-bold text-slate-400 block mb-2">Typsnitt</label>
+                                <div className="grid grid-cols-4 bg-white border border-slate-200 rounded-lg p-1 shadow-sm">
+                                    {FONT_FAMILIES.map(family => (
+                                        <button
+                                            key={family.value}
+                                            onClick={() => updateActiveConfig('fontFamily', family.value === 'serif' ? undefined : family.value)}
+                                            className={`px-1 py-1.5 rounded text-xs transition-all ${(currentConfig.fontFamily || 'serif') === family.value ? 'bg-indigo-50 text-indigo-600 font-bold' : 'text-slate-500 hover:bg-slate-50'} ${family.value === 'serif' ? 'font-serif' : ''}`}
+                                            style={{ fontFamily: family.css }}
+                                        >
+                                            {family.label}
+                                        </button>
+                                    ))}
+                                </div>
+                            </div>
+
+                            {/* Spacing */}
+                            <div className="grid grid-cols-2 gap-4">
+                                <div>
+                                    <div className="flex justify-between text-[9px] font-bold text-slate-400 mb-1"><span>Radavstånd</span><span>{(currentConfig.lineSpacing || 1.3).toFixed(1)}</span></div>
+                                    <input type="range" min="0.9" max="2.5" step="0.1" value={currentConfig.lineSpacing || 1.3} onChange={(e) => updateActiveConfig('lineSpacing', parseFloat(e.target.value))} className="w-full h-1 bg-slate-200 rounded-lg appearance-none cursor-pointer accent-indigo-600" />
+                                </div>
+                                <div>
+                                    <div className="flex justify-between text-[9px] font-bold text-slate-400 mb-1"><span>Teckenavstånd</span><span>{currentConfig.letterSpacing || 0}px</span></div>
+                                    <input type="range" min="-2" max="10" step="0.5" value={currentConfig.letterSpacing || 0} onChange={(e) => updateActiveConfig('letterSpacing', parseFloat(e.target.value) || undefined)} className="w-full h-1 bg-slate-200 rounded-lg appearance-none cursor-pointer accent-indigo-600" />
+                                </div>
+                            </div>
+
+                            {/* Auto-shrink: long texts are wrapped, and shrunk if they still don't fit */}
+                            <label className="flex items-center space-x-3 p-3 bg-white rounded-lg cursor-pointer hover:bg-slate-50 transition-colors border border-slate-200 shadow-sm">
+                                <input type="checkbox" checked={currentConfig.autoShrink || false} onChange={(e) => updateActiveConfig('autoShrink', e.target.checked || undefined)} className="w-4 h-4 text-indigo-600 rounded focus:ring-indigo-500 border-slate-300"/>
+                                <div>
+                                    <span className="text-xs font-bold text-slate-700 block">Krymp för att passa</span>
+                                    <span className="text-[9px] text-slate-500">Gör texten mindre om den inte får plats</span>
+                                </div>
+                            </label>
+
                             {/* Colors */}
                             <div className="grid grid-cols-2 gap-4">
                                 <div>
@@ -289,7 +364,7 @@ const EditorToolsPanel: React.FC<EditorToolsPanelProps> = ({
                                     onFocus={() => { if(!showSettings) setIsMobileExpanded(true); }} // Expand on focus for better keyboard handling
                                     className="w-full bg-slate-50 border border-slate-200 rounded-xl p-3 outline-none focus:border-indigo-500 focus:bg-white text-slate-800 text-sm font-serif"
                                     placeholder="Skriv din text här..."
-                                    style={{ fontWeight: currentConfig.isBold ? 'bold' : 'normal', fontStyle: currentConfig.isItalic ? 'italic' : 'normal', textAlign: currentConfig.alignment }}
+                                    style={{ fontWeight: currentConfig.isBold ? 'bold' : 'normal', fontStyle: currentConfig.isItalic ? 'italic' : 'normal', textAlign: currentConfig.alignment, fontFamily: fontFamilyCss }}
                                 />
                              </div>
                          </div>
@@ -3,6 +3,7 @@ import React, { useState } from 'react';
 import { DriveFile, AppSettings, ChunkData, ExportedFile } from '../types';
 import { generateCombinedPDF } from '../services/pdfService';
 import { fetchFileBlob, findFileInFolder } from '../services/driveService';
+import { hasCaptureInfo } from '../services/exif';
 import JSZip from 'jszip';
 import AppLogo from './AppLogo';
 import SharingOptionsGrid from './SharingOptionsGrid';
@@ -13,6 +14,7 @@ interface FamilySearchExportProps {
     chunks: ChunkData[]; // New: Accept stable chunks
     isOptimizationComplete: boolean;
     driveFolderId?: string;
+    driveId?: string; // Shared Drive the book folder is in, if any
     bookTitle: string;
     accessToken: string;
     onBack: () => void;
@@ -21,8 +23,22 @@ interface FamilySearchExportProps {
     exportedFiles?: ExportedFile[];
 }
 
+// When and where each photo was taken, for whoever continues the research.
+// Semicolons and a BOM so Excel opens it correctly with Swedish settings.
+const buildPhotoInfoCsv = (chunks: ChunkData[]): string | null => {
+    const quote = (value: string | number | undefined) => value === undefined ? '' : `"${String(value).replace(/"/g, '""')}"`;
+    const rows = chunks.flatMap(chunk => chunk.items
+        .filter(item => hasCaptureInfo(item.captureInfo))
+        .map(item => {
+            const info = item.captureInfo!;
+            return [chunk.title, item.name, info.takenAt?.replace('T', ' '), info.latitude?.toFixed(6), info.longitude?.toFixed(6), info.camera].map(quote).join(';');
+        }));
+    if (rows.length === 0) return null;
+    return '\uFEFF' + ['Del;Fil;Fotograferad;Latitud;Longitud;Kamera', ...rows].join('\r\n');
+};
+
 const FamilySearchExport: React.FC<FamilySearchExportProps> = ({ 
-    items, chunks, isOptimizationComplete, driveFolderId, 
+    items, chunks, isOptimizationComplete, driveFolderId, driveId,
     bookTitle, accessToken, onBack, settings, onUpdateItems, exportedFiles = [] 
 }) => {
     const [isExporting, setIsExporting] = useState(false);
@@ -48,7 +64,7 @@ const FamilySearchExport: React.FC<FamilySearchExportProps> = ({
                 // STRATEGY: Prefer downloading from Drive if synced
                 if (chunks[0].isSynced && driveFolderId) {
                      setProgress({ current: 30, total: 100, msg: 'Laddar ner från Drive...' });
-                     const fileId = await findFileInFolder(accessToken, driveFolderId, `${chunks[0].title}.pdf`);
+                     const fileId = await findFileInFolder(accessToken, driveFolderId, `${chunks[0].title}.pdf`, driveId);
                      if (fileId) {
                          blob = await fetchFileBlob(accessToken, fileId);
                      } else {
@@ -87,7 +103,7 @@ const FamilySearchExport: React.FC<FamilySearchExportProps> = ({
 
                     // STRATEGY: Prefer downloading from Drive if synced
                     if (chunk.isSynced && driveFolderId) {
-                         const fileId = await findFileInFolder(accessToken, driveFolderId, `${chunk.title}.pdf`);
+                         const fileId = await findFileInFolder(accessToken, driveFolderId, `${chunk.title}.pdf`, driveId);
                          if (fileId) {
                              const blob = await fetchFileBlob(accessToken, fileId);
                              pdfBytes = await blob.arrayBuffer();
@@ -103,13 +119,16 @@ const FamilySearchExport: React.FC<FamilySearchExportProps> = ({
                     zip.file(`${chunk.title}.pdf`, pdfBytes);
                 }
 
+                const photoInfo = buildPhotoInfoCsv(chunks);
+                if (photoInfo) zip.file('bildinfo.csv', photoInfo);
+
                 // 2. Add Manually Exported Files (PNGs from Drive)
                 for (const file of exportedFiles) {
                     currentStep++;
                     setProgress({ current: currentStep, total: totalSteps, msg: `Hämtar ${file.name}...` });
                     try {
                         if (driveFolderId) {
-                            const fileId = await findFileInFolder(accessToken, driveFolderId, file.name);
+                            const fileId = await findFileInFolder(accessToken, driveFolderId, file.name, driveId);
                             if (fileId) {
                                 const blob = await fetchFileBlob(accessToken, fileId);
                                 const buf = await blob.arrayBuffer();
@@ -1,8 +1,13 @@
 
-import { DriveFile, FileType } from '../types';
-import { fetchDriveFiles, fetchSharedDrives } from '../services/driveService';
+import { DriveFile, FileType, BookRoot } from '../types';
+import { fetchDriveFiles, fetchSharedDrives, searchDriveFiles, fetchRecentFiles, DriveSearchCriteria, DriveFileKind } from '../services/driveService';
 import React, { useState, useEffect, useRef } from 'react';
 import AppLogo from './AppLogo';
+import FolderImportDialog from './FolderImportDialog';
+import { isImageFile } from '../services/imageDecode';
+import { readCaptureInfo } from '../services/exif';
+import { isTextDocument, readTextDocument } from '../services/textDocument';
+import { GoogleAccount } from '../services/accounts';
 
 interface FileBrowserProps {
   accessToken: string;
@@ -18,60 +23,167 @@ interface FileBrowserProps {
     activeTab: 'local' | 'drive' | 'shared';
   };
   onUpdateState: (newState: any) => void;
+  // Turns the browser into a folder picker (choosing where books are kept). null = the default location.
+  onPickFolder?: (folder: BookRoot | null) => void;
+  // Browse the Drive of another signed-in account. accessToken belongs to activeAccountEmail.
+  accounts?: GoogleAccount[];
+  activeAccountEmail?: string;
+  onChangeAccount?: (email: string) => void;
+  onAddAccount?: () => void;
 }
 
+const KIND_FILTERS: { kind: DriveFileKind, label: string, icon: string }[] = [
+  { kind: 'image', label: 'Bilder', icon: 'fa-image' },
+  { kind: 'pdf', label: 'PDF', icon: 'fa-file-pdf' },
+  { kind: 'audio', label: 'Ljud', icon: 'fa-volume-high' },
+  { kind: 'googleDoc', label: 'Google Dokument', icon: 'fa-file-word' }
+];
+
+const SEARCH_DEBOUNCE_MS = 400;
+
+const hasSearchCriteria = (c: DriveSearchCriteria) =>
+  !!(c.text?.trim() || c.kinds?.length || c.modifiedFrom || c.modifiedTo || c.owner?.trim());
+
 const FileBrowser: React.FC<FileBrowserProps> = ({ 
   accessToken, 
   onRequestAccess,
   onAddFiles, 
+  selectedIds,
   onClose,
   browserState,
-  onUpdateState
+  onUpdateState,
+  onPickFolder,
+  accounts = [],
+  activeAccountEmail,
+  onChangeAccount,
+  onAddAccount
 }) => {
   const [files, setFiles] = useState<DriveFile[]>([]);
   const [loading, setLoading] = useState(false);
   const [localSelection, setLocalSelection] = useState<DriveFile[]>([]); 
   const fileInputRef = useRef<HTMLInputElement>(null);
+  // Identifies the latest listing so pages from a folder we already left are ignored
+  const loadRequestRef = useRef(0);
+  // 'search' and 'recent' list files from anywhere instead of the current folder
+  const [browseMode, setBrowseMode] = useState<'folder' | 'search' | 'recent'>('folder');
+  const [searchCriteria, setSearchCriteria] = useState<DriveSearchCriteria>({});
+  const [showFilters, setShowFilters] = useState(false);
+  // Folder whose whole tree is being previewed for import
+  const [importFolder, setImportFolder] = useState<{ id: string, name: string, driveId?: string } | null>(null);
+  const [pastedText, setPastedText] = useState<string | null>(null); // null = paste dialog closed
 
   const { currentFolder, currentDriveId, breadcrumbs, activeTab } = browserState;
   
   const hasAccess = !!accessToken;
+  const isPickingFolder = !!onPickFolder;
+  const isSearching = browseMode !== 'folder';
+  // Only folders matter when picking one
+  const listedFiles = isPickingFolder ? files.filter(f => f.type === FileType.FOLDER) : files;
+  // The list of Shared Drives and the top of My Drive can't hold books themselves
+  const canPickCurrentFolder = activeTab === 'shared' ? !!currentDriveId : currentFolder !== 'root';
+
+  const handlePickCurrentFolder = () => {
+    if (!onPickFolder || !canPickCurrentFolder) return;
+    onPickFolder({
+      folderId: currentFolder,
+      driveId: activeTab === 'shared' && currentDriveId ? currentDriveId : undefined,
+      name: breadcrumbs.filter(c => c.id !== 'root-drives').map(c => c.name).join(' / ')
+    });
+  };
 
   useEffect(() => {
     // Only fetch if we are in a drive tab AND have an access token
     if (activeTab !== 'local' && hasAccess) {
-      loadDriveFiles();
+      if (!isSearching) {
+        loadDriveFiles();
+      } else {
+        // Wait for a pause in typing before asking Drive
+        const timer = setTimeout(loadMatchingFiles, browseMode === 'search' ? SEARCH_DEBOUNCE_MS : 0);
+        return () => clearTimeout(timer);
+      }
     } else if (!hasAccess && activeTab !== 'local') {
       // Clear files if we lose access or switch to a tab requiring access without it
       setFiles([]);
     }
-  }, [currentFolder, activeTab, currentDriveId, hasAccess]);
+  }, [currentFolder, activeTab, currentDriveId, hasAccess, accessToken, browseMode, searchCriteria]);
 
   const loadDriveFiles = async () => {
     if (!hasAccess) return;
     
+    const requestId = ++loadRequestRef.current;
+    const isCurrent = () => requestId === loadRequestRef.current;
+
     setLoading(true);
     try {
       if (activeTab === 'shared' && !currentDriveId) {
         const drives = await fetchSharedDrives(accessToken);
-        setFiles(drives);
+        if (isCurrent()) setFiles(drives);
       } else {
         const driveIdToUse = activeTab === 'shared' && currentDriveId ? currentDriveId : undefined;
         const folderIdToUse = (activeTab === 'shared' && currentFolder === 'root' && currentDriveId) 
           ? currentDriveId 
           : currentFolder;
 
-        const data = await fetchDriveFiles(accessToken, folderIdToUse, driveIdToUse);
-        setFiles(data);
+        // Show each page as soon as it arrives instead of waiting for the whole folder
+        const data = await fetchDriveFiles(accessToken, folderIdToUse, driveIdToUse, (filesSoFar) => {
+          if (!isCurrent()) return;
+          setFiles(filesSoFar);
+          setLoading(false);
+        });
+        if (isCurrent()) setFiles(data);
       }
     } catch (err) {
       console.error(err);
+      if (isCurrent()) setFiles([]);
+    } finally {
+      if (isCurrent()) setLoading(false);
+    }
+  };
+
+  const loadMatchingFiles = async () => {
+    const requestId = ++loadRequestRef.current;
+    const isCurrent = () => requestId === loadRequestRef.current;
+    // In the shared tab we search the open Shared Drive, elsewhere My Drive and files shared with me
+    const driveId = activeTab === 'shared' && currentDriveId ? currentDriveId : undefined;
+
+    if (browseMode === 'search' && !hasSearchCriteria(searchCriteria)) {
       setFiles([]);
+      return;
+    }
+    setLoading(true);
+    try {
+      const data = browseMode === 'recent'
+        ? await fetchRecentFiles(accessToken, driveId)
+        : await searchDriveFiles(accessToken, searchCriteria, driveId);
+      if (isCurrent()) setFiles(data);
+    } catch (err) {
+      console.error(err);
+      if (isCurrent()) setFiles([]);
     } finally {
-      setLoading(false);
+      if (isCurrent()) setLoading(false);
     }
   };
 
+  const updateSearch = (updates: Partial<DriveSearchCriteria>) => {
+    const next = { ...searchCriteria, ...updates };
+    setSearchCriteria(next);
+    setBrowseMode(hasSearchCriteria(next) ? 'search' : 'folder');
+  };
+
+  const handleClearSearch = () => {
+    setSearchCriteria({});
+    setShowFilters(false);
+    setBrowseMode('folder');
+  };
+
+  const toggleKind = (kind: DriveFileKind) => {
+    const kinds = searchCriteria.kinds || [];
+    updateSearch({ kinds: kinds.includes(kind) ? kinds.filter(k => k !== kind) : [...kinds, kind] });
+  };
+
+  const ownerFilter = searchCriteria.owner === undefined ? 'any'
+    : searchCriteria.owner === 'me' || searchCriteria.owner === 'others' ? searchCriteria.owner : 'email';
+
   const updateState = (updates: Partial<typeof browserState>) => {
     onUpdateState({ ...browserState, ...updates });
   };
@@ -88,6 +200,7 @@ const FileBrowser: React.FC<FileBrowserProps> = ({
   // --- Actions ---
 
   const handleToggleFile = (file: DriveFile) => {
+    if (isPickingFolder && file.type !== FileType.FOLDER) return;
     if (file.type === FileType.FOLDER) {
       // Navigera in i mapp
       if (activeTab === 'shared' && !currentDriveId) {
@@ -112,6 +225,20 @@ const FileBrowser: React.FC<FileBrowserProps> = ({
     }
   };
 
+  const handleStartFolderImport = (e: React.MouseEvent, folder: DriveFile) => {
+    e.stopPropagation();
+    // At the list of Shared Drives the "folder" is the drive itself
+    const driveId = activeTab === 'shared' ? (currentDriveId || folder.id) : undefined;
+    setImportFolder({ id: folder.id, name: folder.name, driveId });
+  };
+
+  const handleImportFolder = (items: DriveFile[]) => {
+    onAddFiles([...localSelection, ...items]);
+    setLocalSelection([]);
+    setImportFolder(null);
+    onClose();
+  };
+
   const handleSelectAll = () => {
     const visibleFiles = files.filter(f => f.type !== FileType.FOLDER);
     const allSelected = visibleFiles.every(f => localSelection.some(s => s.id === f.id));
@@ -143,8 +270,9 @@ const FileBrowser: React.FC<FileBrowserProps> = ({
     onClose();
   };
 
+  // A dialog rather than prompt(), which drops the line breaks between paragraphs
   const handlePasteText = () => {
-    const text = prompt("Klistra in din text här:");
+    const text = pastedText?.trim();
     if (text) {
       const textFile: DriveFile = {
         id: `text-${Date.now()}`,
@@ -156,21 +284,38 @@ const FileBrowser: React.FC<FileBrowserProps> = ({
         isLocal: true
       };
       onAddFiles([textFile]);
+      setPastedText(null);
       onClose();
     }
   };
 
-  const handleFileSelect = (e: React.ChangeEvent<HTMLInputElement>) => {
+  const handleFileSelect = async (e: React.ChangeEvent<HTMLInputElement>) => {
     if (e.target.files) {
-      const selectedFiles = Array.from(e.target.files).map((file: File) => ({
-        id: `local-${Date.now()}-${Math.random()}`,
-        name: file.name,
-        type: file.type.startsWith('image/') ? FileType.IMAGE : FileType.TEXT, 
-        size: file.size,
-        modifiedTime: new Date(file.lastModified).toLocaleDateString(),
-        isLocal: true,
-        fileObj: file,
-        blobUrl: URL.createObjectURL(file)
+      const selectedFiles = await Promise.all(Array.from(e.target.files).map(async (file: File): Promise<DriveFile> => {
+        const isImage = isImageFile(file);
+        const isPdf = file.type === 'application/pdf' || /\.pdf$/i.test(file.name);
+        let text: string | undefined;
+        if (isTextDocument(file.name, file.type)) {
+          try {
+            text = await readTextDocument(file, file.name);
+          } catch (err) {
+            console.warn(`Could not read ${file.name}`, err);
+            alert(`Kunde inte läsa texten i ${file.name}.`);
+          }
+        }
+        return {
+          id: `local-${Date.now()}-${Math.random()}`,
+          name: file.name,
+          type: isImage ? FileType.IMAGE : isPdf ? FileType.PDF : FileType.TEXT, 
+          size: file.size,
+          description: text,
+          modifiedTime: new Date(file.lastModified).toLocaleDateString(),
+          isLocal: true,
+          fileObj: file,
+          blobUrl: URL.createObjectURL(file),
+          // Date, place and camera from the photo's EXIF, for captions and sorting
+          captureInfo: isImage ? await readCaptureInfo(file) : undefined
+        };
       }));
       
       setLocalSelection(prev => [...prev, ...selectedFiles]);
@@ -226,16 +371,29 @@ const FileBrowser: React.FC<FileBrowserProps> = ({
              <div className="w-8 h-8">
                 <AppLogo variant="phase1" className="w-full h-full" />
              </div>
-             <h2 className="text-lg md:text-xl font-serif font-bold text-slate-800">Samla minnen</h2>
+             <h2 className="text-lg md:text-xl font-serif font-bold text-slate-800">{isPickingFolder ? 'Välj bokmapp' : 'Samla minnen'}</h2>
         </div>
         
         <div className="flex items-center space-x-2">
+           {onChangeAccount && accounts.length > 0 && (
+             <select
+               value={activeAccountEmail}
+               onChange={(e) => e.target.value === '+add' ? onAddAccount?.() : onChangeAccount(e.target.value)}
+               className="max-w-[10rem] md:max-w-[14rem] px-2 py-1.5 text-xs font-bold bg-slate-100 rounded-lg border-none truncate"
+               title="Hämta från konto"
+             >
+               {accounts.map(a => <option key={a.email} value={a.email}>{a.email}</option>)}
+               {onAddAccount && <option value="+add">+ Lägg till konto</option>}
+             </select>
+           )}
+           {!isPickingFolder && (<>
            <button onClick={handleAddEmptySource} className="hidden md:inline-block px-3 py-1.5 text-xs font-bold bg-slate-100 hover:bg-slate-200 rounded-lg transition-colors">
              + Tom källa
            </button>
-           <button onClick={handlePasteText} className="hidden md:inline-block px-3 py-1.5 text-xs font-bold bg-slate-100 hover:bg-slate-200 rounded-lg transition-colors">
+           <button onClick={() => setPastedText('')} className="hidden md:inline-block px-3 py-1.5 text-xs font-bold bg-slate-100 hover:bg-slate-200 rounded-lg transition-colors">
              <i className="fas fa-paste mr-1"></i> Klistra in
            </button>
+           </>)}
            <button onClick={onClose} className="w-8 h-8 flex items-center justify-center rounded-full hover:bg-red-50 text-slate-400 hover:text-red-500 transition-colors">
              <i className="fas fa-times text-lg"></i>
            </button>
@@ -244,7 +402,7 @@ const FileBrowser: React.FC<FileBrowserProps> = ({
 
       {/* Tabs */}
       <div className="flex border-b border-slate-100">
-        {['local', 'drive', 'shared'].map((tab: any) => (
+        {(isPickingFolder ? ['drive', 'shared'] : ['local', 'drive', 'shared']).map((tab: any) => (
           <button 
             key={tab}
             onClick={() => switchTab(tab)}
@@ -274,11 +432,91 @@ const FileBrowser: React.FC<FileBrowserProps> = ({
           </div>
       )}
 
+      {/* Search & Filters */}
+      {activeTab !== 'local' && hasAccess && !isPickingFolder && (
+        <div className="px-4 pt-3 space-y-2">
+          <div className="flex items-center gap-2">
+            <div className="relative flex-1 min-w-0">
+              <i className="fas fa-search absolute left-3 top-1/2 -translate-y-1/2 text-slate-400 text-xs"></i>
+              <input
+                type="search"
+                value={searchCriteria.text || ''}
+                onChange={(e) => updateSearch({ text: e.target.value })}
+                placeholder={activeTab === 'shared' && currentDriveId ? 'Sök i den delade enheten...' : 'Sök på namn eller innehåll...'}
+                className="w-full pl-8 pr-8 py-2 rounded-lg border border-slate-200 text-sm focus:outline-none focus:ring-2 focus:ring-indigo-200"
+              />
+              {browseMode === 'search' && (
+                <button onClick={handleClearSearch} className="absolute right-2 top-1/2 -translate-y-1/2 text-slate-400 hover:text-red-500 px-1" title="Rensa sökningen">
+                  <i className="fas fa-times text-xs"></i>
+                </button>
+              )}
+            </div>
+            <button
+              onClick={() => setShowFilters(!showFilters)}
+              className={`px-3 py-2 rounded-lg text-xs font-bold transition-colors ${showFilters || (browseMode === 'search' && !searchCriteria.text?.trim()) ? 'bg-indigo-100 text-indigo-700' : 'bg-slate-100 text-slate-600 hover:bg-slate-200'}`}
+              title="Filtrera på typ, datum och ägare"
+            >
+              <i className="fas fa-sliders"></i><span className="hidden md:inline ml-1">Filter</span>
+            </button>
+            <button
+              onClick={() => setBrowseMode(browseMode === 'recent' ? 'folder' : 'recent')}
+              className={`px-3 py-2 rounded-lg text-xs font-bold transition-colors ${browseMode === 'recent' ? 'bg-indigo-100 text-indigo-700' : 'bg-slate-100 text-slate-600 hover:bg-slate-200'}`}
+              title="Senast ändrade filer"
+            >
+              <i className="fas fa-clock"></i><span className="hidden md:inline ml-1">Senaste</span>
+            </button>
+          </div>
+          {showFilters && (
+            <div className="flex flex-wrap items-center gap-2 text-xs">
+              {KIND_FILTERS.map(({ kind, label, icon }) => {
+                const isActive = !!searchCriteria.kinds?.includes(kind);
+                return (
+                  <button key={kind} onClick={() => toggleKind(kind)} className={`px-2 py-1 rounded-full font-bold border transition-colors ${isActive ? 'bg-indigo-600 border-indigo-600 text-white' : 'bg-white border-slate-200 text-slate-500 hover:border-indigo-300'}`}>
+                    <i className={`fas ${icon} mr-1`}></i>{label}
+                  </button>
+                );
+              })}
+              <label className="flex items-center gap-1 text-slate-500 font-bold">
+                Från
+                <input type="date" value={searchCriteria.modifiedFrom || ''} onChange={(e) => updateSearch({ modifiedFrom: e.target.value || undefined })} className="px-1 py-0.5 border border-slate-200 rounded font-normal" />
+              </label>
+              <label className="flex items-center gap-1 text-slate-500 font-bold">
+                Till
+                <input type="date" value={searchCriteria.modifiedTo || ''} onChange={(e) => updateSearch({ modifiedTo: e.target.value || undefined })} className="px-1 py-0.5 border border-slate-200 rounded font-normal" />
+              </label>
+              <select
+                value={ownerFilter}
+                onChange={(e) => updateSearch({ owner: e.target.value === 'any' ? undefined : e.target.value === 'email' ? '' : e.target.value })}
+                className="px-2 py-1 border border-slate-200 rounded bg-white font-bold text-slate-600"
+              >
+                <option value="any">Alla ägare</option>
+                <option value="me">Mina filer</option>
+                <option value="others">Andras filer</option>
+                <option value="email">Viss person...</option>
+              </select>
+              {ownerFilter === 'email' && (
+                <input
+                  type="email"
+                  value={searchCriteria.owner || ''}
+                  onChange={(e) => updateSearch({ owner: e.target.value })}
+                  placeholder="namn@exempel.se"
+                  className="px-2 py-1 border border-slate-200 rounded w-44"
+                />
+              )}
+            </div>
+          )}
+        </div>
+      )}
+
       {/* Breadcrumbs & Select All */}
       {activeTab !== 'local' && hasAccess && (
         <div className="px-4 py-3 flex items-center justify-between bg-slate-50/50">
           <div className="flex items-center space-x-2 text-xs font-medium text-slate-500 overflow-x-auto whitespace-nowrap mask-linear-fade pr-4">
-             {breadcrumbs.map((crumb, idx) => (
+             {isSearching ? (
+                <span className="font-bold text-slate-600">
+                  {browseMode === 'recent' ? 'Senast ändrade filer' : loading ? 'Söker...' : `${files.length} träffar`}
+                </span>
+             ) : breadcrumbs.map((crumb, idx) => (
                 <span key={crumb.id} className="flex items-center cursor-pointer hover:text-indigo-600 shrink-0" onClick={() => {
                    if (crumb.id === 'root-drives') {
                       updateState({ currentDriveId: null, currentFolder: 'root', breadcrumbs: breadcrumbs.slice(0, idx + 1) });
@@ -291,7 +529,7 @@ const FileBrowser: React.FC<FileBrowserProps> = ({
                 </span>
              ))}
           </div>
-          {files.some(f => f.type !== FileType.FOLDER) && (
+          {!isPickingFolder && files.some(f => f.type !== FileType.FOLDER) && (
             <button onClick={handleSelectAll} className="text-xs font-bold text-indigo-600 hover:text-indigo-800 shrink-0 ml-2">
               {isAllSelected ? 'Avmarkera' : 'Markera alla'}
             </button>
@@ -350,7 +588,10 @@ const FileBrowser: React.FC<FileBrowserProps> = ({
         ) : (
           /* VIEW: DRIVE FILES GRID/LIST */
           <div className="grid grid-cols-1 sm:grid-cols-2 md:grid-cols-3 lg:grid-cols-4 xl:grid-cols-5 gap-3 md:gap-4 pb-20">
-            {files.map(file => {
+            {isSearching && listedFiles.length === 0 && (
+              <p className="col-span-full text-center text-sm text-slate-400 py-16">Inga filer hittades.</p>
+            )}
+            {listedFiles.map(file => {
               const isSelected = localSelection.some(s => s.id === file.id);
               return (
                 <div 
@@ -376,6 +617,11 @@ const FileBrowser: React.FC<FileBrowserProps> = ({
                              {file.type !== FileType.FOLDER && <div className="text-[10px] text-slate-400">{formatSize(file.size)}</div>}
                         </div>
                         {isSelected && <i className="fas fa-check-circle text-indigo-600 text-xl shrink-0"></i>}
+                        {file.type === FileType.FOLDER && !isPickingFolder && (
+                            <button onClick={(e) => handleStartFolderImport(e, file)} className="shrink-0 w-8 h-8 rounded-lg text-slate-400 hover:text-indigo-600 hover:bg-indigo-50" title="Lägg till hela mappen">
+                                <i className="fas fa-folder-tree"></i>
+                            </button>
+                        )}
                    </div>
 
                    {/* Desktop Layout: Vertical Card with separate image/text areas */}
@@ -390,6 +636,12 @@ const FileBrowser: React.FC<FileBrowserProps> = ({
                                 <i className={`fas ${file.type === FileType.PDF ? 'fa-file-pdf text-red-400' : 'fa-file text-slate-300'} text-4xl`}></i>
                             )}
                             
+                            {file.type === FileType.FOLDER && !isPickingFolder && (
+                                <button onClick={(e) => handleStartFolderImport(e, file)} className="absolute top-2 right-2 px-2 py-1 bg-white/90 rounded-lg shadow-sm text-[10px] font-bold text-slate-500 hover:text-indigo-600 opacity-0 group-hover:opacity-100 transition-opacity" title="Lägg till mappen med undermappar som kapitel">
+                                    <i className="fas fa-folder-tree mr-1"></i>Lägg till allt
+                                </button>
+                            )}
+
                             {/* Selection Checkmark Overlay */}
                             {isSelected && file.type !== FileType.FOLDER && (
                                 <div className="absolute top-2 right-2 w-6 h-6 bg-indigo-600 rounded-full flex items-center justify-center shadow-sm z-10">
@@ -417,6 +669,23 @@ const FileBrowser: React.FC<FileBrowserProps> = ({
         )}
       </div>
 
+      {isPickingFolder ? (
+      <div className="p-4 border-t border-slate-100 bg-white flex flex-col md:flex-row md:justify-between md:items-center gap-3 shrink-0">
+        <p className="text-[10px] text-slate-500 max-w-sm">Nya böcker skapas i den valda mappen. Böcker som redan finns flyttas inte.</p>
+        <div className="flex gap-2 justify-end">
+            <button onClick={() => onPickFolder!(null)} className="px-4 py-2 bg-slate-100 hover:bg-slate-200 text-slate-600 rounded-lg font-bold text-sm transition-colors" title="Min Enhet / Dela din historia">
+            Standardmappen
+            </button>
+            <button
+            onClick={handlePickCurrentFolder}
+            disabled={!canPickCurrentFolder}
+            className="px-6 py-2 bg-indigo-600 text-white rounded-lg font-bold text-sm hover:bg-indigo-700 disabled:opacity-50 transition-all shadow-lg shadow-indigo-200"
+            >
+            Spara böcker här
+            </button>
+        </div>
+      </div>
+      ) : (
       <div className="p-4 border-t border-slate-100 bg-white flex justify-between items-center shrink-0">
         <span className="text-xs font-bold text-slate-500">{localSelection.length} valda</span>
         <div className="flex gap-2">
@@ -433,10 +702,48 @@ const FileBrowser: React.FC<FileBrowserProps> = ({
             </button>
         </div>
       </div>
+      )}
+      
+      {importFolder && (
+        <FolderImportDialog
+          accessToken={accessToken}
+          folder={importFolder}
+          driveId={importFolder.driveId}
+          existingIds={[...selectedIds, ...localSelection.map(f => f.id)]}
+          onImport={handleImportFolder}
+          onClose={() => setImportFolder(null)}
+        />
+      )}
+      
+      {pastedText !== null && (
+        <div className="fixed inset-0 z-[80] bg-black/60 backdrop-blur-sm flex items-center justify-center p-0 md:p-4" onClick={() => setPastedText(null)}>
+          <div className="bg-white md:rounded-2xl shadow-2xl w-full max-w-lg h-full md:h-auto flex flex-col animate-in fade-in zoom-in" onClick={(e) => e.stopPropagation()}>
+            <div className="p-6 border-b border-slate-100 flex justify-between items-center">
+              <div>
+                <h3 className="text-lg font-bold text-slate-900">Klistra in text</h3>
+                <p className="text-xs text-slate-500">Blir egna sidor i boken. Börja en rad med # för en rubrik.</p>
+              </div>
+              <button onClick={() => setPastedText(null)} className="text-slate-400 hover:text-red-500"><i className="fas fa-times"></i></button>
+            </div>
+            <textarea
+              autoFocus
+              value={pastedText}
+              onChange={(e) => setPastedText(e.target.value)}
+              placeholder="Klistra in eller skriv din text här..."
+              className="flex-1 md:flex-none md:h-72 m-6 p-3 border border-slate-200 rounded-xl outline-none focus:border-indigo-500 focus:ring-2 focus:ring-indigo-100 font-serif text-sm leading-relaxed resize-none"
+            />
+            <div className="p-4 border-t border-slate-100 flex justify-end gap-2">
+              <button onClick={() => setPastedText(null)} className="px-4 py-2 bg-slate-100 hover:bg-slate-200 text-slate-600 rounded-lg font-bold text-sm transition-colors">Avbryt</button>
+              <button onClick={handlePasteText} disabled={!pastedText.trim()} className="px-4 py-2 bg-indigo-600 hover:bg-indigo-700 text-white rounded-lg font-bold text-sm transition-colors disabled:opacity-50">Lägg till</button>
+            </div>
+          </div>
+        </div>
+      )}
       
       <input 
         type="file" 
         multiple 
+        accept="image/*,.heic,.heif,.tif,.tiff,application/pdf,.pdf,.txt,.md,.docx"
         ref={fileInputRef} 
         onChange={handleFileSelect}
         className="hidden" 
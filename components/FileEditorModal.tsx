@@ -7,10 +7,12 @@ import {
     renderPdfPageToCanvas, 
     extractHighQualityImage, 
     generatePageThumbnail,
-    DEFAULT_TEXT_CONFIG,
-    DEFAULT_FOOTER_CONFIG
+    TextOverflow
 } from '../services/pdfService';
+import { DEFAULT_TEXT_CONFIG, DEFAULT_FOOTER_CONFIG } from '../services/textDefaults';
 import { uploadToDrive } from '../services/driveService';
+import { describeDriveError } from '../services/driveClient';
+import { legacyTextToPageMeta } from '../services/projectSchema';
 import EditorToolsPanel from './EditorToolsPanel';
 
 // --- SUB-COMPONENT: Sidebar Thumbnail ---
@@ -70,9 +72,24 @@ interface FileEditorModalProps {
     onNavigateFile: (newItem: DriveFile) => void; // Switches current item in parent
     settings: AppSettings;
     driveFolderId?: string;
+    driveId?: string;
     onExportSuccess?: (filename: string, type: 'png' | 'pdf') => void;
+    initialPageIndex?: number; // Page to show first, e.g. from a search result
 }
 
+// Names what doesn't fit on the page being edited first, then other pages of the file
+const describeOverflow = (overflows: TextOverflow[], activePageIndex: number): string => {
+    const onPage = overflows.filter(o => o.pageIndex === activePageIndex);
+    const otherPages = Array.from(new Set(overflows.filter(o => o.pageIndex !== activePageIndex).map(o => o.pageIndex + 1)));
+    const parts: string[] = onPage.map(o => o.region === 'header' ? 'Texten på bilden får inte plats.' : 'Bildtexten får inte plats i rutan.');
+    if (otherPages.length > 0) parts.push(`Text får inte plats på sida ${otherPages.join(', ')}.`);
+    return parts.join(' ');
+};
+
+// The characters are shown as they are, so the user can find them in the text
+const describeMissingCharacters = (characters: string[]): string =>
+    `${characters.length === 1 ? 'Tecknet' : 'Tecknen'} ${characters.join(' ')} finns inte i något typsnitt och skrivs ut som ?.`;
+
 const FileEditorModal: React.FC<FileEditorModalProps> = ({ 
     item, 
     allItems,
@@ -82,7 +99,9 @@ const FileEditorModal: React.FC<FileEditorModalProps> = ({
     onNavigateFile,
     settings, 
     driveFolderId, 
-    onExportSuccess 
+    driveId,
+    onExportSuccess,
+    initialPageIndex = 0
 }) => {
     const [previewBlob, setPreviewBlob] = useState<Blob | null>(null);
     const [pageMeta, setPageMeta] = useState<Record<number, PageMetadata>>(item.pageMeta || {});
@@ -91,6 +110,8 @@ const FileEditorModal: React.FC<FileEditorModalProps> = ({
     const [activeSection, setActiveSection] = useState<'header' | 'footer'>('header');
     const [focusedLineId, setFocusedLineId] = useState<string | null>(null);
     const [errorMsg, setErrorMsg] = useState<string | null>(null);
+    const [textOverflows, setTextOverflows] = useState<TextOverflow[]>([]);
+    const [missingCharacters, setMissingCharacters] = useState<string[]>([]);
     const [pdfDocProxy, setPdfDocProxy] = useState<any>(null);
     const [isSidebarOpen, setIsSidebarOpen] = useState(true);
     const mainCanvasRef = useRef<HTMLCanvasElement>(null);
@@ -111,33 +132,33 @@ const FileEditorModal: React.FC<FileEditorModalProps> = ({
              setIsLoadingPreview(true); 
              setErrorMsg(null);
              setPageMeta(item.pageMeta || {});
-             setActivePageIndex(0);
+             setActivePageIndex(initialPageIndex);
 
              try {
                 const { buffer } = await processFileForCache(item, accessToken, settings.compressionLevel || 'medium');
-                const isPdfType = item.type === FileType.PDF || item.type === FileType.GOOGLE_DOC;
+                const isPdfType = item.type === FileType.PDF || item.type === FileType.GOOGLE_DOC || item.type === FileType.TEXT;
                 const type = isPdfType ? 'application/pdf' : 'image/jpeg';
                 
                 // Create initial preview (with existing meta)
                 const sourceBlob = new Blob([buffer as any], { type });
-                const previewUrl = await createPreviewWithOverlay(sourceBlob, item.type, item.pageMeta || {});
+                const preview = await createPreviewWithOverlay(sourceBlob, item.type, item.pageMeta || {});
+                setTextOverflows(preview.overflows);
+                setMissingCharacters(preview.missingCharacters);
                 
-                const res = await fetch(previewUrl);
+                const res = await fetch(preview.url);
                 const pBlob = await res.blob();
                 setPreviewBlob(pBlob);
                 
                 const pdf = await getPdfDocument(pBlob);
                 setPdfDocProxy(pdf);
                 setTotalPages(pdf.numPages);
+                setActivePageIndex(prev => Math.min(prev, pdf.numPages - 1));
                 
-                // If it's a new item without meta but has legacy text, init meta
-                if ((!item.pageMeta || Object.keys(item.pageMeta).length === 0) && (item.headerText || item.description)) {
-                     const initMeta: PageMetadata = { 
-                         headerLines: item.headerText ? [{ id: 'l1', text: item.headerText, config: item.textConfig || DEFAULT_TEXT_CONFIG }] : [], 
-                         footerLines: item.description ? [{ id: 'f1', text: item.description, config: DEFAULT_FOOTER_CONFIG }] : [], 
-                     };
-                    setPageMeta({ 0: initMeta });
-                }
+                // Saved books are migrated on load (see projectSchema); this covers items not yet saved.
+                // A text item's description is its body, already on the page.
+                const hasLegacyText = item.type !== FileType.TEXT && (!item.pageMeta || Object.keys(item.pageMeta).length === 0);
+                const legacyMeta = hasLegacyText ? legacyTextToPageMeta(item) : null;
+                if (legacyMeta) setPageMeta({ 0: legacyMeta });
              } catch (e: any) { 
                  console.error("Init failed", e); 
                  setErrorMsg(e.message || "Kunde inte ladda filen."); 
@@ -162,12 +183,14 @@ const FileEditorModal: React.FC<FileEditorModalProps> = ({
 
                 // Re-generate visual preview
                 const { buffer } = await processFileForCache(item, accessToken, settings.compressionLevel || 'medium');
-                const isPdfType = item.type === FileType.PDF || item.type === FileType.GOOGLE_DOC;
+                const isPdfType = item.type === FileType.PDF || item.type === FileType.GOOGLE_DOC || item.type === FileType.TEXT;
                 const type = isPdfType ? 'application/pdf' : 'image/jpeg';
                 const sourceBlob = new Blob([buffer as any], { type });
-                const url = await createPreviewWithOverlay(sourceBlob, item.type, pageMeta);
+                const preview = await createPreviewWithOverlay(sourceBlob, item.type, pageMeta);
+                setTextOverflows(preview.overflows);
+                setMissingCharacters(preview.missingCharacters);
                 
-                const res = await fetch(url);
+                const res = await fetch(preview.url);
                 const pBlob = await res.blob();
                 setPreviewBlob(pBlob);
                 const pdf = await getPdfDocument(pBlob);
@@ -215,11 +238,11 @@ const FileEditorModal: React.FC<FileEditorModalProps> = ({
         setIsSavingImage(true);
         try { 
             const pngBlob = await extractHighQualityImage(previewBlob, activePageIndex); 
-            await uploadToDrive(accessToken, driveFolderId, filename, pngBlob, 'image/png');
+            await uploadToDrive(accessToken, driveFolderId, filename, pngBlob, 'image/png', { driveId });
             if (onExportSuccess) onExportSuccess(filename, 'png');
             alert(`Bilden "${filename}" har sparats i bokens mapp på Google Drive.`);
         } catch (e) { 
-            alert("Kunde inte spara bilden till Drive."); 
+            alert(`Kunde inte spara bilden till Drive. ${describeDriveError(e, '')}`); 
         } finally {
             setIsSavingImage(false);
         }
@@ -368,6 +391,20 @@ const FileEditorModal: React.FC<FileEditorModalProps> = ({
                          </div>
                      )}
                      
+                     {(textOverflows.length > 0 || missingCharacters.length > 0) && !isLoadingPreview && !errorMsg && (
+                         <div className="absolute top-3 left-1/2 -translate-x-1/2 z-10 max-w-md w-[calc(100%-2rem)] bg-amber-50 border border-amber-300 text-amber-900 rounded-xl px-4 py-3 shadow-lg text-xs">
+                             {textOverflows.length > 0 && (
+                                 <>
+                                     <p className="font-bold"><i className="fas fa-exclamation-triangle mr-2 text-amber-500"></i>{describeOverflow(textOverflows, activePageIndex)}</p>
+                                     <p className="mt-1 text-amber-800">Korta texten, minska textstorleken eller slå på "Krymp för att passa" under inställningarna.</p>
+                                 </>
+                             )}
+                             {missingCharacters.length > 0 && (
+                                 <p className={`font-bold ${textOverflows.length > 0 ? 'mt-2' : ''}`}><i className="fas fa-exclamation-triangle mr-2 text-amber-500"></i>{describeMissingCharacters(missingCharacters)}</p>
+                             )}
+                         </div>
+                     )}
+
                      <div className="shadow-2xl bg-white relative transition-transform duration-200">
                          <canvas ref={mainCanvasRef} className="block max-w-full max-h-[75vh] md:max-h-[85vh] h-auto w-auto" />
                      </div>
@@ -383,6 +420,7 @@ const FileEditorModal: React.FC<FileEditorModalProps> = ({
                     updateCurrentMeta={updateCurrentMeta}
                     focusedLineId={focusedLineId}
                     setFocusedLineId={setFocusedLineId}
+                    captureInfo={item.captureInfo}
                 />
             </div>
         </div>
@@ -0,0 +1,126 @@
+
+import React, { useState, useEffect, useMemo } from 'react';
+import { DriveFile } from '../types';
+import { describeDriveError } from '../services/driveClient';
+import { scanFolderTree, summarizeFolderTree, folderTreeToItems, FolderTree, FolderSortOrder } from '../services/folderImport';
+
+interface FolderImportDialogProps {
+    accessToken: string;
+    folder: { id: string, name: string };
+    driveId?: string;
+    existingIds: string[]; // Already in the book or selected; not added again
+    onImport: (items: DriveFile[]) => void;
+    onClose: () => void;
+}
+
+const DEPTH_OPTIONS: { depth: number, label: string }[] = [
+    { depth: 0, label: 'Bara mappen' },
+    { depth: 1, label: '1 nivå undermappar' },
+    { depth: 2, label: '2 nivåer' },
+    { depth: 3, label: '3 nivåer' },
+    { depth: Infinity, label: 'Alla nivåer' }
+];
+
+const formatMB = (bytes: number) => `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+
+const FolderImportDialog: React.FC<FolderImportDialogProps> = ({ accessToken, folder, driveId, existingIds, onImport, onClose }) => {
+    const [maxDepth, setMaxDepth] = useState(Infinity);
+    const [sortBy, setSortBy] = useState<FolderSortOrder>('name');
+    const [tree, setTree] = useState<FolderTree | null>(null);
+    const [foldersScanned, setFoldersScanned] = useState(0);
+    const [error, setError] = useState<string | null>(null);
+
+    useEffect(() => {
+        let isCancelled = false;
+        setTree(null);
+        setError(null);
+        setFoldersScanned(0);
+        scanFolderTree(accessToken, folder, driveId, { maxDepth, sortBy }, (n) => { if (!isCancelled) setFoldersScanned(n); }, () => isCancelled)
+            .then(result => { if (!isCancelled) setTree(result); })
+            .catch(e => { if (!isCancelled) setError(describeDriveError(e, 'Kunde inte läsa mappen.')); });
+        return () => { isCancelled = true; };
+    }, [folder.id, maxDepth, sortBy]);
+
+    const summary = useMemo(() => tree ? summarizeFolderTree(tree, existingIds) : null, [tree, existingIds]);
+
+    const renderOutline = (node: FolderTree, level: number): React.ReactNode => (
+        <li key={node.id}>
+            <div className="flex items-center text-xs py-0.5" style={{ paddingLeft: `${level * 16}px` }}>
+                <i className={`fas fa-folder mr-2 ${node.files.length > 0 ? 'text-amber-400' : 'text-slate-300'}`}></i>
+                <span className="font-bold text-slate-700 truncate">{node.name}</span>
+                <span className="ml-2 text-slate-400 shrink-0">{node.files.length} filer</span>
+            </div>
+            {node.subfolders.length > 0 && <ul>{node.subfolders.map(sub => renderOutline(sub, level + 1))}</ul>}
+        </li>
+    );
+
+    return (
+        <div className="fixed inset-0 z-[80] bg-black/60 backdrop-blur-sm flex items-center justify-center p-0 md:p-4" onClick={onClose}>
+            <div className="bg-white md:rounded-2xl shadow-2xl w-full max-w-lg h-full md:h-auto md:max-h-[85vh] overflow-hidden flex flex-col animate-in fade-in zoom-in" onClick={(e) => e.stopPropagation()}>
+                <div className="p-6 border-b border-slate-100 flex justify-between items-center shrink-0">
+                    <div className="min-w-0">
+                        <h3 className="text-lg font-bold text-slate-900">Lägg till hela mappen</h3>
+                        <p className="text-xs text-slate-500 truncate">Varje mapp blir ett kapitel i boken, följt av sina filer.</p>
+                    </div>
+                    <button onClick={onClose} className="text-slate-400 hover:text-red-500"><i className="fas fa-times"></i></button>
+                </div>
+
+                <div className="p-6 border-b border-slate-100 grid grid-cols-2 gap-3 shrink-0">
+                    <label className="text-xs font-bold text-slate-600">
+                        Undermappar
+                        <select value={String(maxDepth)} onChange={(e) => setMaxDepth(Number(e.target.value))} className="mt-1 w-full px-2 py-2 border border-slate-200 rounded-lg bg-white font-normal">
+                            {DEPTH_OPTIONS.map(o => <option key={o.label} value={String(o.depth)}>{o.label}</option>)}
+                        </select>
+                    </label>
+                    <label className="text-xs font-bold text-slate-600">
+                        Ordning
+                        <select value={sortBy} onChange={(e) => setSortBy(e.target.value as FolderSortOrder)} className="mt-1 w-full px-2 py-2 border border-slate-200 rounded-lg bg-white font-normal">
+                            <option value="name">Efter namn</option>
+                            <option value="modifiedTime">Äldst först</option>
+                            <option value="takenAt">Efter fotodatum</option>
+                        </select>
+                    </label>
+                </div>
+
+                <div className="flex-1 overflow-y-auto p-6">
+                    {error ? (
+                        <p className="text-xs font-bold text-red-500">{error}</p>
+                    ) : !tree || !summary ? (
+                        <div className="flex flex-col items-center text-slate-400 py-6">
+                            <i className="fas fa-circle-notch fa-spin text-xl mb-2"></i>
+                            <p className="text-xs font-bold">Läser mappar... ({foldersScanned})</p>
+                        </div>
+                    ) : (
+                        <>
+                            <div className="grid grid-cols-3 gap-2 mb-4 text-center">
+                                <div className="p-3 bg-slate-50 rounded-xl"><p className="text-lg font-bold text-slate-800">{summary.fileCount}</p><p className="text-[10px] text-slate-500">filer</p></div>
+                                <div className="p-3 bg-slate-50 rounded-xl"><p className="text-lg font-bold text-slate-800">{summary.chapterCount}</p><p className="text-[10px] text-slate-500">kapitel</p></div>
+                                <div className="p-3 bg-slate-50 rounded-xl"><p className="text-lg font-bold text-slate-800">{formatMB(summary.totalSize)}</p><p className="text-[10px] text-slate-500">totalt</p></div>
+                            </div>
+                            {summary.skippedFolders > 0 && (
+                                <p className="text-[10px] font-bold text-amber-600 mb-3"><i className="fas fa-info-circle mr-1"></i>{summary.skippedFolders} undermappar tas inte med, de ligger djupare än valt eller är för många.</p>
+                            )}
+                            {summary.alreadyAdded > 0 && (
+                                <p className="text-[10px] font-bold text-amber-600 mb-3"><i className="fas fa-info-circle mr-1"></i>{summary.alreadyAdded} {summary.alreadyAdded === 1 ? 'fil finns' : 'filer finns'} redan i boken och hoppas över.</p>
+                            )}
+                            <ul>{renderOutline(tree, 0)}</ul>
+                        </>
+                    )}
+                </div>
+
+                <div className="p-4 border-t border-slate-100 flex justify-end gap-2 shrink-0">
+                    <button onClick={onClose} className="px-4 py-2 bg-slate-100 hover:bg-slate-200 text-slate-600 rounded-lg font-bold text-sm transition-colors">Avbryt</button>
+                    <button
+                        onClick={() => tree && onImport(folderTreeToItems(tree, existingIds))}
+                        disabled={!summary || summary.fileCount === 0}
+                        className="px-4 py-2 bg-indigo-600 hover:bg-indigo-700 text-white rounded-lg font-bold text-sm transition-colors disabled:opacity-50"
+                    >
+                        Lägg till {summary ? `${summary.fileCount} filer` : ''}
+                    </button>
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export default FolderImportDialog;
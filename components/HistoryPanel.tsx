@@ -0,0 +1,195 @@
+import React, { useState, useEffect } from 'react';
+import { DriveFile, FileType, MemoryBook, BookRevision } from '../types';
+import { BookStorageProvider } from '../services/bookStorage';
+import { describeDriveError } from '../services/driveClient';
+
+interface HistoryPanelProps {
+    book: MemoryBook;
+    currentItems: DriveFile[];
+    storage: BookStorageProvider;
+    onRestore: (revisionBook: MemoryBook) => void;
+    onRestoreAsCopy: (revisionBook: MemoryBook) => Promise<void>;
+    onClose: () => void;
+}
+
+// Autosave creates a revision every few seconds; older ones are rarely what you're looking for
+const MAX_REVISIONS = 50;
+
+const formatRevisionTime = (iso: string) => {
+    const date = new Date(iso);
+    return `${date.toLocaleDateString()} ${date.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}`;
+};
+
+const itemLabel = (item: DriveFile) => item.type === FileType.HEADER ? (item.headerText || 'Kapitel') : item.name;
+
+const HistoryPanel: React.FC<HistoryPanelProps> = ({ book, currentItems, storage, onRestore, onRestoreAsCopy, onClose }) => {
+    const [revisions, setRevisions] = useState<BookRevision[]>([]);
+    const [loadedBooks, setLoadedBooks] = useState<Record<string, MemoryBook | null>>({});
+    const [selectedId, setSelectedId] = useState<string | null>(null);
+    const [isLoading, setIsLoading] = useState(true);
+    const [isCopying, setIsCopying] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+
+    useEffect(() => {
+        let isCancelled = false;
+        const load = async () => {
+            try {
+                const all = await storage.listRevisions!(book);
+                if (isCancelled) return;
+                const newestFirst = all.slice(-MAX_REVISIONS).reverse();
+                setRevisions(newestFirst);
+                setSelectedId(newestFirst[0]?.id || null);
+                setIsLoading(false);
+
+                // Fetch contents one by one so item counts fill in progressively
+                for (const revision of newestFirst) {
+                    if (isCancelled) return;
+                    const revisionBook = await storage.loadRevision!(book, revision.id).catch(() => null);
+                    if (isCancelled) return;
+                    setLoadedBooks(prev => ({ ...prev, [revision.id]: revisionBook }));
+                }
+            } catch (e) {
+                if (isCancelled) return;
+                setError(describeDriveError(e, 'Kunde inte hämta historiken.'));
+                setIsLoading(false);
+            }
+        };
+        load();
+        return () => { isCancelled = true; };
+    }, [book.id]);
+
+    // Items added/removed compared with the revision saved before it
+    const diffWithPrevious = (index: number): { added: number, removed: number } | null => {
+        const revisionBook = loadedBooks[revisions[index].id];
+        const previousRevision = revisions[index + 1];
+        const previousBook = previousRevision ? loadedBooks[previousRevision.id] : undefined;
+        if (!revisionBook || !previousBook) return null;
+        const ids = new Set(revisionBook.items.map(i => i.id));
+        const previousIds = new Set(previousBook.items.map(i => i.id));
+        return {
+            added: revisionBook.items.filter(i => !previousIds.has(i.id)).length,
+            removed: previousBook.items.filter(i => !ids.has(i.id)).length
+        };
+    };
+
+    const selectedBook = selectedId ? loadedBooks[selectedId] : undefined;
+    const currentIds = new Set(currentItems.map(i => i.id));
+    const missingNow = selectedBook ? selectedBook.items.filter(i => !currentIds.has(i.id)).length : 0;
+
+    const handleRestore = () => {
+        if (!selectedBook) return;
+        if (!confirm('Vill du ersätta bokens nuvarande innehåll med den här versionen?')) return;
+        onRestore(selectedBook);
+    };
+
+    const handleRestoreAsCopy = async () => {
+        if (!selectedBook) return;
+        setIsCopying(true);
+        try {
+            await onRestoreAsCopy(selectedBook);
+        } finally {
+            setIsCopying(false);
+        }
+    };
+
+    return (
+        <div className="fixed inset-0 z-[80] bg-black/60 backdrop-blur-sm flex items-center justify-center p-0 md:p-4">
+            <div className="bg-white md:rounded-2xl shadow-2xl w-full max-w-4xl h-full md:h-[80vh] overflow-hidden flex flex-col animate-in fade-in zoom-in">
+                <div className="p-6 border-b border-slate-100 flex justify-between items-center shrink-0">
+                    <div>
+                        <h3 className="text-lg font-bold text-slate-900">Historik</h3>
+                        <p className="text-xs text-slate-500">Tidigare sparade versioner av "{book.title}". Google Drive sparar dem i ungefär 30 dagar.</p>
+                    </div>
+                    <button onClick={onClose} className="text-slate-400 hover:text-red-500"><i className="fas fa-times"></i></button>
+                </div>
+
+                {isLoading ? (
+                    <div className="flex-1 flex items-center justify-center text-slate-400"><i className="fas fa-circle-notch fa-spin text-2xl"></i></div>
+                ) : error ? (
+                    <div className="flex-1 flex items-center justify-center text-sm font-bold text-red-500 p-6 text-center">{error}</div>
+                ) : revisions.length === 0 ? (
+                    <div className="flex-1 flex items-center justify-center text-sm text-slate-400 p-6 text-center">Boken har inga sparade versioner ännu.</div>
+                ) : (
+                    <div className="flex-1 flex flex-col md:flex-row min-h-0">
+                        {/* Revision list */}
+                        <div className="md:w-72 shrink-0 border-b md:border-b-0 md:border-r border-slate-100 overflow-y-auto max-h-60 md:max-h-none">
+                            {revisions.map((revision, index) => {
+                                const revisionBook = loadedBooks[revision.id];
+                                const diff = diffWithPrevious(index);
+                                return (
+                                    <button
+                                        key={revision.id}
+                                        onClick={() => setSelectedId(revision.id)}
+                                        className={`w-full text-left px-4 py-3 border-b border-slate-50 transition-colors ${selectedId === revision.id ? 'bg-indigo-50' : 'hover:bg-slate-50'}`}
+                                    >
+                                        <div className="flex justify-between items-center">
+                                            <span className="text-xs font-bold text-slate-800">{formatRevisionTime(revision.modifiedTime)}</span>
+                                            {index === 0 && <span className="text-[9px] font-black text-emerald-600 uppercase tracking-wider">Senaste</span>}
+                                        </div>
+                                        <div className="flex items-center space-x-2 mt-1 text-[10px] text-slate-500">
+                                            {revisionBook === undefined ? (
+                                                <i className="fas fa-circle-notch fa-spin text-slate-300"></i>
+                                            ) : revisionBook === null ? (
+                                                <span className="italic">Kunde inte läsas</span>
+                                            ) : (
+                                                <span>{revisionBook.items.length} objekt</span>
+                                            )}
+                                            {diff && diff.added > 0 && <span className="font-bold text-emerald-600">+{diff.added}</span>}
+                                            {diff && diff.removed > 0 && <span className="font-bold text-red-500">−{diff.removed}</span>}
+                                            {revision.modifiedBy && <span className="truncate">· {revision.modifiedBy}</span>}
+                                        </div>
+                                    </button>
+                                );
+                            })}
+                        </div>
+
+                        {/* Preview */}
+                        <div className="flex-1 flex flex-col min-h-0">
+                            <div className="flex-1 overflow-y-auto p-6">
+                                {selectedBook === undefined ? (
+                                    <div className="h-full flex items-center justify-center text-slate-400"><i className="fas fa-circle-notch fa-spin text-2xl"></i></div>
+                                ) : selectedBook === null ? (
+                                    <p className="text-sm text-slate-400 text-center">Den här versionen kunde inte läsas.</p>
+                                ) : (
+                                    <>
+                                        {missingNow > 0 && (
+                                            <p className="text-xs font-bold text-amber-700 bg-amber-50 border border-amber-100 rounded-lg px-3 py-2 mb-4">
+                                                {missingNow} {missingNow === 1 ? 'minne' : 'minnen'} i den här versionen finns inte i boken nu.
+                                            </p>
+                                        )}
+                                        <div className="grid grid-cols-3 sm:grid-cols-4 gap-3">
+                                            {selectedBook.items.map(item => (
+                                                <div key={item.id} className={`rounded-lg border overflow-hidden ${currentIds.has(item.id) ? 'border-slate-200' : 'border-amber-400 ring-2 ring-amber-100'}`}>
+                                                    <div className={`aspect-[3/4] flex items-center justify-center ${item.type === FileType.HEADER ? 'bg-slate-800' : 'bg-slate-100'}`}>
+                                                        {item.type === FileType.HEADER ? (
+                                                            <span className="text-white font-serif font-bold text-xs text-center px-2 line-clamp-3">{item.headerText}</span>
+                                                        ) : item.thumbnail ? (
+                                                            <img src={item.thumbnail} className="w-full h-full object-cover" alt={item.name} />
+                                                        ) : (
+                                                            <i className={`fas ${item.type === FileType.PDF ? 'fa-file-pdf' : 'fa-image'} text-slate-300 text-2xl`}></i>
+                                                        )}
+                                                    </div>
+                                                    <p className="text-[10px] font-bold text-slate-700 truncate px-2 py-1">{itemLabel(item)}</p>
+                                                </div>
+                                            ))}
+                                        </div>
+                                    </>
+                                )}
+                            </div>
+                            <div className="p-4 border-t border-slate-100 flex justify-end space-x-3 shrink-0">
+                                <button onClick={handleRestoreAsCopy} disabled={!selectedBook || isCopying} className="px-4 py-2 bg-slate-100 hover:bg-slate-200 text-slate-600 text-sm font-bold rounded-xl transition-colors disabled:opacity-50">
+                                    {isCopying ? <i className="fas fa-circle-notch fa-spin mr-2"></i> : <i className="fas fa-copy mr-2"></i>}Återställ som kopia
+                                </button>
+                                <button onClick={handleRestore} disabled={!selectedBook} className="px-4 py-2 bg-indigo-600 hover:bg-indigo-700 text-white text-sm font-bold rounded-xl transition-colors disabled:opacity-50 shadow-lg shadow-indigo-200">
+                                    <i className="fas fa-undo mr-2"></i>Återställ
+                                </button>
+                            </div>
+                        </div>
+                    </div>
+                )}
+            </div>
+        </div>
+    );
+};
+
+export default HistoryPanel;
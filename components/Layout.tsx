@@ -1,11 +1,15 @@
 
 import React, { useState } from 'react';
 import AppLogo from './AppLogo';
+import { GoogleAccount } from '../services/accounts';
 
 interface LayoutProps {
   children: React.ReactNode;
   user?: any; // User is now optional
   onLogout: () => void;
+  accounts?: GoogleAccount[]; // All signed-in accounts, including the active user
+  onSwitchAccount?: (email: string) => void;
+  onAddAccount?: () => void;
   // Actions for the top bar
   onAddSource?: () => void;
   onCreateBook?: () => void;
@@ -24,6 +28,9 @@ const Layout: React.FC<LayoutProps> = ({
   children, 
   user, 
   onLogout, 
+  accounts = [],
+  onSwitchAccount,
+  onAddAccount,
   onAddSource, 
   onCreateBook, 
   onShare,
@@ -120,6 +127,33 @@ const Layout: React.FC<LayoutProps> = ({
                     <p className="text-sm font-bold text-slate-900 truncate">{user.name}</p>
                     <p className="text-xs text-slate-500 truncate">{user.email}</p>
                   </div>
+                  {accounts.filter(a => a.email !== user.email).map(account => (
+                    <button 
+                      key={account.email}
+                      onClick={() => { setShowProfileMenu(false); onSwitchAccount?.(account.email); }}
+                      className="w-full text-left px-4 py-2 hover:bg-slate-50 transition-colors flex items-center space-x-3"
+                      title={`Byt till ${account.email}`}
+                    >
+                      {account.picture ? (
+                          <img src={account.picture} alt="" className="w-6 h-6 rounded-full object-cover shrink-0" />
+                      ) : (
+                          <span className="w-6 h-6 rounded-full bg-slate-100 text-slate-600 text-xs font-bold flex items-center justify-center shrink-0">{account.name?.charAt(0) || 'U'}</span>
+                      )}
+                      <span className="min-w-0">
+                        <span className="block text-xs font-bold text-slate-700 truncate">{account.name || account.email}</span>
+                        <span className="block text-[10px] text-slate-400 truncate">{account.accessToken ? account.email : 'Utloggad – klicka för att ansluta'}</span>
+                      </span>
+                    </button>
+                  ))}
+                  {onAddAccount && (
+                    <button 
+                      onClick={() => { setShowProfileMenu(false); onAddAccount(); }}
+                      className="w-full text-left px-4 py-3 text-sm font-bold text-slate-600 hover:bg-slate-50 transition-colors flex items-center space-x-3 border-b border-slate-50 mb-2"
+                    >
+                      <i className="fas fa-user-plus"></i>
+                      <span>Lägg till konto</span>
+                    </button>
+                  )}
                   <button 
                     onClick={() => { setShowProfileMenu(false); onOpenSettings(); }}
                     className="w-full text-left px-4 py-3 text-sm font-bold text-slate-600 hover:bg-slate-50 transition-colors flex items-center space-x-3"
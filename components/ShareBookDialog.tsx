@@ -0,0 +1,193 @@
+
+import React, { useState, useEffect } from 'react';
+import { MemoryBook, BookCollaborator } from '../types';
+import { BookStorageProvider } from '../services/bookStorage';
+import { describeDriveError } from '../services/driveClient';
+
+interface ShareBookDialogProps {
+    book: MemoryBook;
+    storage: BookStorageProvider;
+    onClose: () => void;
+}
+
+type InviteRole = 'reader' | 'writer';
+
+const ROLE_LABELS: Record<string, string> = {
+    owner: 'Ägare',
+    writer: 'Kan redigera',
+    commenter: 'Kan kommentera',
+    reader: 'Kan läsa'
+};
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+const ShareBookDialog: React.FC<ShareBookDialogProps> = ({ book, storage, onClose }) => {
+    const [collaborators, setCollaborators] = useState<BookCollaborator[]>([]);
+    const [isLoading, setIsLoading] = useState(true);
+    const [email, setEmail] = useState('');
+    const [role, setRole] = useState<InviteRole>('writer');
+    const [message, setMessage] = useState('');
+    const [busyId, setBusyId] = useState<string | null>(null); // permissionId, or 'invite'
+    const [error, setError] = useState<string | null>(null);
+    const [notice, setNotice] = useState<string | null>(null);
+
+    const loadCollaborators = async () => {
+        try {
+            setCollaborators(await storage.listCollaborators!(book));
+            setError(null);
+        } catch (e) {
+            setError(describeDriveError(e, 'Kunde inte hämta vilka som har tillgång.'));
+        } finally {
+            setIsLoading(false);
+        }
+    };
+
+    useEffect(() => { loadCollaborators(); }, [book.id]);
+
+    const handleInvite = async (e: React.FormEvent) => {
+        e.preventDefault();
+        const address = email.trim();
+        if (!EMAIL_PATTERN.test(address)) {
+            setError('Skriv en giltig e-postadress.');
+            return;
+        }
+        if (collaborators.some(c => c.email?.toLowerCase() === address.toLowerCase())) {
+            setError(`${address} har redan tillgång till boken.`);
+            return;
+        }
+        setBusyId('invite');
+        setError(null);
+        try {
+            await storage.inviteCollaborator!(book, address, role, message.trim() || undefined);
+            setNotice(`En inbjudan har skickats till ${address}.`);
+            setEmail('');
+            setMessage('');
+            await loadCollaborators();
+        } catch (err) {
+            setError(describeDriveError(err, `Kunde inte bjuda in ${address}.`));
+        } finally {
+            setBusyId(null);
+        }
+    };
+
+    const handleChangeRole = async (collaborator: BookCollaborator, newRole: InviteRole) => {
+        setBusyId(collaborator.permissionId);
+        setError(null);
+        try {
+            await storage.updateCollaborator!(book, collaborator.permissionId, newRole);
+            setCollaborators(prev => prev.map(c => c.permissionId === collaborator.permissionId ? { ...c, role: newRole } : c));
+        } catch (err) {
+            setError(describeDriveError(err, 'Kunde inte ändra behörigheten.'));
+        } finally {
+            setBusyId(null);
+        }
+    };
+
+    const handleRevoke = async (collaborator: BookCollaborator) => {
+        const name = collaborator.displayName || collaborator.email || 'personen';
+        if (!confirm(`Vill du ta bort ${name}s tillgång till boken?`)) return;
+        setBusyId(collaborator.permissionId);
+        setError(null);
+        try {
+            await storage.removeCollaborator!(book, collaborator.permissionId);
+            setCollaborators(prev => prev.filter(c => c.permissionId !== collaborator.permissionId));
+        } catch (err) {
+            setError(describeDriveError(err, 'Kunde inte ta bort behörigheten.'));
+        } finally {
+            setBusyId(null);
+        }
+    };
+
+    return (
+        <div className="fixed inset-0 z-[80] bg-black/60 backdrop-blur-sm flex items-center justify-center p-0 md:p-4" onClick={onClose}>
+            <div className="bg-white md:rounded-2xl shadow-2xl w-full max-w-lg h-full md:h-auto md:max-h-[85vh] overflow-hidden flex flex-col animate-in fade-in zoom-in" onClick={(e) => e.stopPropagation()}>
+                <div className="p-6 border-b border-slate-100 flex justify-between items-center shrink-0">
+                    <div>
+                        <h3 className="text-lg font-bold text-slate-900">Bjud in</h3>
+                        <p className="text-xs text-slate-500">Låt syskon, kusiner och andra släktingar se eller arbeta i "{book.title}".</p>
+                    </div>
+                    <button onClick={onClose} className="text-slate-400 hover:text-red-500"><i className="fas fa-times"></i></button>
+                </div>
+
+                <form onSubmit={handleInvite} className="p-6 border-b border-slate-100 space-y-3 shrink-0">
+                    <div className="flex space-x-2">
+                        <input
+                            type="email"
+                            value={email}
+                            onChange={(e) => { setEmail(e.target.value); setNotice(null); }}
+                            placeholder="namn@exempel.se"
+                            className="flex-1 min-w-0 px-3 py-2 border border-slate-200 rounded-xl text-sm focus:outline-none focus:ring-2 focus:ring-indigo-200"
+                            autoFocus
+                        />
+                        <select value={role} onChange={(e) => setRole(e.target.value as InviteRole)} className="px-2 py-2 border border-slate-200 rounded-xl text-sm bg-white">
+                            <option value="writer">{ROLE_LABELS.writer}</option>
+                            <option value="reader">{ROLE_LABELS.reader}</option>
+                        </select>
+                    </div>
+                    <textarea
+                        value={message}
+                        onChange={(e) => setMessage(e.target.value)}
+                        placeholder="Hälsning i inbjudan (valfritt)"
+                        rows={2}
+                        className="w-full px-3 py-2 border border-slate-200 rounded-xl text-sm resize-none focus:outline-none focus:ring-2 focus:ring-indigo-200"
+                    />
+                    <div className="flex items-center justify-between">
+                        <p className="text-[10px] text-slate-400">Google Drive skickar inbjudan via e-post.</p>
+                        <button type="submit" disabled={!email.trim() || busyId === 'invite'} className="px-4 py-2 bg-indigo-600 hover:bg-indigo-700 text-white text-sm font-bold rounded-xl transition-colors disabled:opacity-50 shadow-lg shadow-indigo-200">
+                            {busyId === 'invite' ? <i className="fas fa-circle-notch fa-spin mr-2"></i> : <i className="fas fa-paper-plane mr-2"></i>}Skicka
+                        </button>
+                    </div>
+                    {notice && <p className="text-xs font-bold text-emerald-600">{notice}</p>}
+                    {error && <p className="text-xs font-bold text-red-500">{error}</p>}
+                </form>
+
+                <div className="flex-1 overflow-y-auto p-6">
+                    <h4 className="text-[10px] font-black text-slate-400 uppercase tracking-wider mb-3">Har tillgång</h4>
+                    {isLoading ? (
+                        <div className="flex justify-center text-slate-400"><i className="fas fa-circle-notch fa-spin text-xl"></i></div>
+                    ) : (
+                        <ul className="space-y-3">
+                            {collaborators.map(collaborator => {
+                                const isBusy = busyId === collaborator.permissionId;
+                                const canManage = collaborator.type === 'user' && (collaborator.role === 'writer' || collaborator.role === 'reader');
+                                return (
+                                    <li key={collaborator.permissionId} className="flex items-center space-x-3">
+                                        {collaborator.photoLink ? (
+                                            <img src={collaborator.photoLink} className="w-8 h-8 rounded-full shrink-0" alt="" referrerPolicy="no-referrer" />
+                                        ) : (
+                                            <div className="w-8 h-8 rounded-full bg-slate-100 text-slate-400 flex items-center justify-center shrink-0"><i className={`fas ${collaborator.type === 'user' ? 'fa-user' : 'fa-users'} text-xs`}></i></div>
+                                        )}
+                                        <div className="flex-1 min-w-0">
+                                            <p className="text-sm font-bold text-slate-800 truncate">{collaborator.displayName || collaborator.email || (collaborator.type === 'anyone' ? 'Alla med länken' : 'Okänd')}</p>
+                                            {collaborator.displayName && collaborator.email && <p className="text-[10px] text-slate-500 truncate">{collaborator.email}</p>}
+                                        </div>
+                                        {canManage ? (
+                                            <>
+                                                <select
+                                                    value={collaborator.role}
+                                                    disabled={isBusy}
+                                                    onChange={(e) => handleChangeRole(collaborator, e.target.value as InviteRole)}
+                                                    className="px-2 py-1 border border-slate-200 rounded-lg text-xs bg-white disabled:opacity-50"
+                                                >
+                                                    <option value="writer">{ROLE_LABELS.writer}</option>
+                                                    <option value="reader">{ROLE_LABELS.reader}</option>
+                                                </select>
+                                                <button onClick={() => handleRevoke(collaborator)} disabled={isBusy} className="text-slate-400 hover:text-red-500 disabled:opacity-50 w-6" title="Ta bort tillgång">
+                                                    {isBusy ? <i className="fas fa-circle-notch fa-spin"></i> : <i className="fas fa-user-minus"></i>}
+                                                </button>
+                                            </>
+                                        ) : (
+                                            <span className="text-xs text-slate-500 font-bold">{ROLE_LABELS[collaborator.role] || collaborator.role}</span>
+                                        )}
+                                    </li>
+                                );
+                            })}
+                        </ul>
+                    )}
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export default ShareBookDialog;
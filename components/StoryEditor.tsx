@@ -2,11 +2,19 @@
 import React, { useState, useEffect, useMemo, useRef } from 'react';
 import { DriveFile, FileType, AppSettings, MemoryBook, ChunkData, ExportedFile } from '../types';
 import { generateCombinedPDF, splitPdfIntoPages, mergeFilesToPdf, getPdfPageCount, generatePageThumbnail, processFileForCache } from '../services/pdfService';
-import { uploadToDrive, saveProjectState } from '../services/driveService';
+import { BookStorageProvider } from '../services/bookStorage';
+import { BookSyncState } from '../services/localBookStore';
+import { describeDriveError } from '../services/driveClient';
+import { mergeItems, resolveItemConflicts, ProjectConflictError, ConflictChoice } from '../services/projectMerge';
 import FamilySearchExport from './FamilySearchExport';
 import AppLogo from './AppLogo';
 import StoryEditorSidebar from './StoryEditorSidebar';
 import FileEditorModal from './FileEditorModal';
+import ConflictResolutionModal from './ConflictResolutionModal';
+import HistoryPanel from './HistoryPanel';
+import ShareBookDialog from './ShareBookDialog';
+import { needsMaterializing, materializeLocalItem } from '../services/itemMaterializer';
+import { SearchTarget } from '../services/bookSearch';
 import { CHUNK_THEMES } from './theme';
 
 // --- COMPONENTS ---
@@ -75,7 +83,7 @@ const Tile = ({ id, item, index, isSelected, onClick, onEdit, onSplit, onRemove,
                      />
                  ) : (
                      <div className="w-full h-full flex items-center justify-center text-slate-300 bg-slate-100">
-                         <i className={`fas ${item.type === FileType.PDF ? 'fa-file-pdf' : 'fa-file-image'} text-4xl`}></i>
+                         <i className={`fas ${item.type === FileType.PDF ? 'fa-file-pdf' : item.type === FileType.TEXT ? 'fa-file-lines' : 'fa-file-image'} text-4xl`}></i>
                      </div>
                  )}
                  <div className="absolute inset-x-0 bottom-0 h-16 bg-gradient-to-t from-black/70 to-transparent pointer-events-none"></div>
@@ -122,7 +130,7 @@ const ListViewItem = ({ item, index, isSelected, onClick, onEdit, chunkInfo, onD
                  ) : (item.thumbnail || item.blobUrl) ? (
                      <img src={item.thumbnail || item.blobUrl} className="w-full h-full object-cover" alt={item.name} />
                  ) : (
-                     <i className={`fas ${item.type === FileType.PDF ? 'fa-file-pdf' : 'fa-image'} text-slate-400`}></i>
+                     <i className={`fas ${item.type === FileType.PDF ? 'fa-file-pdf' : item.type === FileType.TEXT ? 'fa-file-lines' : 'fa-image'} text-slate-400`}></i>
                  )}
             </div>
             <div className="flex-1 min-w-0 mr-4">
@@ -143,6 +151,7 @@ interface StoryEditorProps {
   items: DriveFile[];
   onUpdateItems: (items: DriveFile[] | ((prevItems: DriveFile[]) => DriveFile[])) => void;
   accessToken: string;
+  storage: BookStorageProvider | null;
   bookTitle: string;
   onUpdateBookTitle: (t: string) => void;
   showShareView: boolean;
@@ -150,6 +159,10 @@ interface StoryEditorProps {
   onOpenSourceSelector: (index: number | null) => void;
   settings: AppSettings;
   onUpdateSettings: (s: AppSettings) => void;
+  onRestoreAsCopy: (revisionBook: MemoryBook) => Promise<void>;
+  remoteBookUpdate?: MemoryBook | null; // Saved from another device while open
+  focusTarget?: SearchTarget | null; // Tile (and page) to show when opened from a search result
+  onFocusHandled?: () => void;
 }
 
 const StoryEditor: React.FC<StoryEditorProps> = ({ 
@@ -157,21 +170,37 @@ const StoryEditor: React.FC<StoryEditorProps> = ({
   items, 
   onUpdateItems, 
   accessToken, 
+  storage,
   bookTitle, 
   onUpdateBookTitle,
   showShareView,
   onCloseShareView,
   onOpenSourceSelector,
   settings,
-  onUpdateSettings
+  onUpdateSettings,
+  onRestoreAsCopy,
+  remoteBookUpdate,
+  focusTarget,
+  onFocusHandled
 }) => {
   const [editingItem, setEditingItem] = useState<DriveFile | null>(null);
+  const [editingStartPage, setEditingStartPage] = useState<number | undefined>(undefined);
   const [isProcessing, setIsProcessing] = useState(false);
   const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
   const [lastSelectedId, setLastSelectedId] = useState<string | null>(null);
   const [draggedIndex, setDraggedIndex] = useState<number | null>(null);
   const [activeChunkFilter, setActiveChunkFilter] = useState<number | null>(null);
   const [autoSaveStatus, setAutoSaveStatus] = useState<string>('Sparat');
+  const [syncState, setSyncState] = useState<BookSyncState | null>(null);
+
+  // Edits from other devices: what we last saved is the base when their changes come back
+  const [conflict, setConflict] = useState<ProjectConflictError | null>(null);
+  const [saveNonce, setSaveNonce] = useState(0);
+  const [showHistory, setShowHistory] = useState(false);
+  const [showInvite, setShowInvite] = useState(false);
+  const lastSavedItemsRef = useRef<DriveFile[] | null>(currentBook.items);
+  const resolvedRevisionRef = useRef<string | null>(null);
+  const dismissedConflictRef = useRef<string | null>(null);
   
   // Layout & Settings UI State
   const [viewMode, setViewMode] = useState<'grid' | 'list'>('grid');
@@ -205,7 +234,8 @@ const StoryEditor: React.FC<StoryEditorProps> = ({
   };
   const currentItemsHash = useMemo(generateHash, [items]);
 
-  const [chunks, setChunks] = useState<ChunkData[]>(currentBook.chunks || []);
+  // An upload that was running when the page was closed is picked up again by the sync effect
+  const [chunks, setChunks] = useState<ChunkData[]>((currentBook.chunks || []).map(c => ({ ...c, isUploading: false, uploadProgress: undefined })));
   const [optimizationCursor, setOptimizationCursor] = useState(0);
   const [optimizingStatus, setOptimizingStatus] = useState<string>('');
   
@@ -275,35 +305,11 @@ const StoryEditor: React.FC<StoryEditorProps> = ({
   }, [settings.maxChunkSizeMB, settings.safetyMarginPercent, settings.compressionLevel]);
 
   useEffect(() => {
-    if (!currentBook.driveFolderId) return;
+    if (!storage || !storage.canSave(currentBook)) return;
     setAutoSaveStatus('Sparar...');
     
     const handler = setTimeout(async () => {
         try {
-            const itemsToPersist = items.filter(i => i.isLocal && !i.id.startsWith('drive-')); 
-            if (itemsToPersist.length > 0) {
-                setAutoSaveStatus('Synkroniserar filer...');
-                for (const item of itemsToPersist) {
-                    try {
-                        let blobToUpload: Blob | null = null;
-                        if (item.blobUrl) {
-                            const res = await fetch(item.blobUrl);
-                            blobToUpload = await res.blob();
-                        } else if (item.processedBuffer) {
-                            blobToUpload = new Blob([item.processedBuffer], { type: item.type === FileType.PDF ? 'application/pdf' : 'image/jpeg' });
-                        }
-                        if (blobToUpload) {
-                            const filename = `${item.name}.pdf`;
-                            await uploadToDrive(accessToken, currentBook.driveFolderId!, filename, blobToUpload, 'application/pdf');
-                            // Find ID if possible to stabilize, but handled by logic above
-                            const uploadedId = await (window as any).findFileInFolder?.(accessToken, currentBook.driveFolderId!, filename);
-                        }
-                    } catch (e) {
-                        console.warn("Auto-upload failed for item", item.name);
-                    }
-                }
-            }
-
             const bookToSave = { 
                 ...currentBook, 
                 items: items,
@@ -313,16 +319,110 @@ const StoryEditor: React.FC<StoryEditorProps> = ({
                 optimizationCursor: cursorRef.current, 
                 optimizationHash: currentItemsHash 
             };
-            await saveProjectState(accessToken, bookToSave);
-            setAutoSaveStatus('Sparat på Drive');
+            lastSavedItemsRef.current = items;
+            const merged = await storage.saveBook(bookToSave, { resolvedRevision: resolvedRevisionRef.current || undefined });
+            resolvedRevisionRef.current = null;
+            if (merged) adoptMergedItems(merged.items);
+            // Local-first storage reports the Drive side separately through syncState
+            if (storage.subscribeSyncState) setAutoSaveStatus('Sparat lokalt');
+            else setAutoSaveStatus(storage.kind === 'drive' ? 'Sparat på Drive' : 'Sparat');
         } catch (e) {
+            if (e instanceof ProjectConflictError) {
+                setAutoSaveStatus(`Kunde inte spara: ${e.message}`);
+                setConflict(e);
+                return;
+            }
             console.error("Auto-save failed", e);
-            setAutoSaveStatus('Kunde inte spara');
+            setAutoSaveStatus(`Kunde inte spara: ${describeDriveError(e)}`);
         }
     }, 2000); 
 
     return () => clearTimeout(handler);
-  }, [items, bookTitle, currentBook.driveFolderId, settings, currentItemsHash]);
+  }, [items, bookTitle, currentBook.driveFolderId, settings, currentItemsHash, storage, saveNonce]);
+
+  // LOCAL ITEMS: upload each one once and point it at its Drive copy (see itemMaterializer)
+  const materializingIdsRef = useRef<Set<string>>(new Set());
+  useEffect(() => {
+      if (!storage || storage.kind !== 'drive' || !storage.canSave(currentBook)) return;
+      // The item open in the editor modal is swapped after it closes, so edits aren't lost
+      const pending = items.filter(i => needsMaterializing(i) && i.id !== editingItem?.id && !materializingIdsRef.current.has(i.id));
+      if (pending.length === 0) return;
+      pending.forEach(i => materializingIdsRef.current.add(i.id));
+
+      const materializeAll = async () => {
+          for (const item of pending) {
+              try {
+                  const materialized = await materializeLocalItem(storage, currentBook, item);
+                  if (!materialized) {
+                      addLog(`Kunde inte läsa ${item.name}, lägg till filen igen`);
+                      continue;
+                  }
+                  const swap = (i: DriveFile): DriveFile => i.id === item.id
+                      ? { ...i, id: materialized.id, isLocal: false, fileObj: undefined, size: materialized.size }
+                      : i;
+                  onUpdateItems(prev => prev.map(swap));
+                  setChunks(prev => prev.map(c => c.items.some(ci => ci.id === item.id) ? { ...c, items: c.items.map(swap) } : c));
+                  setSelectedIds(prev => {
+                      if (!prev.has(item.id)) return prev;
+                      const next = new Set(prev);
+                      next.delete(item.id);
+                      next.add(materialized.id);
+                      return next;
+                  });
+                  addLog(`${item.name} sparad på Drive`);
+              } catch (e) {
+                  console.warn("Uploading local item failed", item.name, e);
+                  // Try again on the next change
+                  materializingIdsRef.current.delete(item.id);
+              }
+          }
+      };
+      materializeAll();
+  }, [items, storage, currentBook.driveFolderId, editingItem?.id]);
+
+  useEffect(() => {
+      if (!storage?.subscribeSyncState) return;
+      setSyncState(null);
+      return storage.subscribeSyncState(currentBook.id, state => {
+          setSyncState(state);
+          // Background syncs retry every minute; don't reopen a dialog the user closed
+          if (state.conflict && state.conflict.remoteRevisionId !== dismissedConflictRef.current) setConflict(state.conflict);
+          if (state.mergedBook) adoptMergedItems(state.mergedBook.items);
+      });
+  }, [storage, currentBook.id]);
+
+  useEffect(() => {
+      if (!remoteBookUpdate || remoteBookUpdate.id !== currentBook.id) return;
+      adoptMergedItems(remoteBookUpdate.items);
+      addLog('Ändringar från en annan enhet hämtade');
+  }, [remoteBookUpdate]);
+
+  // Takes in changes another device made, without undoing edits made while the save ran
+  const adoptMergedItems = (mergedItems: DriveFile[]) => {
+      const base = lastSavedItemsRef.current;
+      if (!base) return;
+      onUpdateItems(prev => mergeItems(base, prev, mergedItems).items);
+  };
+
+  const handleResolveConflict = (choices: Record<string, ConflictChoice>) => {
+      if (!conflict) return;
+      const base = lastSavedItemsRef.current || items;
+      onUpdateItems(prev => resolveItemConflicts(mergeItems(base, prev, conflict.merged.items).items, conflict.conflicts, choices));
+      resolvedRevisionRef.current = conflict.remoteRevisionId;
+      setConflict(null);
+      setSaveNonce(n => n + 1);
+  };
+
+  const handleRestoreRevision = (revisionBook: MemoryBook) => {
+      onUpdateItems(revisionBook.items);
+      setShowHistory(false);
+      addLog('Tidigare version återställd');
+  };
+
+  const handleDismissConflict = () => {
+      if (conflict) dismissedConflictRef.current = conflict.remoteRevisionId;
+      setConflict(null);
+  };
 
   useEffect(() => {
     if (optimizationCursor >= items.length) {
@@ -412,7 +512,7 @@ const StoryEditor: React.FC<StoryEditorProps> = ({
   }, [currentItemsHash, optimizationCursor, chunks.length]);
 
   useEffect(() => {
-      if (!currentBook.driveFolderId) return;
+      if (!storage || !storage.canSave(currentBook)) return;
       const sync = async () => {
           const chunkToSync = chunks.find(c => c.isOptimized && !c.isSynced && !c.isUploading);
           if (!chunkToSync) return;
@@ -421,16 +521,21 @@ const StoryEditor: React.FC<StoryEditorProps> = ({
           try {
               const pdfBytes = await generateCombinedPDF(accessToken, chunkToSync.items, chunkToSync.title, settings.compressionLevel);
               const blob = new Blob([new Uint8Array(pdfBytes)], { type: 'application/pdf' });
-              await uploadToDrive(accessToken, currentBook.driveFolderId!, `${chunkToSync.title}.pdf`, blob);
-              setChunks(prev => prev.map(c => c.id === chunkToSync.id ? { ...c, isUploading: false, isSynced: true } : c));
+              await storage.uploadArtifact(currentBook, `${chunkToSync.title}.pdf`, blob, 'application/pdf', {
+                  onProgress: (uploaded, total) => {
+                      const progress = total > 0 ? uploaded / total : 1;
+                      setChunks(prev => prev.map(c => c.id === chunkToSync.id ? { ...c, uploadProgress: progress } : c));
+                  }
+              });
+              setChunks(prev => prev.map(c => c.id === chunkToSync.id ? { ...c, isUploading: false, isSynced: true, uploadProgress: undefined } : c));
               addLog(`Del ${chunkToSync.id} sparad på Drive!`);
           } catch (e) {
-              addLog(`Fel vid sparande av Del ${chunkToSync.id}`);
-              setChunks(prev => prev.map(c => c.id === chunkToSync.id ? { ...c, isUploading: false } : c));
+              addLog(`Fel vid sparande av Del ${chunkToSync.id}: ${describeDriveError(e)}`);
+              setChunks(prev => prev.map(c => c.id === chunkToSync.id ? { ...c, isUploading: false, uploadProgress: undefined } : c));
           }
       };
       const t = setTimeout(sync, 2000); return () => clearTimeout(t);
-  }, [chunks, currentBook.driveFolderId, accessToken]);
+  }, [chunks, currentBook.driveFolderId, accessToken, storage]);
 
   useEffect(() => {
       const handleResize = () => {
@@ -476,7 +581,12 @@ const StoryEditor: React.FC<StoryEditorProps> = ({
       try { 
           const itemsToMerge = items.filter(i => selectedIds.has(i.id)); 
           const firstIndex = items.findIndex(i => i.id === itemsToMerge[0].id); 
-          const mergedBlob = await mergeFilesToPdf(itemsToMerge, accessToken, settings.compressionLevel); 
+          const { blob: mergedBlob, failedItems } = await mergeFilesToPdf(itemsToMerge, accessToken, settings.compressionLevel); 
+          // The originals are replaced by the merged file, so nothing may be left out of it
+          if (failedItems.length > 0) {
+              alert(`Kunde inte läsa ${failedItems.map(i => `"${i.name}"`).join(', ')}. Filerna slogs inte ihop.`);
+              return;
+          }
           const mergedUrl = URL.createObjectURL(mergedBlob); 
           const count = await getPdfPageCount(mergedBlob); 
           const thumbUrl = await generatePageThumbnail(mergedBlob, 0); 
@@ -504,9 +614,26 @@ const StoryEditor: React.FC<StoryEditorProps> = ({
   };
   
   const handleNavigateFile = (newItem: DriveFile) => {
+      setEditingStartPage(undefined);
       setEditingItem(newItem);
   };
 
+  // Select the tile a search result points at, and open its page if the hit was in a caption
+  useEffect(() => {
+      if (!focusTarget?.itemId) return;
+      const item = items.find(i => i.id === focusTarget.itemId);
+      onFocusHandled?.();
+      if (!item) return;
+      setActiveChunkFilter(null);
+      setSelectedIds(new Set([item.id]));
+      setLastSelectedId(item.id);
+      requestAnimationFrame(() => document.getElementById(`tile-${item.id}`)?.scrollIntoView({ behavior: 'smooth', block: 'center' }));
+      if (focusTarget.pageIndex !== undefined) {
+          setEditingStartPage(focusTarget.pageIndex);
+          setEditingItem(item);
+      }
+  }, [focusTarget]);
+
   const handleInsertAfterSelection = () => { const indexes = items.map((item, idx) => selectedIds.has(item.id) ? idx : -1).filter(i => i !== -1); const maxIndex = Math.max(...indexes); if (maxIndex !== -1) onOpenSourceSelector(maxIndex + 1); };
 
   const filteredItems = activeChunkFilter !== null ? (chunks.find(c => c.id === activeChunkFilter)?.items || []) : items;
@@ -518,6 +645,7 @@ const StoryEditor: React.FC<StoryEditorProps> = ({
             chunks={chunks} 
             isOptimizationComplete={optimizationCursor >= items.length}
             driveFolderId={currentBook.driveFolderId}
+            driveId={currentBook.driveId}
             bookTitle={bookTitle} 
             accessToken={accessToken} 
             onBack={onCloseShareView} 
@@ -540,6 +668,9 @@ const StoryEditor: React.FC<StoryEditorProps> = ({
                         <div className="shrink-0"><AppLogo variant="phase2" className="w-16 h-16 md:w-20 md:h-20" /></div>
                         <div><h2 className="text-2xl font-serif font-bold text-slate-900 leading-tight break-words whitespace-normal">Berätta kortfattat</h2><p className="text-sm text-slate-500 font-medium mt-1">Klicka och skriv</p></div>
                     </div>
+                    {currentBook.canEdit === false && (<span className="ml-auto mr-3 px-3 py-2 rounded-lg bg-amber-50 text-amber-700 text-xs font-bold shrink-0" title={currentBook.sharedBy ? `Delad av ${currentBook.sharedBy}` : undefined}><i className="fas fa-eye mr-1"></i> Endast läsrätt</span>)}
+                    {storage?.inviteCollaborator && storage.canSave(currentBook) && (<button onClick={(e) => { e.stopPropagation(); setShowInvite(true); }} className="ml-auto mr-2 px-3 py-2 rounded-lg bg-slate-200 text-slate-600 hover:text-slate-800 text-xs font-bold shrink-0 transition-colors" title="Dela boken med släktingar"><i className="fas fa-user-plus mr-1"></i> Bjud in</button>)}
+                    {storage?.listRevisions && storage.canSave(currentBook) && (<button onClick={(e) => { e.stopPropagation(); setShowHistory(true); }} className="mr-3 px-3 py-2 rounded-lg bg-slate-200 text-slate-600 hover:text-slate-800 text-xs font-bold shrink-0 transition-colors" title="Tidigare versioner"><i className="fas fa-history mr-1"></i> Historik</button>)}
                     <div className="flex items-center bg-slate-200 rounded-lg p-1 shrink-0"><button onClick={(e) => { e.stopPropagation(); setViewMode('grid'); }} className={`p-2 rounded-md transition-all ${viewMode === 'grid' ? 'bg-white text-slate-800 shadow-sm' : 'text-slate-500 hover:text-slate-700'}`} title="Rutnät"><i className="fas fa-th-large"></i></button><button onClick={(e) => { e.stopPropagation(); setViewMode('list'); }} className={`p-2 rounded-md transition-all ${viewMode === 'list' ? 'bg-white text-slate-800 shadow-sm' : 'text-slate-500 hover:text-slate-700'}`} title="Lista"><i className="fas fa-list"></i></button></div>
                 </div>
 
@@ -585,6 +716,7 @@ const StoryEditor: React.FC<StoryEditorProps> = ({
             statusLog={statusLog}
             optimizingStatus={optimizingStatus}
             autoSaveStatus={autoSaveStatus}
+            syncState={syncState}
             activeChunkFilter={activeChunkFilter}
             onSetActiveChunkFilter={setActiveChunkFilter}
             exportedFiles={exportedFiles}
@@ -592,18 +724,47 @@ const StoryEditor: React.FC<StoryEditorProps> = ({
          />
       </div>
 
+      {showHistory && storage && (
+        <HistoryPanel
+            book={currentBook}
+            currentItems={items}
+            storage={storage}
+            onRestore={handleRestoreRevision}
+            onRestoreAsCopy={onRestoreAsCopy}
+            onClose={() => setShowHistory(false)}
+        />
+      )}
+
+      {showInvite && storage && (
+        <ShareBookDialog
+            book={currentBook}
+            storage={storage}
+            onClose={() => setShowInvite(false)}
+        />
+      )}
+
+      {conflict && (
+        <ConflictResolutionModal
+            conflicts={conflict.conflicts}
+            onResolve={handleResolveConflict}
+            onClose={handleDismissConflict}
+        />
+      )}
+
       {editingItem && (
         <FileEditorModal
             key={editingItem.id} 
             item={editingItem}
             allItems={items} // Pass all items to enable navigation
             accessToken={accessToken} 
-            onClose={() => setEditingItem(null)} 
+            onClose={() => { setEditingItem(null); setEditingStartPage(undefined); }} 
             onUpdate={handleUpdateItem} 
             onNavigateFile={handleNavigateFile}
             settings={settings} 
             driveFolderId={currentBook.driveFolderId} 
+            driveId={currentBook.driveId}
             onExportSuccess={handleManualExportSuccess} 
+            initialPageIndex={editingStartPage}
         />
       )}
     </>
@@ -3,6 +3,7 @@ import React, { useState } from 'react';
 import { ChunkData, AppSettings, CompressionLevel, ExportedFile } from '../types';
 import AppLogo from './AppLogo';
 import { CHUNK_THEMES } from './theme';
+import { BookSyncState } from '../services/localBookStore';
 
 interface StoryEditorSidebarProps {
     chunks: ChunkData[];
@@ -16,6 +17,7 @@ interface StoryEditorSidebarProps {
     statusLog: string[];
     optimizingStatus: string;
     autoSaveStatus: string;
+    syncState?: BookSyncState | null;
     activeChunkFilter: number | null;
     onSetActiveChunkFilter: (id: number | null) => void;
     exportedFiles: ExportedFile[];
@@ -34,12 +36,21 @@ const StoryEditorSidebar: React.FC<StoryEditorSidebarProps> = ({
     statusLog,
     optimizingStatus,
     autoSaveStatus,
+    syncState,
     activeChunkFilter,
     onSetActiveChunkFilter,
     exportedFiles,
     onTriggerShare
 }) => {
     const [isSettingsOpen, setIsSettingsOpen] = useState(false);
+
+    const SYNC_LABELS = {
+        synced: { label: 'Synkad med Drive', className: 'text-emerald-600', icon: 'fa-cloud' },
+        pending: { label: 'Väntar på anslutning', className: 'text-amber-600', icon: 'fa-cloud-arrow-up' },
+        syncing: { label: 'Synkar...', className: 'text-indigo-600', icon: 'fa-sync fa-spin' },
+        failed: { label: 'Synk misslyckades', className: 'text-red-500', icon: 'fa-triangle-exclamation' },
+        conflict: { label: 'Ändrad på annan enhet', className: 'text-amber-600', icon: 'fa-code-branch' }
+    };
     
     // Internal state for mobile expansion
     const [isMobileExpanded, setIsMobileExpanded] = useState(false);
@@ -138,7 +149,14 @@ const StoryEditorSidebar: React.FC<StoryEditorSidebarProps> = ({
                                 </p>
                                 <i className={`fas fa-chevron-${showStatusLog ? 'up' : 'down'} text-[8px] text-slate-400`}></i>
                             </div>
-                            {autoSaveStatus && <span className={`text-[10px] font-bold ${autoSaveStatus === 'Kunde inte spara' ? 'text-red-500' : 'text-emerald-600'}`}>{autoSaveStatus}</span>}
+                            <div className="flex flex-col items-end max-w-[60%] min-w-0">
+                                {autoSaveStatus && <span title={autoSaveStatus} className={`text-[10px] font-bold truncate max-w-full ${autoSaveStatus.startsWith('Kunde inte spara') ? 'text-red-500' : 'text-emerald-600'}`}>{autoSaveStatus}</span>}
+                                {syncState && (
+                                    <span title={syncState.error || SYNC_LABELS[syncState.status].label} className={`text-[9px] font-bold truncate max-w-full ${SYNC_LABELS[syncState.status].className}`}>
+                                        <i className={`fas ${SYNC_LABELS[syncState.status].icon} mr-1`}></i>{SYNC_LABELS[syncState.status].label}
+                                    </span>
+                                )}
+                            </div>
                             {showStatusLog && (
                                 <div className="absolute top-6 left-0 right-0 bg-slate-800 text-slate-300 p-3 rounded-lg shadow-xl z-50 text-[9px] font-mono max-h-40 overflow-y-auto border border-slate-700">
                                     {statusLog.length === 0 && <p className="italic opacity-50">Loggen är tom...</p>}
@@ -178,7 +196,7 @@ const StoryEditorSidebar: React.FC<StoryEditorSidebarProps> = ({
                              <div className="flex justify-between items-center mb-3">
                                  <div className="flex items-center space-x-3"><span className={`w-8 h-8 rounded-lg flex items-center justify-center text-sm font-black text-white ${theme.bg}`}>{chunk.id}</span><div><h3 className="text-sm font-bold text-slate-800">Del {chunk.id}</h3><p className="text-[10px] text-slate-400 font-medium">{chunk.items.length} objekt</p></div></div>
                                  <div className="text-right">
-                                     {isGreen ? (<span className="text-[9px] font-black text-emerald-600 bg-emerald-50 px-2 py-1 rounded-md uppercase tracking-wider flex items-center gap-1 border border-emerald-100"><i className="fas fa-check-circle"></i> KLAR</span>) : isUploading ? (<span className="text-[9px] font-black text-indigo-600 bg-indigo-50 px-2 py-1 rounded-md uppercase tracking-wider animate-pulse flex items-center gap-1"><i className="fas fa-sync fa-spin"></i> SPARAR...</span>) : (<span className="text-[9px] font-bold text-slate-400 bg-slate-100 px-2 py-1 rounded-md uppercase tracking-wider">Redo</span>)}
+                                     {isGreen ? (<span className="text-[9px] font-black text-emerald-600 bg-emerald-50 px-2 py-1 rounded-md uppercase tracking-wider flex items-center gap-1 border border-emerald-100"><i className="fas fa-check-circle"></i> KLAR</span>) : isUploading ? (<span className="text-[9px] font-black text-indigo-600 bg-indigo-50 px-2 py-1 rounded-md uppercase tracking-wider animate-pulse flex items-center gap-1"><i className="fas fa-sync fa-spin"></i> SPARAR{chunk.uploadProgress !== undefined ? ` ${Math.round(chunk.uploadProgress * 100)}%` : '...'}</span>) : (<span className="text-[9px] font-bold text-slate-400 bg-slate-100 px-2 py-1 rounded-md uppercase tracking-wider">Redo</span>)}
                                  </div>
                              </div>
                              <div className="relative w-full h-3 bg-slate-100 rounded-full overflow-hidden mb-2"><div className={`absolute top-0 left-0 h-full transition-all duration-1000 ${theme.bg}`} style={{ width: `${percentFilled}%` }}></div>{settings.safetyMarginPercent > 0 && (<div className="absolute top-0 bottom-0 right-0 bg-red-100/50 border-l border-red-200" style={{ width: `${settings.safetyMarginPercent}%` }} title="Säkerhetsmarginal"></div>)}</div>
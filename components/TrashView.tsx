@@ -0,0 +1,136 @@
+import React, { useState, useEffect } from 'react';
+import { MemoryBook } from '../types';
+import { BookStorageProvider, loadTrashRetentionDays, saveTrashRetentionDays } from '../services/bookStorage';
+import { describeDriveError } from '../services/driveClient';
+
+interface TrashViewProps {
+    storage: BookStorageProvider;
+    onBookRestored: (book: MemoryBook) => void;
+}
+
+const RETENTION_OPTIONS: { days: number | null, label: string }[] = [
+    { days: 7, label: '7 dagar' },
+    { days: 30, label: '30 dagar' },
+    { days: 90, label: '90 dagar' },
+    { days: null, label: 'Aldrig' }
+];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const TrashView: React.FC<TrashViewProps> = ({ storage, onBookRestored }) => {
+    const [trashedBooks, setTrashedBooks] = useState<MemoryBook[]>([]);
+    const [isLoading, setIsLoading] = useState(true);
+    const [busyBookIds, setBusyBookIds] = useState<Set<string>>(new Set());
+    const [retentionDays, setRetentionDays] = useState<number | null>(loadTrashRetentionDays());
+
+    useEffect(() => {
+        let isCancelled = false;
+        setIsLoading(true);
+        storage.listTrashedBooks!()
+            .then(list => {
+                if (isCancelled) return;
+                // Most recently deleted first
+                setTrashedBooks(list.sort((a, b) => (b.trashedAt || '').localeCompare(a.trashedAt || '')));
+            })
+            .catch(e => { if (!isCancelled) alert(`Kunde inte hämta papperskorgen. ${describeDriveError(e, '')}`); })
+            .finally(() => { if (!isCancelled) setIsLoading(false); });
+        return () => { isCancelled = true; };
+    }, [storage]);
+
+    // The book leaves the list only if the action worked; otherwise onError explains why
+    const runForBook = async (book: MemoryBook, action: () => Promise<void>, onError: (e: any) => void) => {
+        setBusyBookIds(prev => new Set(prev).add(book.id));
+        try {
+            await action();
+            setTrashedBooks(prev => prev.filter(b => b.id !== book.id));
+        } catch (e) {
+            onError(e);
+        } finally {
+            setBusyBookIds(prev => {
+                const next = new Set(prev);
+                next.delete(book.id);
+                return next;
+            });
+        }
+    };
+
+    const handleRestore = (book: MemoryBook) => runForBook(book, async () => {
+        await storage.restoreBook!(book);
+        onBookRestored({ ...book, trashedAt: undefined });
+    }, e => {
+        if (e.message === "DUPLICATE_NAME") alert(`Det finns redan en bok som heter "${book.title}". Byt namn på den först.`);
+        else alert(`Kunde inte återställa boken. ${describeDriveError(e, '')}`);
+    });
+
+    const handlePurge = (book: MemoryBook) => {
+        if (!confirm(`Vill du radera "${book.title}" permanent? Alla filer i boken raderas och det går inte att ångra.`)) return;
+        runForBook(book, () => storage.purgeBook!(book), e => alert(`Kunde inte radera boken. ${describeDriveError(e, '')}`));
+    };
+
+    const handleChangeRetention = (days: number | null) => {
+        setRetentionDays(days);
+        saveTrashRetentionDays(days);
+    };
+
+    const daysLeft = (book: MemoryBook) => {
+        if (retentionDays === null || !book.trashedAt) return null;
+        const expires = new Date(book.trashedAt).getTime() + retentionDays * DAY_MS;
+        return Math.max(0, Math.ceil((expires - Date.now()) / DAY_MS));
+    };
+
+    return (
+        <div className="space-y-6">
+            <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-3 bg-white rounded-xl border border-slate-200 p-4 shadow-sm">
+                <p className="text-xs text-slate-500">Borttagna böcker ligger i mappen Papperskorg på din Drive tills de raderas.</p>
+                <div className="flex items-center space-x-2 shrink-0">
+                    <span className="text-xs font-bold text-slate-700">Radera automatiskt efter</span>
+                    <div className="flex bg-slate-100 rounded p-1">
+                        {RETENTION_OPTIONS.map(option => (
+                            <button key={option.label} onClick={() => handleChangeRetention(option.days)} className={`px-2 py-1 rounded text-[10px] font-bold transition-all ${retentionDays === option.days ? 'bg-white text-indigo-600 shadow-sm' : 'text-slate-500 hover:text-slate-700'}`}>
+                                {option.label}
+                            </button>
+                        ))}
+                    </div>
+                </div>
+            </div>
+
+            {isLoading ? (
+                <div className="py-20 flex justify-center text-slate-400"><i className="fas fa-circle-notch fa-spin text-2xl"></i></div>
+            ) : trashedBooks.length === 0 ? (
+                <div className="py-20 text-center text-slate-400">
+                    <i className="fas fa-trash-alt text-3xl mb-3 opacity-50"></i>
+                    <p className="text-sm font-bold">Papperskorgen är tom</p>
+                </div>
+            ) : (
+                <div className="flex flex-col space-y-2">
+                    {trashedBooks.map(book => {
+                        const isBusy = busyBookIds.has(book.id);
+                        const remaining = daysLeft(book);
+                        return (
+                            <div key={book.id} className={`flex items-center p-4 rounded-xl border border-slate-200 bg-white shadow-sm ${isBusy ? 'opacity-50' : ''}`}>
+                                <div className="w-10 h-10 rounded-lg bg-slate-100 flex items-center justify-center text-slate-400 mr-4 shrink-0"><i className="fas fa-book"></i></div>
+                                <div className="flex-1 min-w-0 mr-4">
+                                    <h4 className="text-sm font-bold text-slate-800 truncate">{book.title}</h4>
+                                    <p className="text-[10px] text-slate-500">
+                                        Borttagen {book.trashedAt ? new Date(book.trashedAt).toLocaleDateString() : 'okänt datum'}
+                                        {remaining !== null && <span> · raderas om {remaining} {remaining === 1 ? 'dag' : 'dagar'}</span>}
+                                    </p>
+                                </div>
+                                {isBusy ? (
+                                    <i className="fas fa-circle-notch fa-spin text-slate-400"></i>
+                                ) : (
+                                    <div className="flex space-x-2 shrink-0">
+                                        <button onClick={() => handleRestore(book)} className="px-3 py-2 bg-indigo-50 hover:bg-indigo-100 text-indigo-600 text-xs font-bold rounded-lg transition-colors"><i className="fas fa-undo mr-1"></i> Återställ</button>
+                                        <button onClick={() => handlePurge(book)} className="px-3 py-2 bg-slate-100 hover:bg-red-50 text-slate-500 hover:text-red-600 text-xs font-bold rounded-lg transition-colors"><i className="fas fa-trash mr-1"></i> Radera</button>
+                                    </div>
+                                )}
+                            </div>
+                        );
+                    })}
+                </div>
+            )}
+        </div>
+    );
+};
+
+export default TrashView;
@@ -0,0 +1,80 @@
+
+// Google accounts signed in on this device. One of them is active (its books are on the
+// Dashboard); the others stay signed in so books and source files in them can still be used.
+
+export interface GoogleAccount {
+  email: string;
+  name: string;
+  picture: string;
+  accessToken?: string;
+  tokenExpiry?: number; // ms since epoch
+}
+
+const ACCOUNTS_KEY = 'google_accounts';
+const ACTIVE_ACCOUNT_KEY = 'google_active_account';
+
+// Access tokens live for an hour; stop using them a little before that
+export const TOKEN_LIFETIME_MS = 50 * 60 * 1000;
+
+// Before multiple accounts there was a single signed-in user under these keys
+const LEGACY_TOKEN_KEY = 'google_access_token';
+const LEGACY_EXPIRY_KEY = 'google_access_token_expiry';
+const LEGACY_USER_KEY = 'google_user_info';
+
+const migrateLegacyAccount = (): GoogleAccount[] => {
+  try {
+    const storedUser = localStorage.getItem(LEGACY_USER_KEY);
+    if (!storedUser) return [];
+    const user = JSON.parse(storedUser);
+    const expiry = parseInt(localStorage.getItem(LEGACY_EXPIRY_KEY) || '0');
+    const account: GoogleAccount = {
+      email: user.email || '',
+      name: user.name || '',
+      picture: user.picture || '',
+      accessToken: localStorage.getItem(LEGACY_TOKEN_KEY) || undefined,
+      tokenExpiry: expiry || undefined
+    };
+    [LEGACY_TOKEN_KEY, LEGACY_EXPIRY_KEY, LEGACY_USER_KEY].forEach(key => localStorage.removeItem(key));
+    return account.email ? [account] : [];
+  } catch {
+    return [];
+  }
+};
+
+const hasValidToken = (account: GoogleAccount) =>
+  !!account.accessToken && !!account.tokenExpiry && Date.now() < account.tokenExpiry;
+
+// Accounts with expired tokens are kept, without the token, so they can be reconnected
+export const loadAccounts = (): GoogleAccount[] => {
+  let accounts: GoogleAccount[];
+  try {
+    const saved = localStorage.getItem(ACCOUNTS_KEY);
+    accounts = saved ? JSON.parse(saved) : migrateLegacyAccount();
+  } catch {
+    accounts = [];
+  }
+  return accounts.map(a => hasValidToken(a) ? a : { ...a, accessToken: undefined, tokenExpiry: undefined });
+};
+
+export const saveAccounts = (accounts: GoogleAccount[]) => {
+  localStorage.setItem(ACCOUNTS_KEY, JSON.stringify(accounts));
+};
+
+export const loadActiveAccountEmail = (): string | null => localStorage.getItem(ACTIVE_ACCOUNT_KEY);
+
+export const saveActiveAccountEmail = (email: string | null) => {
+  if (email) localStorage.setItem(ACTIVE_ACCOUNT_KEY, email);
+  else localStorage.removeItem(ACTIVE_ACCOUNT_KEY);
+};
+
+// Adds the account or merges the update into the existing one with the same email
+export const upsertAccount = (accounts: GoogleAccount[], update: Partial<GoogleAccount> & { email: string }): GoogleAccount[] => {
+  const existing = accounts.find(a => a.email === update.email);
+  if (!existing) return [...accounts, { name: '', picture: '', ...update }];
+  return accounts.map(a => a.email === update.email ? { ...a, ...update } : a);
+};
+
+export const withFreshToken = (accessToken: string): Pick<GoogleAccount, 'accessToken' | 'tokenExpiry'> => ({
+  accessToken,
+  tokenExpiry: Date.now() + TOKEN_LIFETIME_MS
+});
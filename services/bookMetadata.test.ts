@@ -0,0 +1,30 @@
+import { describe, expect, it } from 'vitest';
+import { toBookAppProperties, fromBookAppProperties } from './bookMetadata';
+import { MemoryBook } from '../types';
+
+const book = (title: string): MemoryBook => ({ id: 'b1', title, createdAt: '2020-01-01T00:00:00Z', items: [] });
+
+const byteLength = (text: string) => new TextEncoder().encode(text).length;
+
+describe('toBookAppProperties', () => {
+  it('keeps short titles as they are', () => {
+    expect(toBookAppProperties(book('Farmors år i Åmål')).title).toBe('Farmors år i Åmål');
+  });
+
+  it('trims long titles to what Drive allows', () => {
+    const title = toBookAppProperties(book('Släktkrönika över '.repeat(10))).title!;
+    expect(byteLength('title' + title)).toBeLessThanOrEqual(124);
+    expect('Släktkrönika över '.repeat(10).startsWith(title)).toBe(true);
+  });
+
+  it('never cuts an emoji in half', () => {
+    const title = toBookAppProperties(book('a' + '👵'.repeat(40))).title!;
+    expect(title).toBe('a' + '👵'.repeat(29));
+    expect(/[\uD800-\uDBFF](?![\uDC00-\uDFFF])/.test(title)).toBe(false);
+  });
+
+  it('round-trips through fromBookAppProperties', () => {
+    const props = toBookAppProperties(book('Mormors brev')) as Record<string, string>;
+    expect(fromBookAppProperties(props)).toMatchObject({ itemCount: 0, chunkCount: 0 });
+  });
+});
@@ -0,0 +1,53 @@
+
+import { MemoryBook, BookSummary, FileType } from '../types';
+import { PROJECT_SCHEMA_VERSION } from './projectSchema';
+
+// Key facts about a book, written to its Drive folder's appProperties on every save.
+// The Dashboard reads them from the folder listing instead of opening each project.json.
+
+// Drive allows 124 bytes per property, key and value together (UTF-8)
+const MAX_PROPERTY_BYTES = 124;
+
+// Trims whole code points, so an emoji at the cut is dropped rather than split into a lone surrogate
+const fitProperty = (key: string, value: string): string => {
+  const encoder = new TextEncoder();
+  const codePoints = Array.from(value);
+  while (encoder.encode(key + codePoints.join('')).length > MAX_PROPERTY_BYTES) codePoints.pop();
+  return codePoints.join('');
+};
+
+// First item backed by a Drive file, unless the user picked a cover
+const findCoverId = (book: MemoryBook): string | undefined => {
+  if (book.coverImageId && book.items.some(i => i.id === book.coverImageId && !i.isLocal)) return book.coverImageId;
+  return book.items.find(i => !i.isLocal && (i.type === FileType.IMAGE || i.type === FileType.PDF))?.id;
+};
+
+export const toBookAppProperties = (book: MemoryBook): Record<string, string | null> => {
+  const chunks = book.chunks || [];
+  return {
+    title: fitProperty('title', book.title),
+    itemCount: String(book.items.length),
+    coverId: findCoverId(book) || null,
+    chunkCount: String(chunks.length),
+    chunksSynced: String(chunks.filter(c => c.isSynced).length),
+    lastEditedAt: new Date().toISOString(),
+    schemaVersion: String(PROJECT_SCHEMA_VERSION)
+  };
+};
+
+// Undefined for folders that have never been saved with metadata
+export const fromBookAppProperties = (props?: Record<string, string>): BookSummary | undefined => {
+  if (!props || props.itemCount === undefined) return undefined;
+  const toNumber = (value?: string) => {
+    const n = value !== undefined ? parseInt(value) : NaN;
+    return isNaN(n) ? undefined : n;
+  };
+  return {
+    itemCount: toNumber(props.itemCount) || 0,
+    coverId: props.coverId,
+    chunkCount: toNumber(props.chunkCount),
+    chunksSynced: toNumber(props.chunksSynced),
+    lastEditedAt: props.lastEditedAt,
+    schemaVersion: toNumber(props.schemaVersion)
+  };
+};
@@ -0,0 +1,162 @@
+
+import { MemoryBook, DriveFile, FileType, RichTextLine } from '../types';
+import { BookStorageProvider } from './bookStorage';
+import { loadLocalBook } from './localBookStore';
+
+// Search over everything written in the books: titles, item names, the header and footer
+// lines of each page, transcripts and descriptions. The index is built in memory from the
+// full books, which come from the offline copies when we have them.
+
+export type SearchField = 'title' | 'name' | 'header' | 'footer' | 'transcript' | 'description';
+
+// Where a result leads: the tile in the book, and for page captions the page in FileEditorModal
+export interface SearchTarget {
+  itemId?: string;
+  pageIndex?: number;
+}
+
+export interface SearchHit extends SearchTarget {
+  bookId: string;
+  bookTitle: string;
+  itemName?: string;
+  field: SearchField;
+  snippet: string;
+  score: number;
+}
+
+interface SearchEntry extends SearchTarget {
+  bookId: string;
+  bookTitle: string;
+  itemName?: string;
+  field: SearchField;
+  text: string;
+  normalized: string;
+}
+
+export interface SearchIndex {
+  entries: SearchEntry[];
+  books: Record<string, MemoryBook>;
+}
+
+// A title or name match says more about the item than a word somewhere in a transcript
+const FIELD_WEIGHTS: Record<SearchField, number> = {
+  title: 5,
+  name: 4,
+  header: 3,
+  footer: 2,
+  description: 2,
+  transcript: 1
+};
+
+const SNIPPET_CONTEXT = 40;
+const MAX_HITS = 50;
+
+const normalize = (text: string) => text.normalize('NFC').toLocaleLowerCase('sv');
+
+const linesToText = (lines: RichTextLine[] | undefined) => (lines || []).map(l => l.text).filter(Boolean).join(' ');
+
+const itemEntries = (book: MemoryBook, item: DriveFile): Omit<SearchEntry, 'normalized'>[] => {
+  const base = { bookId: book.id, bookTitle: book.title, itemId: item.id, itemName: item.name };
+  const entries: Omit<SearchEntry, 'normalized'>[] = [{ ...base, field: 'name', text: item.name }];
+  // Only pages of images and PDFs open in the page editor
+  const hasPages = item.type === FileType.IMAGE || item.type === FileType.PDF || item.type === FileType.GOOGLE_DOC;
+  Object.entries(item.pageMeta || {}).forEach(([page, meta]) => {
+    const pageIndex = hasPages ? Number(page) : undefined;
+    entries.push({ ...base, pageIndex, field: 'header', text: linesToText(meta.headerLines) });
+    entries.push({ ...base, pageIndex, field: 'footer', text: linesToText(meta.footerLines) });
+  });
+  // HEADER and TEXT items keep their content in the legacy fields
+  if (item.headerText) entries.push({ ...base, field: 'header', text: item.headerText });
+  if (item.description) entries.push({ ...base, field: 'description', text: item.description });
+  if (item.transcript) entries.push({ ...base, field: 'transcript', text: item.transcript });
+  return entries;
+};
+
+export const buildSearchIndex = (books: MemoryBook[]): SearchIndex => {
+  const entries: SearchEntry[] = [];
+  books.forEach(book => {
+    const raw = [
+      { bookId: book.id, bookTitle: book.title, field: 'title' as SearchField, text: book.title },
+      ...book.items.filter(i => i.id !== 'preview-cover').flatMap(item => itemEntries(book, item))
+    ];
+    raw.forEach(e => { if (e.text.trim()) entries.push({ ...e, normalized: normalize(e.text) }); });
+  });
+  return { entries, books: Object.fromEntries(books.map(b => [b.id, b])) };
+};
+
+const makeSnippet = (text: string, term: string) => {
+  const at = normalize(text).indexOf(term);
+  if (at < 0 || text.length <= SNIPPET_CONTEXT * 2) return text;
+  const start = Math.max(0, at - SNIPPET_CONTEXT);
+  const end = Math.min(text.length, at + term.length + SNIPPET_CONTEXT);
+  return `${start > 0 ? '…' : ''}${text.slice(start, end).trim()}${end < text.length ? '…' : ''}`;
+};
+
+// Every word of the query has to be found in the item (or in the title of its book, as long as
+// the item itself matches one of them). Best matches first.
+export const searchBooks = (index: SearchIndex, query: string, limit: number = MAX_HITS): SearchHit[] => {
+  const terms = normalize(query).split(/\s+/).filter(Boolean);
+  if (terms.length === 0) return [];
+
+  const groups = new Map<string, SearchEntry[]>();
+  index.entries.forEach(entry => {
+    const key = `${entry.bookId}|${entry.itemId || ''}`;
+    groups.set(key, [...(groups.get(key) || []), entry]);
+  });
+
+  const hits: SearchHit[] = [];
+  groups.forEach(entries => {
+    const ownText = entries.map(e => e.normalized).join(' ');
+    const titleText = entries[0].itemId ? normalize(entries[0].bookTitle) : '';
+    if (!terms.some(t => ownText.includes(t))) return;
+    if (!terms.every(t => ownText.includes(t) || titleText.includes(t))) return;
+
+    // The entry that matches most words is shown; captions win ties so the page can be opened
+    let best = entries[0];
+    let bestCount = -1;
+    let score = 0;
+    entries.forEach(entry => {
+      const count = terms.filter(t => entry.normalized.includes(t)).length;
+      score += count * FIELD_WEIGHTS[entry.field];
+      if (entry.normalized.includes(normalize(query.trim()))) score += FIELD_WEIGHTS[entry.field];
+      if (count > bestCount || (count === bestCount && count > 0 && best.pageIndex === undefined && entry.pageIndex !== undefined)) {
+        best = entry;
+        bestCount = count;
+      }
+    });
+
+    const term = terms.find(t => best.normalized.includes(t)) || terms[0];
+    hits.push({
+      bookId: best.bookId,
+      bookTitle: best.bookTitle,
+      itemId: best.itemId,
+      itemName: best.itemName,
+      pageIndex: best.pageIndex,
+      field: best.field,
+      snippet: makeSnippet(best.text, term),
+      score
+    });
+  });
+
+  return hits.sort((a, b) => b.score - a.score).slice(0, limit);
+};
+
+// Full contents of the listed books (the Dashboard only has titles and covers).
+// Offline copies are used when there are any; other books are loaded once and then cached by
+// the storage. onBook is called as each book arrives so results can show up while loading.
+export const collectSearchableBooks = async (
+  storage: BookStorageProvider | null | undefined,
+  books: MemoryBook[],
+  onBook: (book: MemoryBook) => void
+): Promise<void> => {
+  for (const book of books) {
+    let full = await loadLocalBook(book.id, false).catch(() => null);
+    if (!full && storage && (storage.canSave(book) || book.canEdit === false)) {
+      full = await storage.loadBook(book).catch(e => {
+        console.warn("Could not load book for search", book.title, e);
+        return null;
+      });
+    }
+    onBook(full ? { ...full, title: book.title } : book);
+  }
+};
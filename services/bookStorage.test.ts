@@ -0,0 +1,100 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { BookStorageProvider, createLocalFirstBookStorage, createMemoryBookStorage, purgeExpiredBooks, purgeExpiredBooksDaily } from './bookStorage';
+import { loadLocalBook, loadPendingSync, saveLocalBook, subscribeToBookSyncState } from './localBookStore';
+import { MemoryBook } from '../types';
+
+// No IndexedDB in Node: the local store keeps one queued book in memory
+vi.mock('./localBookStore', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('./localBookStore')>()),
+  saveLocalBook: vi.fn(async () => {}),
+  loadLocalBook: vi.fn(async () => null),
+  enqueueBookSync: vi.fn(async (bookId: string) => ({ bookId, queuedAt: 1, attempts: 0 })),
+  loadPendingSync: vi.fn(async () => null),
+  completeBookSync: vi.fn(async () => {}),
+  recordSyncFailure: vi.fn(async () => {})
+}));
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const book = (id: string): MemoryBook => ({ id, title: id, createdAt: '2020-01-01T00:00:00Z', items: [] });
+
+const trashedBook = (id: string, trashedAt?: string): MemoryBook => ({ ...book(id), trashedAt });
+
+const storageWithTrash = (trashed: MemoryBook[]) => {
+  const purgeBook = vi.fn(async () => {});
+  const storage: BookStorageProvider = { ...createMemoryBookStorage(), listTrashedBooks: async () => trashed, purgeBook };
+  return { storage, purgeBook };
+};
+
+describe('purgeExpiredBooks', () => {
+  beforeEach(() => {
+    const values = new Map<string, string>();
+    vi.stubGlobal('localStorage', {
+      getItem: (key: string) => values.get(key) ?? null,
+      setItem: (key: string, value: string) => { values.set(key, value); },
+      removeItem: (key: string) => { values.delete(key); }
+    });
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('purges books trashed longer ago than the retention period', async () => {
+    const old = trashedBook('old', new Date(Date.now() - 31 * DAY_MS).toISOString());
+    const recent = trashedBook('recent', new Date(Date.now() - 2 * DAY_MS).toISOString());
+    const { storage, purgeBook } = storageWithTrash([old, recent]);
+
+    expect(await purgeExpiredBooks(storage)).toEqual([old]);
+    expect(purgeBook).toHaveBeenCalledTimes(1);
+  });
+
+  it('leaves books without a recorded trash date alone', async () => {
+    const { storage, purgeBook } = storageWithTrash([trashedBook('legacy')]);
+    expect(await purgeExpiredBooks(storage)).toEqual([]);
+    expect(purgeBook).not.toHaveBeenCalled();
+  });
+
+  it('does nothing when automatic purging is off', async () => {
+    localStorage.setItem('trash_retention_days', 'never');
+    const { storage, purgeBook } = storageWithTrash([trashedBook('old', '2000-01-01T00:00:00Z')]);
+    await purgeExpiredBooks(storage);
+    expect(purgeBook).not.toHaveBeenCalled();
+  });
+
+  it('runs at most once a day per account', async () => {
+    const { storage, purgeBook } = storageWithTrash([trashedBook('old', '2000-01-01T00:00:00Z')]);
+    await purgeExpiredBooksDaily(storage, 'a@example.com');
+    await purgeExpiredBooksDaily(storage, 'a@example.com');
+    await purgeExpiredBooksDaily(storage, 'b@example.com');
+    expect(purgeBook).toHaveBeenCalledTimes(2);
+  });
+});
+
+describe('local-first saveBook', () => {
+  beforeEach(() => {
+    vi.stubGlobal('navigator', { onLine: true });
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('resolves once the book is stored locally, without waiting for Drive', async () => {
+    const saved = book('book-1');
+    vi.mocked(loadLocalBook).mockResolvedValue(saved);
+    vi.mocked(loadPendingSync).mockResolvedValue({ bookId: saved.id, queuedAt: 1, attempts: 0 });
+    let finishUpload = () => {};
+    const remote: BookStorageProvider = { ...createMemoryBookStorage(), saveBook: () => new Promise<void>(resolve => { finishUpload = resolve; }) };
+    const states: string[] = [];
+    subscribeToBookSyncState(saved.id, state => states.push(state.status));
+
+    await createLocalFirstBookStorage(remote).saveBook(saved);
+    expect(saveLocalBook).toHaveBeenCalledWith(saved);
+    await vi.waitFor(() => expect(states).toContain('syncing'));
+
+    vi.mocked(loadPendingSync).mockResolvedValue(null);
+    finishUpload();
+    await vi.waitFor(() => expect(states[states.length - 1]).toBe('synced'));
+  });
+});
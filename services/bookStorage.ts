@@ -0,0 +1,581 @@
+
+import { MemoryBook, FileType, BookRevision, BookCollaborator, BookRoot } from '../types';
+import {
+  createFolder,
+  fetchDriveFiles,
+  findFileInFolder,
+  findOrCreateFolder,
+  moveFile,
+  listDriveBookFolders,
+  fetchProjectState,
+  saveProjectState,
+  listProjectRevisions,
+  fetchProjectRevision,
+  isKnownProjectRevision,
+  setAppProperties,
+  deleteFilePermanently,
+  listTrashedBookFolders,
+  fetchBookCovers,
+  renameBookArtifacts,
+  listBookCollaborators,
+  shareBookFolder,
+  updateBookCollaboratorRole,
+  revokeBookCollaborator,
+  leaveSharedBook,
+  uploadToDrive,
+  UploadOptions,
+  SaveProjectOptions
+} from './driveService';
+import { DriveApiError, describeDriveError } from './driveClient';
+import { ProjectConflictError, mergeItems } from './projectMerge';
+import { watchDriveChanges } from './driveChanges';
+import { FOLDER_MIME_TYPE } from './driveQuery';
+import { fromBookAppProperties } from './bookMetadata';
+import {
+  saveLocalBook,
+  loadLocalBook,
+  restoreLocalCaches,
+  listLocalBooks,
+  deleteLocalBook,
+  enqueueBookSync,
+  listPendingSyncs,
+  loadPendingSync,
+  completeBookSync,
+  recordSyncFailure,
+  setBookSyncState,
+  subscribeToBookSyncState,
+  BookSyncState
+} from './localBookStore';
+
+// Where books are persisted. App and StoryEditor only talk to this interface,
+// so a book can live on Google Drive or somewhere else (in memory, IndexedDB...).
+export interface BookStorageProvider {
+  kind: 'drive' | 'memory';
+  // Shallow book list for the Dashboard (items may only contain a cover preview)
+  listBooks: () => Promise<MemoryBook[]>;
+  // Cover thumbnail URLs for listed books, by book id. Slower than listBooks, so loaded afterwards.
+  loadCovers?: (books: MemoryBook[]) => Promise<Record<string, string>>;
+  // Creates an empty book. Throws Error("DUPLICATE_NAME") if the title is taken.
+  createBook: (title: string) => Promise<MemoryBook>;
+  // Loads the full saved state, or null if the book has never been saved
+  loadBook: (book: MemoryBook) => Promise<MemoryBook | null>;
+  // Resolves with the merged book when changes saved elsewhere had to be merged in.
+  // Throws ProjectConflictError when both sides changed the same items.
+  saveBook: (book: MemoryBook, options?: SaveBookOptions) => Promise<MemoryBook | void>;
+  // Whether saveBook/uploadArtifact can persist this book at all (false for read-only shared books)
+  canSave: (book: MemoryBook) => boolean;
+  // Throws Error("DUPLICATE_NAME") if another book already has the title
+  renameBook: (book: MemoryBook, oldTitle: string, newTitle: string) => Promise<void>;
+  // Stores a generated file (chunk PDF, exported image...) next to the book. Returns its id.
+  uploadArtifact: (book: MemoryBook, filename: string, blob: Blob, mimeType: string, options?: UploadOptions) => Promise<string | undefined>;
+  // Books shared with me are not trashed, I just lose access to them
+  trashBook: (book: MemoryBook) => Promise<void>;
+  // Version history, for providers that keep one. Revisions are listed oldest first.
+  listRevisions?: (book: MemoryBook) => Promise<BookRevision[]>;
+  loadRevision?: (book: MemoryBook, revisionId: string) => Promise<MemoryBook | null>;
+  // Papperskorg, for providers where trashBook keeps the book around
+  listTrashedBooks?: () => Promise<MemoryBook[]>;
+  // Throws Error("DUPLICATE_NAME") if a book with the same title exists again
+  restoreBook?: (book: MemoryBook) => Promise<void>;
+  // Deletes the book and all its files for good
+  purgeBook?: (book: MemoryBook) => Promise<void>;
+  // Sharing with relatives, for providers where others can be given access to a book
+  listCollaborators?: (book: MemoryBook) => Promise<BookCollaborator[]>;
+  inviteCollaborator?: (book: MemoryBook, email: string, role: 'reader' | 'writer', message?: string) => Promise<void>;
+  updateCollaborator?: (book: MemoryBook, permissionId: string, role: 'reader' | 'writer') => Promise<void>;
+  removeCollaborator?: (book: MemoryBook, permissionId: string) => Promise<void>;
+  // Reports books changed elsewhere (other devices, drive.google.com). Returns an unsubscribe function.
+  watchChanges?: (listener: (event: BookChangeEvent) => void) => () => void;
+  // Local-first providers only: push queued changes and report per-book sync state
+  syncPending?: () => Promise<void>;
+  subscribeSyncState?: (bookId: string, listener: (state: BookSyncState) => void) => () => void;
+}
+
+export type SaveBookOptions = SaveProjectOptions;
+
+export type BookChangeEvent =
+  | { type: 'bookUpserted', book: MemoryBook } // Created or renamed; items are not loaded
+  | { type: 'bookRemoved', bookId: string }    // Trashed, deleted or moved away (may not be a book we know)
+  | { type: 'bookContentChanged', bookId: string }; // Saved from somewhere else
+
+// --- GOOGLE DRIVE ---
+
+export const BOOKS_ROOT_FOLDER = 'Dela din historia';
+export const TRASH_FOLDER = 'Papperskorg';
+
+// Books live in bookRoot when one is chosen (any folder, also in a Shared Drive),
+// otherwise in "Dela din historia" at the top of My Drive.
+// With accountEmail set, books are tagged with the account and books of other accounts are refused.
+export const createDriveBookStorage = (accessToken: string, bookRoot: BookRoot | null = null, accountEmail?: string): BookStorageProvider => {
+  const driveId = bookRoot?.driveId;
+  const bind = (book: MemoryBook): MemoryBook => accountEmail ? { ...book, accountEmail } : book;
+
+  const findBooksRoot = async (): Promise<string | null> =>
+    bookRoot ? bookRoot.folderId : await findFileInFolder(accessToken, 'root', BOOKS_ROOT_FOLDER);
+
+  const ensureBooksRoot = async (): Promise<string> =>
+    await findBooksRoot() || await createFolder(accessToken, 'root', BOOKS_ROOT_FOLDER);
+
+  const findSiblingWithTitle = async (rootId: string, title: string, excludeId?: string) => {
+    const siblings = await fetchDriveFiles(accessToken, rootId, driveId);
+    return siblings.find(f =>
+      f.type === FileType.FOLDER && f.name.toLowerCase() === title.toLowerCase() && f.id !== excludeId
+    );
+  };
+
+  return {
+    kind: 'drive',
+
+    listBooks: async () => (await listDriveBookFolders(accessToken, bookRoot)).map(bind),
+
+    loadCovers: (books) => fetchBookCovers(accessToken, books),
+
+    createBook: async (title) => {
+      const rootId = await ensureBooksRoot();
+      if (await findSiblingWithTitle(rootId, title)) throw new Error("DUPLICATE_NAME");
+      const folderId = await createFolder(accessToken, rootId, title);
+      return bind({
+        id: folderId, // Use folder ID as book ID
+        title,
+        createdAt: new Date().toISOString(),
+        items: [],
+        driveFolderId: folderId,
+        driveId
+      });
+    },
+
+    loadBook: async (book) => {
+      if (!book.driveFolderId) return null;
+      const saved = await fetchProjectState(accessToken, book.driveFolderId, book.driveId);
+      return saved && bind(saved);
+    },
+
+    saveBook: (book, options) => saveProjectState(accessToken, book, options),
+
+    canSave: (book) => !!book.driveFolderId && book.canEdit !== false
+      && (!accountEmail || !book.accountEmail || book.accountEmail === accountEmail),
+
+    renameBook: async (book, oldTitle, newTitle) => {
+      if (!book.driveFolderId) return;
+      // Shared books live in the owner's Drive, next to books we can't see
+      if (book.sharedBy) return await renameBookArtifacts(accessToken, book.driveFolderId, oldTitle, newTitle, book.driveId);
+      const rootId = await findBooksRoot();
+      if (!rootId) return;
+      if (await findSiblingWithTitle(rootId, newTitle, book.driveFolderId)) throw new Error("DUPLICATE_NAME");
+      await renameBookArtifacts(accessToken, book.driveFolderId, oldTitle, newTitle, book.driveId);
+    },
+
+    uploadArtifact: async (book, filename, blob, mimeType, options) => {
+      if (!book.driveFolderId) return undefined;
+      return await uploadToDrive(accessToken, book.driveFolderId, filename, blob, mimeType, { ...options, driveId: book.driveId });
+    },
+
+    // Books are never deleted outright; they are moved to a trash folder next to the books
+    trashBook: async (book) => {
+      if (!book.driveFolderId) return;
+      if (book.sharedBy) return await leaveSharedBook(accessToken, book.driveFolderId);
+      const rootId = await findBooksRoot();
+      if (!rootId) return;
+      const trashId = await findOrCreateFolder(accessToken, rootId, TRASH_FOLDER, driveId);
+      await moveFile(accessToken, book.driveFolderId, trashId);
+      // Shown in the trash view and used for automatic purging
+      await setAppProperties(accessToken, book.driveFolderId, { trashedAt: new Date().toISOString() })
+        .catch(e => console.warn("Could not record trash date", e));
+    },
+
+    listTrashedBooks: async () => {
+      const rootId = await findBooksRoot();
+      if (!rootId) return [];
+      const trashId = await findFileInFolder(accessToken, rootId, TRASH_FOLDER, driveId);
+      if (!trashId) return [];
+      return (await listTrashedBookFolders(accessToken, trashId, driveId)).map(bind);
+    },
+
+    restoreBook: async (book) => {
+      if (!book.driveFolderId) return;
+      const rootId = await ensureBooksRoot();
+      if (await findSiblingWithTitle(rootId, book.title, book.driveFolderId)) throw new Error("DUPLICATE_NAME");
+      await moveFile(accessToken, book.driveFolderId, rootId);
+      await setAppProperties(accessToken, book.driveFolderId, { trashedAt: null })
+        .catch(e => console.warn("Could not clear trash date", e));
+    },
+
+    purgeBook: async (book) => {
+      if (!book.driveFolderId) return;
+      await deleteFilePermanently(accessToken, book.driveFolderId);
+    },
+
+    listRevisions: async (book) => {
+      if (!book.driveFolderId) return [];
+      return await listProjectRevisions(accessToken, book.driveFolderId, book.driveId);
+    },
+
+    loadRevision: async (book, revisionId) => {
+      if (!book.driveFolderId) return null;
+      return await fetchProjectRevision(accessToken, book.driveFolderId, revisionId, book.driveId);
+    },
+
+    listCollaborators: async (book) => {
+      if (!book.driveFolderId) return [];
+      return await listBookCollaborators(accessToken, book.driveFolderId);
+    },
+
+    inviteCollaborator: async (book, email, role, message) => {
+      if (!book.driveFolderId) return;
+      await shareBookFolder(accessToken, book.driveFolderId, email, role, message);
+    },
+
+    updateCollaborator: async (book, permissionId, role) => {
+      if (!book.driveFolderId) return;
+      await updateBookCollaboratorRole(accessToken, book.driveFolderId, permissionId, role);
+    },
+
+    removeCollaborator: async (book, permissionId) => {
+      if (!book.driveFolderId) return;
+      await revokeBookCollaborator(accessToken, book.driveFolderId, permissionId);
+    },
+
+    watchChanges: (listener) => {
+      let rootId: string | null = null;
+      return watchDriveChanges(accessToken, async (changes) => {
+        if (!rootId) rootId = await findBooksRoot().catch(() => null);
+        for (const change of changes) {
+          const file = change.file;
+          if (change.removed || !file || file.trashed) {
+            listener({ type: 'bookRemoved', bookId: change.fileId });
+            continue;
+          }
+
+          if (file.mimeType === FOLDER_MIME_TYPE) {
+            const book: MemoryBook = {
+              id: file.id,
+              title: file.name,
+              createdAt: file.createdTime || new Date().toISOString(),
+              items: [],
+              driveFolderId: file.id,
+              driveId: file.driveId,
+              summary: fromBookAppProperties(file.appProperties)
+            };
+            if (rootId && file.parents?.includes(rootId) && file.name !== TRASH_FOLDER) {
+              listener({ type: 'bookUpserted', book: bind(book) });
+            } else if (file.ownedByMe === false && !file.driveId && book.summary) {
+              // A book someone shared with me (see listDriveBookFolders)
+              const owner = file.owners?.[0];
+              listener({
+                type: 'bookUpserted',
+                book: bind({ ...book, sharedBy: owner?.displayName || owner?.emailAddress || 'okänd', canEdit: file.capabilities?.canEdit !== false })
+              });
+            } else {
+              // Moved out of the books folder, e.g. into Papperskorg
+              listener({ type: 'bookRemoved', bookId: file.id });
+            }
+            continue;
+          }
+
+          // Our own saves come back through the feed too; skip those
+          const folderId = file.parents?.[0];
+          if (file.name === 'project.json' && folderId && !isKnownProjectRevision(folderId, file.headRevisionId)) {
+            listener({ type: 'bookContentChanged', bookId: folderId });
+          }
+        }
+      }, { accountEmail });
+    }
+  };
+};
+
+// --- BOOK ROOT ---
+
+const BOOK_ROOT_KEY = 'book_root';
+
+// A folder in one account means nothing in another, so the choice is stored per account
+const bookRootKey = (accountEmail: string) => `${BOOK_ROOT_KEY}:${accountEmail}`;
+
+// The folder chosen for books, or null for the default "Dela din historia" in My Drive
+export const loadBookRoot = (accountEmail: string): BookRoot | null => {
+  try {
+    // Chosen before accounts had their own setting
+    const saved = localStorage.getItem(bookRootKey(accountEmail)) ?? localStorage.getItem(BOOK_ROOT_KEY);
+    return saved ? JSON.parse(saved) : null;
+  } catch {
+    return null;
+  }
+};
+
+export const saveBookRoot = (accountEmail: string, root: BookRoot | null) => {
+  localStorage.removeItem(BOOK_ROOT_KEY);
+  if (root) localStorage.setItem(bookRootKey(accountEmail), JSON.stringify(root));
+  else localStorage.removeItem(bookRootKey(accountEmail));
+};
+
+// --- TRASH RETENTION ---
+
+const TRASH_RETENTION_KEY = 'trash_retention_days';
+export const DEFAULT_TRASH_RETENTION_DAYS = 30;
+
+// Days a trashed book is kept before it is purged automatically. null = keep until purged by hand.
+export const loadTrashRetentionDays = (): number | null => {
+  const saved = localStorage.getItem(TRASH_RETENTION_KEY);
+  if (saved === null) return DEFAULT_TRASH_RETENTION_DAYS;
+  if (saved === 'never') return null;
+  const days = parseInt(saved);
+  return isNaN(days) ? DEFAULT_TRASH_RETENTION_DAYS : days;
+};
+
+export const saveTrashRetentionDays = (days: number | null) => {
+  localStorage.setItem(TRASH_RETENTION_KEY, days === null ? 'never' : String(days));
+};
+
+// Purges trashed books older than the retention period. Books without a recorded trash date
+// are left for the user to purge by hand. Returns the purged books.
+export const purgeExpiredBooks = async (storage: BookStorageProvider): Promise<MemoryBook[]> => {
+  const retentionDays = loadTrashRetentionDays();
+  if (retentionDays === null || !storage.listTrashedBooks || !storage.purgeBook) return [];
+
+  const cutoff = Date.now() - retentionDays * 24 * 60 * 60 * 1000;
+  const expired = (await storage.listTrashedBooks()).filter(b => b.trashedAt && new Date(b.trashedAt).getTime() < cutoff);
+  const purged: MemoryBook[] = [];
+  for (const book of expired) {
+    try {
+      await storage.purgeBook(book);
+      purged.push(book);
+    } catch (e) {
+      console.warn(`Could not purge ${book.title}`, e);
+    }
+  }
+  return purged;
+};
+
+const LAST_PURGE_KEY = 'trash_last_purge';
+const PURGE_INTERVAL_MS = 24 * 60 * 60 * 1000;
+
+// At most once a day per account. App recreates its storage on every token refresh and account
+// switch, so this can't just run whenever a storage appears.
+export const purgeExpiredBooksDaily = async (storage: BookStorageProvider, accountEmail: string): Promise<MemoryBook[]> => {
+  const key = `${LAST_PURGE_KEY}:${accountEmail}`;
+  const lastRun = parseInt(localStorage.getItem(key) || '');
+  if (!isNaN(lastRun) && Date.now() - lastRun < PURGE_INTERVAL_MS) return [];
+  localStorage.setItem(key, String(Date.now()));
+  return purgeExpiredBooks(storage);
+};
+
+// --- IN MEMORY ---
+
+// Keeps everything in this tab only. Used when there is no Google account and for
+// exercising StoryEditor flows offline.
+export const createMemoryBookStorage = (initialBooks: MemoryBook[] = []): BookStorageProvider => {
+  const books = new Map<string, MemoryBook>(initialBooks.map(b => [b.id, b]));
+  const artifacts = new Map<string, { bookId: string, filename: string, blob: Blob, sourceKey?: string }>();
+
+  const findByTitle = (title: string, excludeId?: string) =>
+    Array.from(books.values()).find(b => b.title.toLowerCase() === title.toLowerCase() && b.id !== excludeId);
+
+  return {
+    kind: 'memory',
+
+    listBooks: async () => Array.from(books.values()),
+
+    createBook: async (title) => {
+      if (findByTitle(title)) throw new Error("DUPLICATE_NAME");
+      const book: MemoryBook = {
+        id: `local-book-${Date.now()}`,
+        title,
+        createdAt: new Date().toISOString(),
+        items: []
+      };
+      books.set(book.id, book);
+      return book;
+    },
+
+    loadBook: async (book) => books.get(book.id) || null,
+
+    saveBook: async (book) => {
+      books.set(book.id, book);
+    },
+
+    canSave: () => true,
+
+    renameBook: async (book, _oldTitle, newTitle) => {
+      if (findByTitle(newTitle, book.id)) throw new Error("DUPLICATE_NAME");
+      const stored = books.get(book.id);
+      if (stored) books.set(book.id, { ...stored, title: newTitle });
+    },
+
+    uploadArtifact: async (book, filename, blob, _mimeType, options) => {
+      // Same book + filename (or source key) overwrites, like the Drive provider
+      const existing = Array.from(artifacts.entries()).find(([, a]) => a.bookId === book.id &&
+        (options?.sourceKey ? a.sourceKey === options.sourceKey : (!a.sourceKey && a.filename === filename)));
+      const id = existing ? existing[0] : `local-artifact-${Date.now()}-${artifacts.size}`;
+      artifacts.set(id, { bookId: book.id, filename, blob, sourceKey: options?.sourceKey });
+      options?.onProgress?.(blob.size, blob.size);
+      return id;
+    },
+
+    trashBook: async (book) => {
+      books.delete(book.id);
+      Array.from(artifacts.entries()).forEach(([id, a]) => { if (a.bookId === book.id) artifacts.delete(id); });
+    }
+  };
+};
+
+// --- LOCAL FIRST (IndexedDB + background sync) ---
+
+// Per book, shared by every storage instance (one per account, recreated on token refresh)
+const pushQueues = new Map<string, Promise<unknown>>();
+const localWrites = new Map<string, Promise<unknown>>();
+
+// Runs the task once the previous task for the same book has finished, whatever its outcome
+const runInQueue = <T>(queues: Map<string, Promise<unknown>>, bookId: string, task: () => Promise<T>): Promise<T> => {
+  const run = (queues.get(bookId) || Promise.resolve()).catch(() => {}).then(task);
+  queues.set(bookId, run);
+  run.catch(() => {}).finally(() => { if (queues.get(bookId) === run) queues.delete(bookId); });
+  return run;
+};
+
+// Wraps a remote provider: every save lands in IndexedDB first and is queued for the
+// remote, so books open instantly and editing keeps working without a connection.
+export const createLocalFirstBookStorage = (remote: BookStorageProvider): BookStorageProvider => {
+  let isFlushing = false;
+
+  // Stores what is now on the remote as the local copy. Edits saved locally while the push
+  // ran are kept on top of it; they are still queued and go out with the next push.
+  const storeMergedBook = async (pushed: MemoryBook, queuedAt: number, merged: MemoryBook): Promise<MemoryBook> => {
+    const latest = await loadLocalBook(pushed.id, false);
+    const hasNewerEdits = latest && (await loadPendingSync(pushed.id))?.queuedAt !== queuedAt;
+    const book = hasNewerEdits ? { ...latest, items: mergeItems(pushed.items, latest.items, merged.items).items } : merged;
+    await saveLocalBook(book);
+    return book;
+  };
+
+  // Pushes the book's latest local version, if it still has one queued
+  const pushToRemote = async (bookId: string) => {
+    const entry = await loadPendingSync(bookId);
+    if (!entry) return;
+    const { queuedAt } = entry;
+    const book = await loadLocalBook(bookId, false);
+    if (!book) {
+      await completeBookSync(bookId, queuedAt);
+      return;
+    }
+    // Books of another signed-in account are pushed by that account's storage
+    if (!remote.canSave(book)) return;
+    setBookSyncState(bookId, { status: 'syncing' });
+    try {
+      const merged = await remote.saveBook(book, { resolvedRevision: entry.resolvedRevision });
+      const stored = merged ? await runInQueue(localWrites, bookId, () => storeMergedBook(book, queuedAt, merged)) : undefined;
+      await completeBookSync(bookId, queuedAt);
+      const isDone = !(await loadPendingSync(bookId));
+      setBookSyncState(bookId, { status: isDone ? 'synced' : 'pending', mergedBook: stored });
+    } catch (e) {
+      if (e instanceof ProjectConflictError) {
+        // Stays queued; the editor shows the conflict and saves the resolution
+        await recordSyncFailure(bookId, e.message);
+        setBookSyncState(bookId, { status: 'conflict', error: e.message, conflict: e });
+        return;
+      }
+      const error = describeDriveError(e);
+      await recordSyncFailure(bookId, error);
+      // Connection problems just wait for the next attempt; anything else needs attention
+      const isOffline = e instanceof DriveApiError && e.kind === 'network';
+      setBookSyncState(bookId, { status: isOffline ? 'pending' : 'failed', error });
+    }
+  };
+
+  // One push per book at a time, whether it comes from a save or from syncPending
+  const schedulePush = (bookId: string) => runInQueue(pushQueues, bookId, () => pushToRemote(bookId));
+
+  return {
+    kind: remote.kind,
+
+    // Offline, or when Drive can't be reached, the Dashboard lists the local copies instead.
+    // Books with edits that haven't reached Drive yet are listed either way.
+    listBooks: async () => {
+      // Leave out books that belong to another signed-in account
+      const localBooks = (await listLocalBooks().catch(() => [] as MemoryBook[]))
+        .filter(book => remote.canSave(book) || book.canEdit === false);
+      if (!navigator.onLine) return localBooks;
+
+      let remoteBooks: MemoryBook[];
+      try {
+        remoteBooks = await remote.listBooks();
+      } catch (e) {
+        console.warn("Remote listing failed, showing local books", e);
+        return localBooks;
+      }
+      const remoteIds = new Set(remoteBooks.map(b => b.id));
+      const pendingIds = new Set((await listPendingSyncs().catch(() => [])).map(p => p.bookId));
+      return [...remoteBooks, ...localBooks.filter(b => !remoteIds.has(b.id) && pendingIds.has(b.id))];
+    },
+
+    loadCovers: remote.loadCovers,
+
+    createBook: (title) => remote.createBook(title),
+
+    loadBook: async (book) => {
+      const local = await loadLocalBook(book.id).catch(() => null);
+      const pending = (await listPendingSyncs().catch(() => [])).some(p => p.bookId === book.id);
+
+      // Unsynced local edits win, and offline we use whatever we have
+      if (local && (pending || !navigator.onLine)) return local;
+
+      try {
+        const remoteBook = await remote.loadBook(book);
+        if (!remoteBook) return local;
+        const withCaches = await restoreLocalCaches(remoteBook);
+        await saveLocalBook(withCaches).catch(e => console.warn("Could not cache book locally", e));
+        return withCaches;
+      } catch (e) {
+        if (local) return local;
+        throw e;
+      }
+    },
+
+    // Done once the book is in IndexedDB. The push runs on its own; its progress, remote merges
+    // and conflicts are reported through subscribeSyncState.
+    saveBook: async (book, options) => {
+      await runInQueue(localWrites, book.id, async () => {
+        await saveLocalBook(book);
+        await enqueueBookSync(book.id, options?.resolvedRevision);
+      });
+      setBookSyncState(book.id, { status: 'pending' });
+      if (navigator.onLine && remote.canSave(book)) {
+        // Drive errors are handled in pushToRemote; this only catches the local store failing
+        schedulePush(book.id).catch(e => setBookSyncState(book.id, { status: 'failed', error: e.message }));
+      }
+    },
+
+    canSave: (book) => remote.canSave(book),
+
+    renameBook: (book, oldTitle, newTitle) => remote.renameBook(book, oldTitle, newTitle),
+
+    uploadArtifact: (book, filename, blob, mimeType, options) => remote.uploadArtifact(book, filename, blob, mimeType, options),
+
+    trashBook: async (book) => {
+      await remote.trashBook(book);
+      await deleteLocalBook(book.id).catch(e => console.warn("Could not remove local copy", e));
+    },
+
+    syncPending: async () => {
+      if (isFlushing || !navigator.onLine) return;
+      isFlushing = true;
+      try {
+        const pending = await listPendingSyncs();
+        for (const entry of pending) await schedulePush(entry.bookId);
+      } finally {
+        isFlushing = false;
+      }
+    },
+
+    subscribeSyncState: subscribeToBookSyncState,
+
+    listRevisions: remote.listRevisions,
+    loadRevision: remote.loadRevision,
+    listTrashedBooks: remote.listTrashedBooks,
+    restoreBook: remote.restoreBook,
+    purgeBook: remote.purgeBook,
+    listCollaborators: remote.listCollaborators,
+    inviteCollaborator: remote.inviteCollaborator,
+    updateCollaborator: remote.updateCollaborator,
+    removeCollaborator: remote.removeCollaborator,
+    watchChanges: remote.watchChanges
+  };
+};
@@ -0,0 +1,129 @@
+
+import { driveFetch, DriveApiError } from './driveClient';
+
+// Polls Drive's changes feed so edits made on other devices (or on drive.google.com)
+// show up without a reload. The page token is stored, so changes made while the app
+// was closed are picked up on the next start.
+
+const DRIVE_API_URL = 'https://www.googleapis.com/drive/v3';
+const CHANGES_TOKEN_KEY = 'drive_changes_page_token';
+const DEFAULT_POLL_INTERVAL_MS = 30 * 1000;
+
+export interface DriveChange {
+  fileId: string;
+  removed: boolean; // Deleted for good, or we lost access
+  file?: {
+    id: string;
+    name: string;
+    mimeType: string;
+    parents?: string[];
+    trashed?: boolean;
+    createdTime?: string;
+    headRevisionId?: string;
+    driveId?: string;
+    appProperties?: Record<string, string>;
+    ownedByMe?: boolean;
+    owners?: { displayName?: string; emailAddress?: string }[];
+    capabilities?: { canEdit?: boolean };
+  };
+}
+
+// Each signed-in account has its own change feed
+const pageTokenKey = (accountEmail?: string) => accountEmail ? `${CHANGES_TOKEN_KEY}:${accountEmail}` : CHANGES_TOKEN_KEY;
+
+const loadPageToken = (key: string): string | null => {
+  try {
+    return localStorage.getItem(key);
+  } catch {
+    return null;
+  }
+};
+
+const savePageToken = (key: string, token: string) => {
+  try {
+    localStorage.setItem(key, token);
+  } catch (e) {
+    console.warn("Could not persist changes token", e);
+  }
+};
+
+const fetchStartPageToken = async (accessToken: string): Promise<string> => {
+  const response = await driveFetch(accessToken, `${DRIVE_API_URL}/changes/startPageToken?supportsAllDrives=true`);
+  const data = await response.json();
+  return data.startPageToken;
+};
+
+// All changes since pageToken, and the token to continue from next time
+const fetchChangesSince = async (accessToken: string, pageToken: string): Promise<{ changes: DriveChange[], newStartPageToken: string }> => {
+  const changes: DriveChange[] = [];
+  let token = pageToken;
+
+  while (true) {
+    const params = new URLSearchParams({
+      pageToken: token,
+      fields: 'nextPageToken, newStartPageToken, changes(fileId, removed, file(id, name, mimeType, parents, trashed, createdTime, headRevisionId, driveId, appProperties, ownedByMe, owners(displayName, emailAddress), capabilities(canEdit)))',
+      pageSize: '1000',
+      includeItemsFromAllDrives: 'true',
+      supportsAllDrives: 'true'
+    });
+    const response = await driveFetch(accessToken, `${DRIVE_API_URL}/changes?${params.toString()}`, {}, {
+      errorMessage: 'Kunde inte hämta ändringar från Drive'
+    });
+    const data = await response.json();
+    changes.push(...(data.changes || []).filter((c: any) => c.fileId));
+
+    if (data.newStartPageToken) return { changes, newStartPageToken: data.newStartPageToken };
+    token = data.nextPageToken;
+  }
+};
+
+export interface WatchChangesOptions {
+  intervalMs?: number;
+  accountEmail?: string; // Keeps the stored position separate per account
+}
+
+// Calls onChanges with each batch of changes. Returns a function that stops watching.
+export const watchDriveChanges = (
+  accessToken: string,
+  onChanges: (changes: DriveChange[]) => void,
+  { intervalMs = DEFAULT_POLL_INTERVAL_MS, accountEmail }: WatchChangesOptions = {}
+): (() => void) => {
+  const tokenKey = pageTokenKey(accountEmail);
+  let isStopped = false;
+  let isPolling = false;
+
+  const poll = async () => {
+    // Nobody is looking at a hidden tab; catch up when it becomes visible
+    if (isStopped || isPolling || document.hidden || !navigator.onLine) return;
+    isPolling = true;
+    try {
+      const storedToken = loadPageToken(tokenKey);
+      if (!storedToken) {
+        savePageToken(tokenKey, await fetchStartPageToken(accessToken));
+        return;
+      }
+      const { changes, newStartPageToken } = await fetchChangesSince(accessToken, storedToken);
+      if (isStopped) return;
+      if (changes.length > 0) onChanges(changes);
+      savePageToken(tokenKey, newStartPageToken);
+    } catch (e) {
+      // Tokens expire after a long time offline; start over from now
+      if (e instanceof DriveApiError && (e.kind === 'notFound' || e.status === 400)) {
+        try { localStorage.removeItem(tokenKey); } catch {}
+      }
+      console.warn("Polling Drive changes failed", e);
+    } finally {
+      isPolling = false;
+    }
+  };
+
+  poll();
+  const interval = setInterval(poll, intervalMs);
+  document.addEventListener('visibilitychange', poll);
+
+  return () => {
+    isStopped = true;
+    clearInterval(interval);
+    document.removeEventListener('visibilitychange', poll);
+  };
+};
@@ -0,0 +1,53 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { driveFetch, DriveApiError } from './driveClient';
+
+const URL = 'https://www.googleapis.com/drive/v3/files';
+
+const respond = (status: number) => new Response(status >= 400 ? '{}' : null, { status });
+
+describe('driveFetch retries', () => {
+  let fetchMock: ReturnType<typeof vi.fn>;
+
+  beforeEach(() => {
+    fetchMock = vi.fn();
+    vi.stubGlobal('fetch', fetchMock);
+    vi.spyOn(Math, 'random').mockReturnValue(0); // No backoff delay
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+  });
+
+  it('retries a GET after a 5xx', async () => {
+    fetchMock.mockResolvedValueOnce(respond(503)).mockResolvedValueOnce(respond(200));
+    const response = await driveFetch('token', URL);
+    expect(response.status).toBe(200);
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+  });
+
+  it('does not repeat a POST after a 5xx', async () => {
+    fetchMock.mockResolvedValue(respond(500));
+    await expect(driveFetch('token', URL, { method: 'POST' })).rejects.toMatchObject({ kind: 'server' });
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+
+  it('does not repeat a POST after a network error', async () => {
+    fetchMock.mockRejectedValue(new TypeError('Failed to fetch'));
+    await expect(driveFetch('token', URL, { method: 'POST' })).rejects.toBeInstanceOf(DriveApiError);
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+
+  it('retries a rate limited POST', async () => {
+    fetchMock.mockResolvedValueOnce(respond(429)).mockResolvedValueOnce(respond(200));
+    await driveFetch('token', URL, { method: 'POST' });
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+  });
+
+  it('leaves a PUT marked as not idempotent to the caller', async () => {
+    fetchMock.mockResolvedValue(respond(502));
+    await expect(driveFetch(null, URL, { method: 'PUT' }, { idempotent: false })).rejects.toMatchObject({ kind: 'server' });
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,178 @@
+
+// Shared request layer for all Google Drive calls.
+// Handles retries with exponential backoff, expired tokens and maps Drive's error payloads
+// to typed errors so the UI can show something more useful than "Kunde inte spara".
+
+export type DriveErrorKind =
+  | 'auth'          // 401 - token expired or revoked
+  | 'quota'         // Drive storage is full
+  | 'rateLimit'     // Too many requests, still failing after retries
+  | 'notFound'      // 404 - file or folder is gone
+  | 'forbidden'     // 403 - no permission to the file
+  | 'network'       // No connection / request never reached Drive
+  | 'server'        // 5xx after retries
+  | 'unknown';
+
+export class DriveApiError extends Error {
+  kind: DriveErrorKind;
+  status: number;
+  reason?: string;
+
+  constructor(kind: DriveErrorKind, status: number, message: string, reason?: string) {
+    super(message);
+    this.name = 'DriveApiError';
+    this.kind = kind;
+    this.status = status;
+    this.reason = reason;
+  }
+}
+
+const MAX_RETRIES = 4;
+const BASE_DELAY_MS = 500;
+const MAX_DELAY_MS = 16000;
+
+// Repeating these has the same effect as sending them once. Drive's PATCH only sets fields.
+const IDEMPOTENT_METHODS = ['GET', 'HEAD', 'OPTIONS', 'PUT', 'PATCH', 'DELETE'];
+
+const RETRYABLE_REASONS = ['rateLimitExceeded', 'userRateLimitExceeded', 'backendError', 'internalError'];
+const QUOTA_REASONS = ['storageQuotaExceeded', 'quotaExceeded', 'teamDriveFileLimitExceeded'];
+
+const sleep = (ms: number) => new Promise(r => setTimeout(r, ms));
+
+// Full jitter keeps parallel uploads from retrying in lockstep
+const backoffDelay = (attempt: number, retryAfterHeader: string | null) => {
+  const retryAfterSec = retryAfterHeader ? parseInt(retryAfterHeader) : NaN;
+  if (!isNaN(retryAfterSec)) return Math.min(retryAfterSec * 1000, MAX_DELAY_MS);
+  const cap = Math.min(MAX_DELAY_MS, BASE_DELAY_MS * Math.pow(2, attempt));
+  return Math.random() * cap;
+};
+
+// --- TOKEN REFRESH ---
+
+// App registers a callback that asks Google for a new access token (via its token client).
+// It gets the expired token so it knows which signed-in account to renew.
+// Resolves with the new token, or null if the user declined.
+type TokenRefresher = (expiredToken: string) => Promise<string | null>;
+
+let tokenRefresher: TokenRefresher | null = null;
+const pendingRefreshes = new Map<string, Promise<string | null>>();
+
+export const setDriveTokenRefresher = (refresher: TokenRefresher | null) => {
+  tokenRefresher = refresher;
+};
+
+const refreshAccessToken = async (expiredToken: string): Promise<string | null> => {
+  if (!tokenRefresher) return null;
+  // Many requests may hit 401 at once; only prompt once per account
+  let pending = pendingRefreshes.get(expiredToken);
+  if (!pending) {
+    pending = tokenRefresher(expiredToken).finally(() => { pendingRefreshes.delete(expiredToken); });
+    pendingRefreshes.set(expiredToken, pending);
+  }
+  return pending;
+};
+
+// --- ERROR MAPPING ---
+
+const readErrorReason = async (response: Response): Promise<{ reason?: string, message?: string }> => {
+  try {
+    const body = await response.clone().json();
+    return { reason: body?.error?.errors?.[0]?.reason, message: body?.error?.message };
+  } catch {
+    return {};
+  }
+};
+
+const toDriveError = (status: number, reason: string | undefined, fallbackMessage: string): DriveApiError => {
+  if (status === 401) return new DriveApiError('auth', status, 'Din inloggning mot Google Drive har gått ut.', reason);
+  if (reason && QUOTA_REASONS.includes(reason)) return new DriveApiError('quota', status, 'Ditt lagringsutrymme på Google Drive är fullt.', reason);
+  if (status === 429 || (reason && RETRYABLE_REASONS.includes(reason) && status === 403)) {
+    return new DriveApiError('rateLimit', status, 'Google Drive är överbelastat just nu.', reason);
+  }
+  if (status === 404) return new DriveApiError('notFound', status, 'Filen eller mappen hittades inte på Drive.', reason);
+  if (status === 403) return new DriveApiError('forbidden', status, 'Du saknar behörighet till filen på Drive.', reason);
+  if (status >= 500) return new DriveApiError('server', status, 'Google Drive svarar inte just nu.', reason);
+  return new DriveApiError('unknown', status, fallbackMessage, reason);
+};
+
+// Human readable, actionable text for any error thrown by the Drive services
+export const describeDriveError = (e: unknown, fallback: string = 'Något gick fel mot Google Drive.'): string => {
+  if (!(e instanceof DriveApiError)) return fallback;
+  switch (e.kind) {
+    case 'auth': return 'Inloggningen har gått ut. Logga in igen för att fortsätta spara.';
+    case 'quota': return 'Din Google Drive är full. Frigör utrymme och försök igen.';
+    case 'rateLimit': return 'Google Drive är överbelastat. Vänta en stund och försök igen.';
+    case 'notFound': return 'Filen finns inte längre på Drive. Den kan ha raderats eller flyttats.';
+    case 'forbidden': return 'Du saknar behörighet. Be ägaren att dela mappen med dig.';
+    case 'network': return 'Ingen anslutning. Kontrollera internet och försök igen.';
+    case 'server': return 'Google Drive svarar inte just nu. Försök igen om en stund.';
+    default: return e.message || fallback;
+  }
+};
+
+// --- REQUEST ---
+
+interface DriveFetchOptions {
+  // Message used when Drive returns an error we can't classify
+  errorMessage?: string;
+  // Treat these statuses as success and return the response (e.g. 308 for resumable uploads)
+  acceptStatus?: number[];
+  // Whether the request may be sent again after a network error or 5xx, when Drive may already
+  // have carried it out. Defaults to true for idempotent methods; a POST that creates a folder or
+  // sends an invitation must not be repeated blindly.
+  idempotent?: boolean;
+}
+
+export const driveFetch = async (
+  accessToken: string | null,
+  url: string,
+  init: RequestInit = {},
+  options: DriveFetchOptions = {}
+): Promise<Response> => {
+  const errorMessage = options.errorMessage || 'Anropet till Google Drive misslyckades';
+  let token = accessToken;
+  let hasRefreshed = false;
+  const idempotent = options.idempotent ?? IDEMPOTENT_METHODS.includes((init.method || 'GET').toUpperCase());
+
+  for (let attempt = 0; ; attempt++) {
+    const headers = new Headers(init.headers);
+    if (token) headers.set('Authorization', `Bearer ${token}`);
+
+    let response: Response;
+    try {
+      response = await fetch(url, { ...init, headers });
+    } catch (e) {
+      if (idempotent && attempt < MAX_RETRIES) {
+        await sleep(backoffDelay(attempt, null));
+        continue;
+      }
+      throw new DriveApiError('network', 0, 'Ingen anslutning till Google Drive.');
+    }
+
+    if (response.ok || options.acceptStatus?.includes(response.status)) return response;
+
+    const { reason, message } = await readErrorReason(response);
+
+    if (response.status === 401 && token && !hasRefreshed) {
+      hasRefreshed = true;
+      const newToken = await refreshAccessToken(token);
+      if (newToken) {
+        token = newToken;
+        continue;
+      }
+    }
+
+    // Rate limited requests were turned away before Drive did anything, so any method may retry
+    const isRetryable = response.status === 429
+      || (response.status >= 500 && idempotent)
+      || (response.status === 403 && !!reason && RETRYABLE_REASONS.includes(reason));
+
+    if (isRetryable && attempt < MAX_RETRIES) {
+      await sleep(backoffDelay(attempt, response.headers.get('Retry-After')));
+      continue;
+    }
+
+    console.error("Drive Error:", response.status, reason, message);
+    throw toDriveError(response.status, reason, errorMessage);
+  }
+};
@@ -0,0 +1,46 @@
+import { describe, expect, it } from 'vitest';
+import { and, escapeQueryValue, inParents, nameEquals, notTrashed, or } from './driveQuery';
+
+const TRICKY_NAME = `Farfar's "båt" \\ 1920`;
+
+describe('escapeQueryValue', () => {
+  it('leaves Swedish characters and double quotes alone', () => {
+    expect(escapeQueryValue('Mormors "brev" från Åre, Älvsbyn och Örebro')).toBe('Mormors "brev" från Åre, Älvsbyn och Örebro');
+  });
+
+  it('escapes apostrophes', () => {
+    expect(escapeQueryValue("Mormors 'Amerikabrev'")).toBe("Mormors \\'Amerikabrev\\'");
+  });
+
+  it('escapes backslashes before apostrophes', () => {
+    expect(escapeQueryValue("C:\\Bilder\\")).toBe('C:\\\\Bilder\\\\');
+    expect(escapeQueryValue("\\'")).toBe("\\\\\\'");
+  });
+});
+
+describe('nameEquals', () => {
+  it('quotes and escapes the name', () => {
+    expect(nameEquals(TRICKY_NAME)).toBe(`name = 'Farfar\\'s "båt" \\\\ 1920'`);
+  });
+
+  it('keeps å, ä and ö as they are', () => {
+    expect(nameEquals('Släktträd över Öhman')).toBe("name = 'Släktträd över Öhman'");
+  });
+});
+
+describe('and / or', () => {
+  it('joins clauses and skips empty ones', () => {
+    expect(and(nameEquals(TRICKY_NAME), false, null, undefined, '', notTrashed()))
+      .toBe(`name = 'Farfar\\'s "båt" \\\\ 1920' and trashed = false`);
+  });
+
+  it('parenthesizes or() so it combines with and()', () => {
+    expect(and(inParents('folder-1'), or(nameEquals('å'), nameEquals("ö'"))))
+      .toBe("'folder-1' in parents and (name = 'å' or name = 'ö\\'')");
+  });
+
+  it('does not wrap a single or() clause', () => {
+    expect(or(false, nameEquals('ä'))).toBe("name = 'ä'");
+    expect(or()).toBe('');
+  });
+});
@@ -0,0 +1,42 @@
+
+// Builds search queries for Drive's `q` parameter.
+// Values are always quoted and escaped, so names like "Mormors 'Amerikabrev'" or
+// "C:\Bilder" can't break the query or match the wrong file.
+// https://developers.google.com/drive/api/guides/ref-search-terms
+
+export const FOLDER_MIME_TYPE = 'application/vnd.google-apps.folder';
+
+// Inside a quoted string Drive only treats \ and ' specially
+export const escapeQueryValue = (value: string): string =>
+  value.replace(/\\/g, '\\\\').replace(/'/g, "\\'");
+
+const quote = (value: string) => `'${escapeQueryValue(value)}'`;
+
+export const nameEquals = (name: string) => `name = ${quote(name)}`;
+export const nameContains = (text: string) => `name contains ${quote(text)}`;
+export const fullTextContains = (text: string) => `fullText contains ${quote(text)}`;
+export const inParents = (folderId: string) => `${quote(folderId)} in parents`;
+export const mimeTypeEquals = (mimeType: string) => `mimeType = ${quote(mimeType)}`;
+export const mimeTypeContains = (text: string) => `mimeType contains ${quote(text)}`;
+export const isFolder = () => mimeTypeEquals(FOLDER_MIME_TYPE);
+export const notFolder = () => `mimeType != ${quote(FOLDER_MIME_TYPE)}`;
+// Times are RFC 3339, e.g. new Date().toISOString()
+export const modifiedAfter = (time: string) => `modifiedTime >= ${quote(time)}`;
+export const modifiedBefore = (time: string) => `modifiedTime < ${quote(time)}`;
+// 'me' or an email address
+export const ownedBy = (owner: string) => `${quote(owner)} in owners`;
+export const not = (clause: string) => `not ${clause}`;
+export const notTrashed = () => 'trashed = false';
+export const sharedWithMe = () => 'sharedWithMe';
+export const appPropertyEquals = (key: string, value: string) =>
+  `appProperties has { key=${quote(key)} and value=${quote(value)} }`;
+
+// Joins clauses, skipping empty ones so optional filters can be written inline
+export const and = (...clauses: (string | false | null | undefined)[]): string =>
+  clauses.filter((c): c is string => !!c).join(' and ');
+
+// Parenthesized so it can be combined with and()
+export const or = (...clauses: (string | false | null | undefined)[]): string => {
+  const present = clauses.filter((c): c is string => !!c);
+  return present.length > 1 ? `(${present.join(' or ')})` : (present[0] || '');
+};
@@ -0,0 +1,83 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { fetchProjectState, isKnownProjectRevision, saveProjectState } from './driveService';
+import { ProjectConflictError } from './projectMerge';
+import { DriveFile, FileType, MemoryBook } from '../types';
+
+const photo = (id: string, description?: string): DriveFile => ({ id, name: `${id}.jpg`, type: FileType.IMAGE, size: 100, modifiedTime: '2020-01-01T00:00:00Z', description });
+
+const book = (items: DriveFile[]): MemoryBook => ({ id: 'book-1', title: 'Farmors år', createdAt: '2020-01-01T00:00:00Z', items, driveFolderId: 'folder-1', schemaVersion: 1 });
+
+// Just enough of Drive for project.json: one file, its revisions and resumable uploads
+const fakeDrive = (revisions: Record<string, MemoryBook>, head: string) => {
+  const drive = { head, uploaded: [] as MemoryBook[] };
+  const json = (body: unknown, init?: ResponseInit) => new Response(JSON.stringify(body), init);
+  const fetchMock = vi.fn(async (url: string, init: RequestInit = {}) => {
+    const method = init.method || 'GET';
+    if (url.includes('/files?') && method === 'GET') return json({ files: [{ id: 'project-file' }] });
+    if (url.includes('fields=headRevisionId')) return json({ headRevisionId: drive.head });
+    if (url.includes('/revisions/')) return json(revisions[url.split('/revisions/')[1].split('?')[0]]);
+    if (url.includes('/files/project-file?alt=media')) return json(revisions[drive.head]);
+    if (url.includes('uploadType=resumable')) return new Response(null, { headers: { Location: 'https://upload.example/session' } });
+    if (url === 'https://upload.example/session') {
+      drive.uploaded.push(JSON.parse(await (init.body as Blob).text()));
+      drive.head = `r${Object.keys(revisions).length + drive.uploaded.length}`;
+      return json({ id: 'project-file' });
+    }
+    if (url.includes('/files/folder-1') && method === 'PATCH') return json({});
+    throw new Error(`Unexpected request ${method} ${url}`);
+  });
+  vi.stubGlobal('fetch', fetchMock);
+  return drive;
+};
+
+describe('saveProjectState', () => {
+  beforeEach(() => {
+    const values = new Map<string, string>();
+    vi.stubGlobal('localStorage', {
+      getItem: (key: string) => values.get(key) ?? null,
+      setItem: (key: string, value: string) => { values.set(key, value); },
+      removeItem: (key: string) => { values.delete(key); }
+    });
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  const loadedAt = async (revisions: Record<string, MemoryBook>, revision: string) => {
+    const drive = fakeDrive(revisions, revision);
+    await fetchProjectState('token', 'folder-1');
+    return drive;
+  };
+
+  it('overwrites project.json when nobody else saved since it was loaded', async () => {
+    const drive = await loadedAt({ r1: book([photo('a')]) }, 'r1');
+    expect(await saveProjectState('token', book([photo('a', 'Ny text')]))).toBeUndefined();
+    expect(drive.uploaded[0].items).toEqual([photo('a', 'Ny text')]);
+    expect(isKnownProjectRevision('folder-1', drive.head)).toBe(true);
+  });
+
+  it('merges in what another device saved since', async () => {
+    const drive = await loadedAt({ r1: book([photo('a')]), r2: book([photo('a'), photo('b')]) }, 'r1');
+    drive.head = 'r2';
+    const merged = await saveProjectState('token', book([photo('a'), photo('c')]));
+    expect(merged?.items.map(i => i.id)).toEqual(['a', 'b', 'c']);
+    expect(drive.uploaded[0].items.map(i => i.id)).toEqual(['a', 'b', 'c']);
+  });
+
+  it('throws instead of saving when both devices changed the same item', async () => {
+    const drive = await loadedAt({ r1: book([photo('a')]), r2: book([photo('a', 'Där')]) }, 'r1');
+    drive.head = 'r2';
+    const error = await saveProjectState('token', book([photo('a', 'Här')])).catch(e => e);
+    expect(error).toBeInstanceOf(ProjectConflictError);
+    expect(error.remoteRevisionId).toBe('r2');
+    expect(drive.uploaded).toEqual([]);
+  });
+
+  it('saves against the revision a conflict was resolved with', async () => {
+    const drive = await loadedAt({ r1: book([photo('a')]), r2: book([photo('a', 'Där')]) }, 'r1');
+    drive.head = 'r2';
+    await saveProjectState('token', book([photo('a', 'Här')]), { resolvedRevision: 'r2' });
+    expect(drive.uploaded[0].items).toEqual([photo('a', 'Här')]);
+  });
+});
@@ -1,5 +1,11 @@
 
-import { DriveFile, FileType, MemoryBook } from '../types';
+import { DriveFile, FileType, MemoryBook, BookRevision, BookCollaborator, CollaboratorRole, BookRoot, CaptureInfo } from '../types';
+import { driveFetch, DriveApiError } from './driveClient';
+import { mergeItems, ProjectConflictError } from './projectMerge';
+import { toBookAppProperties, fromBookAppProperties } from './bookMetadata';
+import { parseProjectFile, ProjectFileError, PROJECT_SCHEMA_VERSION } from './projectSchema';
+import { parseExifDateTime, formatCamera, hasCaptureInfo } from './exif';
+import { and, or, not, nameEquals, nameContains, fullTextContains, inParents, isFolder, notFolder, mimeTypeContains, mimeTypeEquals, modifiedAfter, modifiedBefore, ownedBy, notTrashed, appPropertyEquals, sharedWithMe } from './driveQuery';
 
 const DRIVE_API_URL = 'https://www.googleapis.com/drive/v3';
 
@@ -12,53 +18,172 @@ const mapMimeType = (mimeType: string): FileType => {
   return FileType.TEXT;
 };
 
+// Drive returns at most one page per request; follow nextPageToken until the listing is complete.
+// 'onPage' receives each page as it arrives so callers can render progressively.
+// 'maxResults' stops early, for searches where only the best matches matter.
+const listAllPages = async <T>(
+  accessToken: string,
+  endpoint: string,
+  params: URLSearchParams,
+  key: 'files' | 'drives' | 'revisions' | 'permissions',
+  onPage?: (page: T[]) => void,
+  maxResults: number = Infinity
+): Promise<T[]> => {
+  const results: T[] = [];
+  let pageToken: string | undefined;
+
+  do {
+    const pageParams = new URLSearchParams(params);
+    if (pageToken) pageParams.set('pageToken', pageToken);
+
+    const response = await driveFetch(accessToken, `${DRIVE_API_URL}/${endpoint}?${pageParams.toString()}`, {}, {
+      errorMessage: 'Kunde inte hämta filer från Drive'
+    });
+
+    const data = await response.json();
+    const page: T[] = data[key] || [];
+    results.push(...page);
+    if (onPage && page.length > 0) onPage(page);
+    pageToken = data.nextPageToken;
+  } while (pageToken && results.length < maxResults);
+
+  return results.slice(0, maxResults);
+};
+
+const sortByName = (files: DriveFile[]) => files.sort((a, b) =>
+  a.name.localeCompare(b.name, undefined, { numeric: true, sensitivity: 'base' })
+);
+
+// Search scope for files.list. Files in a Shared Drive are only searched reliably with the
+// drive's own corpus; without a driveId we search My Drive and what is shared with me.
+const driveScope = (driveId?: string): Record<string, string> => ({
+  supportsAllDrives: 'true',
+  includeItemsFromAllDrives: 'true',
+  ...(driveId ? { corpora: 'drive', driveId } : { corpora: 'user' })
+});
+
+// Drive reads the EXIF of uploaded photos (HEIC too) into imageMediaMetadata
+const IMAGE_METADATA_FIELDS = 'imageMediaMetadata(time, location, cameraMake, cameraModel)';
+
+const mapCaptureInfo = (metadata: any): CaptureInfo | undefined => {
+  if (!metadata) return undefined;
+  const info: CaptureInfo = {
+    takenAt: parseExifDateTime(metadata.time),
+    camera: formatCamera(metadata.cameraMake, metadata.cameraModel)
+  };
+  if (typeof metadata.location?.latitude === 'number' && typeof metadata.location?.longitude === 'number') {
+    info.latitude = metadata.location.latitude;
+    info.longitude = metadata.location.longitude;
+  }
+  return hasCaptureInfo(info) ? info : undefined;
+};
+
+const mapDriveFile = (f: any, parentId?: string): DriveFile => ({
+  id: f.id,
+  name: f.name,
+  type: mapMimeType(f.mimeType),
+  size: parseInt(f.size || '0'),
+  thumbnail: f.thumbnailLink,
+  modifiedTime: f.modifiedTime, // Return RAW ISO string for consistency
+  parentId: parentId || f.parents?.[0],
+  captureInfo: mapCaptureInfo(f.imageMediaMetadata)
+});
+
 export const fetchDriveFiles = async (
   accessToken: string, 
   folderId: string = 'root',
-  driveId?: string
+  driveId?: string,
+  onProgress?: (filesSoFar: DriveFile[]) => void
 ): Promise<DriveFile[]> => {
   // Om vi navigerar i en Shared Drive måste queryn anpassas
   // 'root' in parents fungerar inte alltid i shared drives, vi använder ID direkt
-  const query = `'${folderId}' in parents and trashed = false`;
+  const query = and(inParents(folderId), notTrashed());
   
   const params = new URLSearchParams({
     q: query,
-    fields: 'files(id, name, mimeType, size, thumbnailLink, modifiedTime)',
+    fields: `nextPageToken, files(id, name, mimeType, size, thumbnailLink, modifiedTime, ${IMAGE_METADATA_FIELDS})`,
     pageSize: '1000',
-    supportsAllDrives: 'true',
-    includeItemsFromAllDrives: 'true',
+    ...driveScope(driveId)
   });
 
-  if (driveId) {
-    params.append('driveId', driveId);
-    params.append('corpora', 'drive');
-  } else {
-    // För "Min enhet" (user)
-    params.append('corpora', 'user');
-  }
+  const mapFile = (f: any): DriveFile => mapDriveFile(f, folderId);
 
-  const response = await fetch(`${DRIVE_API_URL}/files?${params.toString()}`, {
-    headers: { 'Authorization': `Bearer ${accessToken}` }
+  const loaded: DriveFile[] = [];
+  const rawFiles = await listAllPages<any>(accessToken, 'files', params, 'files', (page) => {
+    if (!onProgress) return;
+    loaded.push(...page.map(mapFile));
+    onProgress(sortByName([...loaded]));
   });
 
-  if (!response.ok) {
-     const err = await response.json();
-     console.error("Drive Error:", err);
-     throw new Error('Kunde inte hämta filer från Drive');
-  }
-  const data = await response.json();
-  
-  return (data.files || []).map((f: any) => ({
-    id: f.id,
-    name: f.name,
-    type: mapMimeType(f.mimeType),
-    size: parseInt(f.size || '0'),
-    thumbnail: f.thumbnailLink,
-    modifiedTime: f.modifiedTime, // Return RAW ISO string for consistency
-    parentId: folderId
-  })).sort((a: any, b: any) => 
-    a.name.localeCompare(b.name, undefined, { numeric: true, sensitivity: 'base' })
+  return sortByName(rawFiles.map(mapFile));
+};
+
+// --- SEARCH ---
+
+export type DriveFileKind = 'image' | 'pdf' | 'audio' | 'googleDoc';
+
+export interface DriveSearchCriteria {
+  text?: string;            // Matched against names and file contents
+  kinds?: DriveFileKind[];  // Any of them; empty means all kinds
+  modifiedFrom?: string;    // yyyy-mm-dd, inclusive
+  modifiedTo?: string;      // yyyy-mm-dd, inclusive
+  owner?: 'me' | 'others' | string; // or an email address
+}
+
+const KIND_CLAUSES: Record<DriveFileKind, () => string> = {
+  image: () => mimeTypeContains('image/'),
+  pdf: () => mimeTypeEquals('application/pdf'),
+  audio: () => mimeTypeContains('audio/'),
+  googleDoc: () => mimeTypeEquals('application/vnd.google-apps.document')
+};
+
+const SEARCH_FIELDS = `nextPageToken, files(id, name, mimeType, size, thumbnailLink, modifiedTime, parents, ${IMAGE_METADATA_FIELDS})`;
+const MAX_SEARCH_RESULTS = 200;
+const RECENT_FILES_COUNT = 50;
+
+const nextDay = (date: string) => {
+  const d = new Date(`${date}T00:00:00Z`);
+  d.setUTCDate(d.getUTCDate() + 1);
+  return d.toISOString();
+};
+
+// Files (not folders) in My Drive and shared with me, or in one Shared Drive
+export const searchDriveFiles = async (accessToken: string, criteria: DriveSearchCriteria, driveId?: string): Promise<DriveFile[]> => {
+  const text = criteria.text?.trim();
+  const owner = criteria.owner?.trim();
+  const query = and(
+    notTrashed(),
+    notFolder(),
+    text && or(nameContains(text), fullTextContains(text)),
+    or(...(criteria.kinds || []).map(kind => KIND_CLAUSES[kind]())),
+    criteria.modifiedFrom && modifiedAfter(`${criteria.modifiedFrom}T00:00:00Z`),
+    criteria.modifiedTo && modifiedBefore(nextDay(criteria.modifiedTo)),
+    owner === 'others' ? not(ownedBy('me')) : owner && ownedBy(owner)
   );
+
+  const params = new URLSearchParams({
+    q: query,
+    fields: SEARCH_FIELDS,
+    pageSize: '100',
+    ...driveScope(driveId)
+  });
+  // Drive can't sort full-text searches, it returns them by relevance
+  if (!text) params.set('orderBy', 'modifiedTime desc');
+
+  const rawFiles = await listAllPages<any>(accessToken, 'files', params, 'files', undefined, MAX_SEARCH_RESULTS);
+  return rawFiles.map(f => mapDriveFile(f));
+};
+
+export const fetchRecentFiles = async (accessToken: string, driveId?: string): Promise<DriveFile[]> => {
+  const params = new URLSearchParams({
+    q: and(notTrashed(), notFolder()),
+    fields: SEARCH_FIELDS,
+    orderBy: 'modifiedTime desc',
+    pageSize: String(RECENT_FILES_COUNT),
+    ...driveScope(driveId)
+  });
+  const rawFiles = await listAllPages<any>(accessToken, 'files', params, 'files', undefined, RECENT_FILES_COUNT);
+  return rawFiles.map(f => mapDriveFile(f));
 };
 
 export const fetchFileBlob = async (accessToken: string, fileId: string, isGoogleDoc: boolean = false): Promise<Blob> => {
@@ -66,111 +191,304 @@ export const fetchFileBlob = async (accessToken: string, fileId: string, isGoogl
     ? `${DRIVE_API_URL}/files/${fileId}/export?mimeType=application/pdf`
     : `${DRIVE_API_URL}/files/${fileId}?alt=media`;
     
-  const response = await fetch(url, {
-    headers: { 'Authorization': `Bearer ${accessToken}` }
+  const response = await driveFetch(accessToken, url, {}, {
+    errorMessage: `Kunde inte hämta fildata för: ${fileId}`
   });
-  if (!response.ok) throw new Error(`Kunde inte hämta fildata för: ${fileId}`);
   return await response.blob();
 };
 
 export const createFolder = async (accessToken: string, parentId: string, name: string): Promise<string> => {
-  const response = await fetch(`${DRIVE_API_URL}/files`, {
+  const response = await driveFetch(accessToken, `${DRIVE_API_URL}/files?supportsAllDrives=true`, {
     method: 'POST',
-    headers: {
-      'Authorization': `Bearer ${accessToken}`,
-      'Content-Type': 'application/json'
-    },
+    headers: { 'Content-Type': 'application/json' },
     body: JSON.stringify({
       name,
       mimeType: 'application/vnd.google-apps.folder',
       parents: parentId === 'root' ? [] : [parentId]
     })
-  });
+  }, { errorMessage: `Kunde inte skapa mappen "${name}" på Drive` });
   const data = await response.json();
   return data.id;
 };
 
 // Find existing file to avoid duplicates - UPDATED for robust searching
-export const findFileInFolder = async (accessToken: string, folderId: string, filename: string): Promise<string | null> => {
-    try {
-        const query = `name = '${filename}' and '${folderId}' in parents and trashed = false`;
-        
-        // Add critical search parameters to ensure visibility across drives/reload
-        const params = new URLSearchParams({
-            q: query,
-            fields: 'files(id)',
-            supportsAllDrives: 'true',
-            includeItemsFromAllDrives: 'true',
-            corpora: 'user' // Default search scope
-        });
+// Returns null only when the file does not exist; Drive failures are thrown so callers
+// don't mistake an outage for a missing file and create duplicates.
+export const findFileInFolder = async (accessToken: string, folderId: string, filename: string, driveId?: string): Promise<string | null> => {
+    const query = and(nameEquals(filename), inParents(folderId), notTrashed());
+    
+    const params = new URLSearchParams({
+        q: query,
+        fields: 'nextPageToken, files(id)',
+        ...driveScope(driveId)
+    });
 
-        const response = await fetch(`${DRIVE_API_URL}/files?${params.toString()}`, {
-            headers: { 'Authorization': `Bearer ${accessToken}` }
-        });
-        const data = await response.json();
-        if (data.files && data.files.length > 0) {
-            return data.files[0].id;
-        }
-        return null;
+    const files = await listAllPages<{ id: string }>(accessToken, 'files', params, 'files');
+    return files.length > 0 ? files[0].id : null;
+};
+
+// --- RESUMABLE UPLOADS ---
+
+// Drive requires every chunk except the last to be a multiple of 256 KB.
+// 2 MB keeps the amount of re-sent data small on flaky mobile connections.
+const UPLOAD_CHUNK_SIZE = 8 * 256 * 1024;
+const MAX_RESUME_ATTEMPTS = 5;
+const UPLOAD_SESSION_PREFIX = 'drive_upload_session:';
+const UPLOAD_SESSION_MAX_AGE_MS = 6 * 24 * 60 * 60 * 1000; // Drive keeps sessions for about a week
+
+interface StoredUploadSession {
+  url: string;
+  createdAt: number;
+}
+
+export interface UploadOptions {
+  onProgress?: (uploadedBytes: number, totalBytes: number) => void;
+  // Identifies content that never changes (e.g. a local item's id). Files are then matched on
+  // this key instead of the name: an earlier upload with the key is reused as is, and an
+  // unrelated file with the same name is never overwritten.
+  sourceKey?: string;
+  // Shared Drive the folder is in, if any
+  driveId?: string;
+}
+
+const SOURCE_KEY_PROPERTY = 'sourceKey';
+
+const findFileBySourceKey = async (accessToken: string, folderId: string, sourceKey: string, driveId?: string): Promise<string | null> => {
+    const params = new URLSearchParams({
+        q: and(appPropertyEquals(SOURCE_KEY_PROPERTY, sourceKey), inParents(folderId), notTrashed()),
+        fields: 'files(id)',
+        pageSize: '1',
+        ...driveScope(driveId)
+    });
+    const response = await driveFetch(accessToken, `${DRIVE_API_URL}/files?${params.toString()}`, {}, {
+        errorMessage: 'Kunde inte söka efter filen på Drive'
+    });
+    const data = await response.json();
+    return data.files?.[0]?.id || null;
+};
+
+// Content fingerprint so a stored session is only resumed with the exact same bytes
+const fingerprintBlob = async (blob: Blob): Promise<string> => {
+  const digest = await crypto.subtle.digest('SHA-256', await blob.arrayBuffer());
+  return Array.from(new Uint8Array(digest).slice(0, 16)).map(b => b.toString(16).padStart(2, '0')).join('');
+};
+
+const loadUploadSession = (key: string): StoredUploadSession | null => {
+  try {
+    const raw = localStorage.getItem(key);
+    if (!raw) return null;
+    const session: StoredUploadSession = JSON.parse(raw);
+    if (Date.now() - session.createdAt > UPLOAD_SESSION_MAX_AGE_MS) {
+      localStorage.removeItem(key);
+      return null;
+    }
+    return session;
+  } catch {
+    return null;
+  }
+};
+
+const saveUploadSession = (key: string, url: string) => {
+  try {
+    localStorage.setItem(key, JSON.stringify({ url, createdAt: Date.now() }));
+  } catch (e) {
+    console.warn("Could not persist upload session", e);
+  }
+};
+
+// "Range: bytes=0-42" means bytes 0..42 are stored, so the next byte to send is 43
+const parseConfirmedRange = (rangeHeader: string | null): number => {
+  if (!rangeHeader) return 0;
+  const match = /bytes=0-(\d+)/.exec(rangeHeader);
+  return match ? parseInt(match[1]) + 1 : 0;
+};
+
+const isTransientUploadError = (e: unknown) =>
+  e instanceof DriveApiError && (e.kind === 'network' || e.kind === 'server' || e.kind === 'rateLimit');
+
+// Ask Drive how many bytes of a session it already has.
+// Returns null if the session has expired and a new one must be started.
+const queryUploadOffset = async (uploadUrl: string, totalSize: number): Promise<{ offset: number, result?: any } | null> => {
+  try {
+    const res = await driveFetch(null, uploadUrl, {
+      method: 'PUT',
+      headers: { 'Content-Range': `bytes */${totalSize}` }
+    }, { acceptStatus: [308] });
+
+    if (res.status === 308) return { offset: parseConfirmedRange(res.headers.get('Range')) };
+    // 200/201: the upload had already completed
+    return { offset: totalSize, result: await res.json().catch(() => null) };
+  } catch (e) {
+    if (e instanceof DriveApiError && (e.status === 404 || e.status === 410)) return null;
+    throw e;
+  }
+};
+
+// Send the blob in ranged chunks starting at 'startOffset'. On network loss we ask Drive
+// for the last confirmed byte and continue from there instead of starting over.
+const sendResumableContent = async (
+  uploadUrl: string,
+  blob: Blob,
+  startOffset: number,
+  filename: string,
+  onProgress?: UploadOptions['onProgress']
+): Promise<any> => {
+  const total = blob.size;
+  const errorMessage = `Kunde inte ladda upp ${filename} till Drive`;
+
+  if (total === 0) {
+    const res = await driveFetch(null, uploadUrl, { method: 'PUT', body: blob }, { errorMessage });
+    return await res.json().catch(() => null);
+  }
+
+  let offset = startOffset;
+  let failures = 0;
+  onProgress?.(offset, total);
+
+  while (true) {
+    const end = Math.min(offset + UPLOAD_CHUNK_SIZE, total);
+    try {
+      // Not retried by driveFetch: Drive may have stored part of the chunk, so after a failure
+      // we ask for the confirmed offset below and send from there
+      const res = await driveFetch(null, uploadUrl, {
+        method: 'PUT',
+        headers: { 'Content-Range': `bytes ${offset}-${end - 1}/${total}` },
+        body: blob.slice(offset, end)
+      }, { acceptStatus: [308], errorMessage, idempotent: false });
+
+      if (res.status !== 308) {
+        onProgress?.(total, total);
+        return await res.json().catch(() => null);
+      }
+
+      offset = parseConfirmedRange(res.headers.get('Range'));
+      failures = 0;
+      onProgress?.(offset, total);
     } catch (e) {
-        console.error("Error searching for file", e);
-        return null;
+      if (!isTransientUploadError(e) || ++failures > MAX_RESUME_ATTEMPTS) throw e;
+
+      const status = await queryUploadOffset(uploadUrl, total);
+      if (!status) throw e;
+      if (status.offset >= total) {
+        onProgress?.(total, total);
+        return status.result;
+      }
+      offset = status.offset;
     }
+  }
 };
 
+// Uploads (or overwrites) 'filename' in 'folderId' and returns the Drive file id.
+// Session URLs are kept in localStorage, so an upload interrupted by a reload resumes
+// from the last confirmed byte when the same content is uploaded again.
 export const uploadToDrive = async (
     accessToken: string, 
     folderId: string, 
     filename: string, 
     blob: Blob,
-    mimeType: string = 'application/pdf'
-) => {
-  // 1. Check if file exists
-  const existingFileId = await findFileInFolder(accessToken, folderId, filename);
-
-  const method = existingFileId ? 'PATCH' : 'POST';
-  const url = existingFileId 
-    ? `https://www.googleapis.com/upload/drive/v3/files/${existingFileId}?uploadType=resumable`
-    : `https://www.googleapis.com/upload/drive/v3/files?uploadType=resumable`;
-
-  const metadata: any = {
-    mimeType: mimeType
-  };
-  
-  // Only set name and parent on creation, or if we want to rename/move (we don't here)
-  if (!existingFileId) {
-      metadata.name = filename;
-      metadata.parents = [folderId];
+    mimeType: string = 'application/pdf',
+    options: UploadOptions = {}
+): Promise<string | undefined> => {
+  const isMultiChunk = blob.size > UPLOAD_CHUNK_SIZE;
+  const sessionKey = isMultiChunk
+    ? `${UPLOAD_SESSION_PREFIX}${folderId}/${filename}/${await fingerprintBlob(blob)}`
+    : null;
+
+  let uploadUrl: string | null = null;
+  let startOffset = 0;
+  let existingFileId: string | null = null;
+
+  // 1. Resume a previous session for the same content if Drive still has it
+  const storedSession = sessionKey ? loadUploadSession(sessionKey) : null;
+  if (sessionKey && storedSession) {
+      const status = await queryUploadOffset(storedSession.url, blob.size);
+      if (status && status.offset >= blob.size) {
+          localStorage.removeItem(sessionKey);
+          return status.result?.id;
+      }
+      if (status) {
+          uploadUrl = storedSession.url;
+          startOffset = status.offset;
+      } else {
+          localStorage.removeItem(sessionKey);
+      }
   }
 
-  const initResponse = await fetch(url, {
-    method: method,
-    headers: {
-      'Authorization': `Bearer ${accessToken}`,
-      'Content-Type': 'application/json; charset=UTF-8',
-      'X-Upload-Content-Type': mimeType,
-      'X-Upload-Content-Length': blob.size.toString()
-    },
-    body: JSON.stringify(metadata)
-  });
-
-  const uploadUrl = initResponse.headers.get('Location');
+  // 2. Otherwise start a new session (update in place if the file already exists)
   if (!uploadUrl) {
-      throw new Error('Kunde inte initiera uppladdning till Drive');
+      if (options.sourceKey) {
+          const uploadedId = await findFileBySourceKey(accessToken, folderId, options.sourceKey, options.driveId);
+          if (uploadedId) {
+              options.onProgress?.(blob.size, blob.size);
+              return uploadedId;
+          }
+      } else {
+          existingFileId = await findFileInFolder(accessToken, folderId, filename, options.driveId);
+      }
+
+      const method = existingFileId ? 'PATCH' : 'POST';
+      const url = existingFileId 
+        ? `https://www.googleapis.com/upload/drive/v3/files/${existingFileId}?uploadType=resumable&supportsAllDrives=true`
+        : `https://www.googleapis.com/upload/drive/v3/files?uploadType=resumable&supportsAllDrives=true`;
+
+      const metadata: any = {
+        mimeType: mimeType
+      };
+      
+      // Only set name and parent on creation, or if we want to rename/move (we don't here)
+      if (!existingFileId) {
+          metadata.name = filename;
+          metadata.parents = [folderId];
+          if (options.sourceKey) metadata.appProperties = { [SOURCE_KEY_PROPERTY]: options.sourceKey };
+      }
+
+      // Safe to retry: a repeated start only opens another session, nothing is created until content is sent
+      const initResponse = await driveFetch(accessToken, url, {
+        method: method,
+        headers: {
+          'Content-Type': 'application/json; charset=UTF-8',
+          'X-Upload-Content-Type': mimeType,
+          'X-Upload-Content-Length': blob.size.toString()
+        },
+        body: JSON.stringify(metadata)
+      }, { errorMessage: 'Kunde inte initiera uppladdning till Drive', idempotent: true });
+
+      uploadUrl = initResponse.headers.get('Location');
+      if (!uploadUrl) {
+          throw new DriveApiError('unknown', initResponse.status, 'Kunde inte initiera uppladdning till Drive');
+      }
+      if (sessionKey) saveUploadSession(sessionKey, uploadUrl);
   }
 
-  await fetch(uploadUrl, { method: 'PUT', body: blob });
+  // 3. Send the content. The session URL is pre-authorised, so no bearer token is needed.
+  const result = await sendResumableContent(uploadUrl, blob, startOffset, filename, options.onProgress);
+  if (sessionKey) localStorage.removeItem(sessionKey);
+
+  return result?.id || existingFileId || undefined;
+};
+
+// The Google account a token belongs to
+export const fetchDriveUser = async (accessToken: string): Promise<{ email: string, name: string, picture: string }> => {
+  const response = await driveFetch(accessToken, `${DRIVE_API_URL}/about?fields=user(emailAddress, displayName, photoLink)`);
+  const { user } = await response.json();
+  return { email: user.emailAddress, name: user.displayName || user.emailAddress, picture: user.photoLink || '' };
 };
 
 export const fetchSharedDrives = async (accessToken: string): Promise<DriveFile[]> => {
-  const response = await fetch(`${DRIVE_API_URL}/drives?pageSize=100`, {
-    headers: { 'Authorization': `Bearer ${accessToken}` }
+  const params = new URLSearchParams({
+    pageSize: '100',
+    fields: 'nextPageToken, drives(id, name)'
   });
-  if (!response.ok) return [];
-  const data = await response.json();
+
+  let drives: any[];
+  try {
+    drives = await listAllPages<any>(accessToken, 'drives', params, 'drives');
+  } catch (e) {
+    return [];
+  }
   
   // Mappa om Drives till DriveFiles så de ser ut som mappar i UI:t
-  return (data.drives || []).map((d: any) => ({
+  return drives.map((d: any) => ({
     id: d.id,
     name: d.name,
     type: FileType.FOLDER, // Vi behandlar en Drive som en mapp
@@ -182,58 +500,63 @@ export const fetchSharedDrives = async (accessToken: string): Promise<DriveFile[
 
 // --- NEW FUNCTIONS FOR PERSISTENCE ---
 
-export const findOrCreateFolder = async (accessToken: string, parentId: string, folderName: string): Promise<string> => {
-    const existingId = await findFileInFolder(accessToken, parentId, folderName);
+export const findOrCreateFolder = async (accessToken: string, parentId: string, folderName: string, driveId?: string): Promise<string> => {
+    const existingId = await findFileInFolder(accessToken, parentId, folderName, driveId);
     if (existingId) return existingId;
     return await createFolder(accessToken, parentId, folderName);
 };
 
 export const moveFile = async (accessToken: string, fileId: string, newParentId: string) => {
     // 1. Get current parents to remove them
-    const fileRes = await fetch(`${DRIVE_API_URL}/files/${fileId}?fields=parents`, {
-        headers: { 'Authorization': `Bearer ${accessToken}` }
+    const fileRes = await driveFetch(accessToken, `${DRIVE_API_URL}/files/${fileId}?fields=parents&supportsAllDrives=true`, {}, {
+        errorMessage: "Kunde inte hitta filen för flytt."
     });
-    
-    if (!fileRes.ok) throw new Error("Kunde inte hitta filen för flytt.");
     const fileData = await fileRes.json();
     const previousParents = fileData.parents ? fileData.parents.join(',') : '';
 
     // 2. Update parents
     const params = new URLSearchParams({
         addParents: newParentId,
-        removeParents: previousParents
+        removeParents: previousParents,
+        supportsAllDrives: 'true'
     });
 
-    const updateRes = await fetch(`${DRIVE_API_URL}/files/${fileId}?${params.toString()}`, {
+    await driveFetch(accessToken, `${DRIVE_API_URL}/files/${fileId}?${params.toString()}`, {
+        method: 'PATCH'
+    }, { errorMessage: "Kunde inte flytta filen." });
+};
+
+// Custom key/value metadata on a file, private to this app. A null value removes the key.
+export const setAppProperties = async (accessToken: string, fileId: string, appProperties: Record<string, string | null>) => {
+    await driveFetch(accessToken, `${DRIVE_API_URL}/files/${fileId}?supportsAllDrives=true`, {
         method: 'PATCH',
-        headers: { 'Authorization': `Bearer ${accessToken}` }
-    });
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ appProperties })
+    }, { errorMessage: "Kunde inte uppdatera filens egenskaper." });
+};
 
-    if (!updateRes.ok) {
-        throw new Error("Kunde inte flytta filen.");
-    }
+// Deletes for good, skipping Drive's own trash. Deleting a folder deletes its contents.
+export const deleteFilePermanently = async (accessToken: string, fileId: string) => {
+    await driveFetch(accessToken, `${DRIVE_API_URL}/files/${fileId}?supportsAllDrives=true`, {
+        method: 'DELETE'
+    }, { errorMessage: "Kunde inte radera filen." });
 };
 
 export const renameFile = async (accessToken: string, fileId: string, newName: string) => {
-    const response = await fetch(`${DRIVE_API_URL}/files/${fileId}`, {
+    await driveFetch(accessToken, `${DRIVE_API_URL}/files/${fileId}?supportsAllDrives=true`, {
         method: 'PATCH',
-        headers: {
-            'Authorization': `Bearer ${accessToken}`,
-            'Content-Type': 'application/json'
-        },
+        headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({ name: newName })
-    });
-    
-    if (!response.ok) throw new Error(`Kunde inte byta namn på fil ${fileId}`);
+    }, { errorMessage: `Kunde inte byta namn på fil ${fileId}` });
 };
 
 // Rename folder and finding/renaming artifacts inside
-export const renameBookArtifacts = async (accessToken: string, folderId: string, oldTitle: string, newTitle: string) => {
+export const renameBookArtifacts = async (accessToken: string, folderId: string, oldTitle: string, newTitle: string, driveId?: string) => {
     // 1. Rename the folder itself
     await renameFile(accessToken, folderId, newTitle);
 
     // 2. List all files in the folder
-    const files = await fetchDriveFiles(accessToken, folderId);
+    const files = await fetchDriveFiles(accessToken, folderId, driveId);
 
     // 3. Rename any file that contains the old title
     for (const file of files) {
@@ -248,44 +571,169 @@ export const renameBookArtifacts = async (accessToken: string, folderId: string,
     }
 };
 
-// Fetches the 'project.json' from a book folder to restore state
-export const fetchProjectState = async (accessToken: string, folderId: string): Promise<MemoryBook | null> => {
-    const fileId = await findFileInFolder(accessToken, folderId, 'project.json');
-    if (!fileId) return null;
+// --- PROJECT STATE & CONFLICTS ---
+
+// The project.json revision this device last loaded or saved, per book folder.
+// A save compares it with Drive's head revision to notice edits from other devices.
+const PROJECT_BASE_PREFIX = 'drive_project_base:';
 
+const loadProjectBase = (folderId: string): string | null => {
     try {
-        const blob = await fetchFileBlob(accessToken, fileId);
-        const text = await blob.text();
-        const bookData = JSON.parse(text);
-        
-        // BUG FIX: Clean up stale blob URLs from persisted thumbnail fields.
-        // If a thumbnail is 'blob:...', it's dead after reload. Remove it to force fallback.
-        if (bookData.items) {
-            bookData.items = bookData.items.map((item: any) => ({
-                ...item,
-                thumbnail: (item.thumbnail && item.thumbnail.startsWith('blob:')) ? undefined : item.thumbnail,
-                blobUrl: undefined // Ensure local blobUrl is also cleared
-            }));
-        }
+        return localStorage.getItem(`${PROJECT_BASE_PREFIX}${folderId}`);
+    } catch {
+        return null;
+    }
+};
 
-        // Ensure driveFolderId is correct (might have moved)
-        return { ...bookData, driveFolderId: folderId };
+const saveProjectBase = (folderId: string, revisionId: string | undefined) => {
+    if (!revisionId) return;
+    try {
+        localStorage.setItem(`${PROJECT_BASE_PREFIX}${folderId}`, revisionId);
     } catch (e) {
-        console.error("Corrupt project file", e);
-        return null;
+        console.warn("Could not persist project revision", e);
     }
 };
 
-// Saves the 'project.json' to the book folder
-export const saveProjectState = async (accessToken: string, book: MemoryBook) => {
-    if (!book.driveFolderId) return;
-    
+// True if this device saved or loaded that revision itself (e.g. our own change coming back from the change feed)
+export const isKnownProjectRevision = (folderId: string, revisionId: string | undefined): boolean =>
+    !!revisionId && loadProjectBase(folderId) === revisionId;
+
+const fetchHeadRevisionId = async (accessToken: string, fileId: string): Promise<string | undefined> => {
+    const response = await driveFetch(accessToken, `${DRIVE_API_URL}/files/${fileId}?fields=headRevisionId&supportsAllDrives=true`);
+    const data = await response.json();
+    return data.headRevisionId;
+};
+
+// Throws ProjectFileError if the file is damaged or from a newer app version
+const parseProjectJson = (text: string, folderId: string): MemoryBook => {
+    const { book: bookData, migratedFrom, warnings } = parseProjectFile(text);
+    if (migratedFrom !== undefined) console.info(`Upgraded project.json in ${folderId} from schema ${migratedFrom}`);
+    if (warnings.length > 0) console.warn("Project file had broken items", warnings);
+
+    // BUG FIX: Clean up stale blob URLs from persisted thumbnail fields.
+    // If a thumbnail is 'blob:...', it's dead after reload. Remove it to force fallback.
+    if (bookData.items) {
+        bookData.items = bookData.items.map((item: any) => ({
+            ...item,
+            thumbnail: (item.thumbnail && item.thumbnail.startsWith('blob:')) ? undefined : item.thumbnail,
+            blobUrl: undefined // Ensure local blobUrl is also cleared
+        }));
+    }
+
+    // Ensure driveFolderId is correct (might have moved)
+    return { ...bookData, driveFolderId: folderId };
+};
+
+// Content of an older project.json revision. Null if Drive no longer keeps it.
+const fetchProjectRevisionById = async (accessToken: string, fileId: string, revisionId: string, folderId: string): Promise<MemoryBook | null> => {
+    try {
+        const response = await driveFetch(accessToken, `${DRIVE_API_URL}/files/${fileId}/revisions/${revisionId}?alt=media`);
+        return parseProjectJson(await response.text(), folderId);
+    } catch (e) {
+        if (e instanceof DriveApiError && e.kind === 'notFound') return null;
+        if (e instanceof ProjectFileError) return null;
+        throw e;
+    }
+};
+
+// Fetches the 'project.json' from a book folder to restore state.
+// Throws ProjectFileError rather than returning null for a damaged file, so the caller
+// never treats it as a new, empty book and overwrites it.
+export const fetchProjectState = async (accessToken: string, folderId: string, driveId?: string): Promise<MemoryBook | null> => {
+    const fileId = await findFileInFolder(accessToken, folderId, 'project.json', driveId);
+    if (!fileId) return null;
+
+    // Read the revision before the content: if someone saves in between we merely
+    // merge against an older base later, instead of missing their change
+    const revisionId = await fetchHeadRevisionId(accessToken, fileId);
+
+    const blob = await fetchFileBlob(accessToken, fileId);
+    const book = parseProjectJson(await blob.text(), folderId);
+    saveProjectBase(folderId, revisionId);
+    return { ...book, driveId };
+};
+
+// Saved versions of 'project.json', oldest first. Drive keeps them for about 30 days.
+export const listProjectRevisions = async (accessToken: string, folderId: string, driveId?: string): Promise<BookRevision[]> => {
+    const fileId = await findFileInFolder(accessToken, folderId, 'project.json', driveId);
+    if (!fileId) return [];
+
+    const params = new URLSearchParams({
+        fields: 'nextPageToken, revisions(id, modifiedTime, size, lastModifyingUser(displayName))',
+        pageSize: '1000'
+    });
+    const revisions = await listAllPages<any>(accessToken, `files/${fileId}/revisions`, params, 'revisions');
+    return revisions.map(r => ({
+        id: r.id,
+        modifiedTime: r.modifiedTime,
+        size: r.size ? parseInt(r.size) : undefined,
+        modifiedBy: r.lastModifyingUser?.displayName
+    }));
+};
+
+export const fetchProjectRevision = async (accessToken: string, folderId: string, revisionId: string, driveId?: string): Promise<MemoryBook | null> => {
+    const fileId = await findFileInFolder(accessToken, folderId, 'project.json', driveId);
+    if (!fileId) return null;
+    const revisionBook = await fetchProjectRevisionById(accessToken, fileId, revisionId, folderId);
+    return revisionBook && { ...revisionBook, driveId };
+};
+
+export interface SaveProjectOptions {
+    // Revision the user resolved a conflict against. Replaces the stored base for this save.
+    resolvedRevision?: string;
+}
+
+// Saves the 'project.json' to the book folder.
+// If another device saved since we last loaded, its changes are merged in by item id and the
+// merged book is returned so the caller can show them. Throws ProjectConflictError when
+// both sides changed the same items.
+export const saveProjectState = async (accessToken: string, book: MemoryBook, options: SaveProjectOptions = {}): Promise<MemoryBook | undefined> => {
+    if (!book.driveFolderId) return undefined;
+    const folderId = book.driveFolderId;
+
+    let bookToSave = book;
+    let mergedBook: MemoryBook | undefined;
+
+    const fileId = await findFileInFolder(accessToken, folderId, 'project.json', book.driveId);
+    const baseRevisionId = options.resolvedRevision || loadProjectBase(folderId);
+    // Drive has no conditional writes for file content, so check right before uploading.
+    // Without a known base (book saved before this existed) we keep the old overwrite behaviour.
+    if (fileId && baseRevisionId) {
+        const headRevisionId = await fetchHeadRevisionId(accessToken, fileId);
+        if (headRevisionId && headRevisionId !== baseRevisionId) {
+            const remoteBlob = await fetchFileBlob(accessToken, fileId);
+            let remoteBook: MemoryBook | null = null;
+            try {
+                remoteBook = parseProjectJson(await remoteBlob.text(), folderId);
+            } catch (e) {
+                // Never downgrade a book saved by a newer version; a damaged file is replaced by ours
+                if (!(e instanceof ProjectFileError) || e.kind === 'tooNew') throw e;
+                console.warn("Overwriting damaged project file", e);
+            }
+
+            if (remoteBook) {
+                const baseBook = await fetchProjectRevisionById(accessToken, fileId, baseRevisionId, folderId);
+                const result = mergeItems(baseBook ? baseBook.items : null, book.items, remoteBook.items);
+                mergedBook = { ...book, items: result.items };
+                if (result.conflicts.length > 0) throw new ProjectConflictError(result.conflicts, mergedBook, headRevisionId);
+                bookToSave = mergedBook;
+            }
+        }
+    }
+
     // Clean data before saving (remove large buffers or blobs)
     // IMPORTANT: Save 'processedSize' and 'compressionLevelUsed' so we don't have to re-calc on load.
     // This makes resuming "super stable" as we know the compressed size without re-compressing.
     const cleanBook = {
-        ...book,
-        items: book.items.map(item => ({
+        ...bookToSave,
+        schemaVersion: PROJECT_SCHEMA_VERSION,
+        summary: undefined, // Listing-only data, lives in the folder's appProperties
+        trashedAt: undefined,
+        sharedBy: undefined,
+        canEdit: undefined,
+        driveId: undefined, // Where the folder is, not part of the book
+        accountEmail: undefined,
+        items: bookToSave.items.map(item => ({
             ...item,
             processedBuffer: undefined, // Don't save binary cache to JSON (too heavy)
             blobUrl: undefined, 
@@ -293,7 +741,7 @@ export const saveProjectState = async (accessToken: string, book: MemoryBook) =>
             // Safety clean: Don't save blob URLs as thumbnails for persistence
             thumbnail: (item.thumbnail && item.thumbnail.startsWith('blob:')) ? undefined : item.thumbnail
         })),
-        chunks: book.chunks?.map(chunk => ({
+        chunks: bookToSave.chunks?.map(chunk => ({
             ...chunk,
             items: chunk.items.map(item => ({
                  ...item,
@@ -307,26 +755,29 @@ export const saveProjectState = async (accessToken: string, book: MemoryBook) =>
     const jsonString = JSON.stringify(cleanBook, null, 2);
     const blob = new Blob([jsonString], { type: 'application/json' });
     
-    await uploadToDrive(accessToken, book.driveFolderId, 'project.json', blob, 'application/json');
+    const savedId = await uploadToDrive(accessToken, folderId, 'project.json', blob, 'application/json', { driveId: book.driveId });
+    if (savedId) saveProjectBase(folderId, await fetchHeadRevisionId(accessToken, savedId));
+
+    // Dashboard metadata is a convenience; a failure here must not fail the save
+    await setAppProperties(accessToken, folderId, toBookAppProperties(bookToSave))
+        .catch(e => console.warn("Could not update book metadata", e));
+
+    return mergedBook;
 };
 
 // Helper to find a suitable cover image in a folder
-const findCoverImageForFolder = async (accessToken: string, folderId: string): Promise<string | undefined> => {
+const findCoverImageForFolder = async (accessToken: string, folderId: string, driveId?: string): Promise<string | undefined> => {
     try {
-        const query = `'${folderId}' in parents and mimeType contains 'image/' and trashed = false`;
+        const query = and(inParents(folderId), mimeTypeContains('image/'), notTrashed());
         const params = new URLSearchParams({
             q: query,
             fields: 'files(thumbnailLink)',
             pageSize: '1',
             orderBy: 'modifiedTime desc', 
-            corpora: 'user',
-            supportsAllDrives: 'true',
-            includeItemsFromAllDrives: 'true'
+            ...driveScope(driveId)
         });
         
-        const res = await fetch(`${DRIVE_API_URL}/files?${params.toString()}`, {
-            headers: { 'Authorization': `Bearer ${accessToken}` }
-        });
+        const res = await driveFetch(accessToken, `${DRIVE_API_URL}/files?${params.toString()}`);
         const data = await res.json();
         if (data.files && data.files.length > 0) {
             return data.files[0].thumbnailLink;
@@ -337,39 +788,167 @@ const findCoverImageForFolder = async (accessToken: string, folderId: string): P
     return undefined;
 };
 
-// Scan the 'Dela din historia' root for book folders
-export const listDriveBookFolders = async (accessToken: string): Promise<MemoryBook[]> => {
-    try {
-        const rootId = await findFileInFolder(accessToken, 'root', 'Dela din historia');
+const toListedBook = (f: any): MemoryBook => ({
+    id: f.id,
+    title: f.name,
+    createdAt: f.createdTime || f.modifiedTime,
+    items: [],
+    driveFolderId: f.id,
+    driveId: f.driveId,
+    summary: fromBookAppProperties(f.appProperties)
+});
+
+// Books others have shared with me. Any folder can be shared, so only those carrying
+// book metadata count; a book shared before it was ever saved shows up after its next save.
+const listSharedBookFolders = async (accessToken: string): Promise<MemoryBook[]> => {
+    const params = new URLSearchParams({
+        q: and(sharedWithMe(), isFolder(), notTrashed()),
+        fields: 'nextPageToken, files(id, name, createdTime, modifiedTime, driveId, appProperties, owners(displayName, emailAddress), capabilities(canEdit))',
+        pageSize: '1000'
+    });
+    const folders = await listAllPages<any>(accessToken, 'files', params, 'files');
+    return folders
+        .filter(f => fromBookAppProperties(f.appProperties))
+        .map(f => ({
+            ...toListedBook(f),
+            sharedBy: f.owners?.[0]?.displayName || f.owners?.[0]?.emailAddress || 'okänd',
+            canEdit: f.capabilities?.canEdit !== false
+        }));
+};
+
+// Scan the book root for book folders: the chosen folder, or 'Dela din historia' in My Drive
+// Errors are passed on, so the local-first storage can list its offline copies instead
+export const listDriveBookFolders = async (accessToken: string, bookRoot: BookRoot | null = null): Promise<MemoryBook[]> => {
+    const rootId = bookRoot ? bookRoot.folderId : await findFileInFolder(accessToken, 'root', 'Dela din historia');
+
+    // One listing; counts and cover come from the metadata each save writes on the folder
+    const listOwnFolders = async (): Promise<any[]> => {
         if (!rootId) return [];
+        const params = new URLSearchParams({
+            q: and(inParents(rootId), isFolder(), notTrashed()),
+            fields: 'nextPageToken, files(id, name, createdTime, modifiedTime, driveId, appProperties)',
+            pageSize: '1000',
+            ...driveScope(bookRoot?.driveId)
+        });
+        return await listAllPages<any>(accessToken, 'files', params, 'files');
+    };
+    const [folders, shared] = await Promise.all([
+        listOwnFolders(),
+        // Own books still show if the shared listing fails
+        listSharedBookFolders(accessToken).catch(e => {
+            console.warn("Failed to list shared books", e);
+            return [] as MemoryBook[];
+        })
+    ]);
+
+    const ownBooks = folders.filter(f => f.name !== 'Papperskorg').map(toListedBook);
+    const ownIds = new Set(ownBooks.map(b => b.id));
+    return [...ownBooks, ...shared.filter(b => !ownIds.has(b.id))];
+};
 
-        const folders = await fetchDriveFiles(accessToken, rootId);
-        const folderList = folders.filter(f => f.type === FileType.FOLDER && f.name !== 'Papperskorg');
-
-        const books = await Promise.all(folderList.map(async (f) => {
-            const coverThumb = await findCoverImageForFolder(accessToken, f.id);
-            
-            const previewItems = coverThumb ? [{
-                id: 'preview-cover',
-                name: 'Omslag',
-                type: FileType.IMAGE,
-                size: 0,
-                modifiedTime: '',
-                thumbnail: coverThumb
-            } as DriveFile] : [];
-
-            return {
-                id: f.id, 
-                title: f.name,
-                createdAt: f.modifiedTime, 
-                items: previewItems, 
-                driveFolderId: f.id
-            };
-        }));
+// Cover thumbnails for listed books, by book id. Books saved with metadata are looked up by
+// their cover id; older ones fall back to searching the folder for an image.
+export const fetchBookCovers = async (accessToken: string, books: MemoryBook[]): Promise<Record<string, string>> => {
+    const covers: Record<string, string> = {};
+    await Promise.all(books.map(async (book) => {
+        if (!book.driveFolderId) return;
+        try {
+            let thumbnail: string | undefined;
+            if (book.summary?.coverId) {
+                const response = await driveFetch(accessToken, `${DRIVE_API_URL}/files/${book.summary.coverId}?fields=thumbnailLink&supportsAllDrives=true`);
+                thumbnail = (await response.json()).thumbnailLink;
+            } else if (!book.summary) {
+                thumbnail = await findCoverImageForFolder(accessToken, book.driveFolderId, book.driveId);
+            }
+            if (thumbnail) covers[book.id] = thumbnail;
+        } catch (e) {
+            console.warn(`No cover for ${book.title}`, e);
+        }
+    }));
+    return covers;
+};
 
-        return books;
-    } catch (e) {
-        console.error("Failed to list books from Drive", e);
-        return [];
-    }
+// Books in the app's Papperskorg folder, with the time they were moved there
+export const listTrashedBookFolders = async (accessToken: string, trashFolderId: string, driveId?: string): Promise<MemoryBook[]> => {
+    const params = new URLSearchParams({
+        q: and(inParents(trashFolderId), isFolder(), notTrashed()),
+        fields: 'nextPageToken, files(id, name, modifiedTime, appProperties)',
+        pageSize: '1000',
+        ...driveScope(driveId)
+    });
+    const folders = await listAllPages<any>(accessToken, 'files', params, 'files');
+
+    return folders.map(f => ({
+        id: f.id,
+        title: f.name,
+        createdAt: f.modifiedTime,
+        items: [],
+        driveFolderId: f.id,
+        driveId,
+        // Unknown for books trashed before we recorded it; those are never purged automatically
+        trashedAt: f.appProperties?.trashedAt
+    }));
+};
+
+// --- SHARING ---
+
+// Everyone with access to a book folder, owner first
+export const listBookCollaborators = async (accessToken: string, folderId: string): Promise<BookCollaborator[]> => {
+    const params = new URLSearchParams({
+        fields: 'nextPageToken, permissions(id, type, role, emailAddress, displayName, photoLink, deleted)',
+        pageSize: '100',
+        supportsAllDrives: 'true'
+    });
+    const permissions = await listAllPages<any>(accessToken, `files/${folderId}/permissions`, params, 'permissions');
+    const order: Record<string, number> = { owner: 0, organizer: 0, fileOrganizer: 1, writer: 1, commenter: 2, reader: 3 };
+    return permissions
+        .filter(p => !p.deleted)
+        .map(p => ({
+            permissionId: p.id,
+            // Shared Drive roles map onto the closest book role
+            role: (p.role === 'organizer' ? 'owner' : p.role === 'fileOrganizer' ? 'writer' : p.role) as CollaboratorRole,
+            email: p.emailAddress,
+            displayName: p.displayName,
+            photoLink: p.photoLink,
+            type: p.type
+        }))
+        .sort((a, b) => (order[a.role] ?? 4) - (order[b.role] ?? 4));
+};
+
+// Drive emails the invitation; addresses without a Google account get a link to create one
+export const shareBookFolder = async (
+    accessToken: string,
+    folderId: string,
+    email: string,
+    role: 'reader' | 'writer',
+    message?: string
+): Promise<void> => {
+    const params = new URLSearchParams({ sendNotificationEmail: 'true', supportsAllDrives: 'true' });
+    if (message) params.set('emailMessage', message);
+    await driveFetch(accessToken, `${DRIVE_API_URL}/files/${folderId}/permissions?${params.toString()}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ type: 'user', role, emailAddress: email.trim() })
+    }, { errorMessage: `Kunde inte bjuda in ${email}` });
+};
+
+export const updateBookCollaboratorRole = async (accessToken: string, folderId: string, permissionId: string, role: 'reader' | 'writer') => {
+    await driveFetch(accessToken, `${DRIVE_API_URL}/files/${folderId}/permissions/${permissionId}?supportsAllDrives=true`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ role })
+    }, { errorMessage: 'Kunde inte ändra behörighet' });
+};
+
+export const revokeBookCollaborator = async (accessToken: string, folderId: string, permissionId: string) => {
+    await driveFetch(accessToken, `${DRIVE_API_URL}/files/${folderId}/permissions/${permissionId}?supportsAllDrives=true`, {
+        method: 'DELETE'
+    }, { errorMessage: 'Kunde inte ta bort behörighet', acceptStatus: [404] });
+};
+
+// Removes my own access to a book someone shared with me
+export const leaveSharedBook = async (accessToken: string, folderId: string) => {
+    const response = await driveFetch(accessToken, `${DRIVE_API_URL}/about?fields=user(permissionId)`);
+    const { user } = await response.json();
+    await revokeBookCollaborator(accessToken, folderId, user.permissionId);
 };
@@ -0,0 +1,204 @@
+import { describe, expect, it } from 'vitest';
+import { readFileSync } from 'node:fs';
+import { formatCamera, parseExifDateTime, readCaptureInfo, readExif, withoutOrientation } from './exif';
+
+interface Tag {
+  tag: number;
+  type: 2 | 3 | 4 | 5; // ASCII, SHORT, LONG, RATIONAL (values as numerator, denominator pairs)
+  values: string | number[];
+}
+
+const VALUE_SIZES = { 2: 1, 3: 2, 4: 4, 5: 8 };
+
+// A TIFF block with IFD0 and, if given, the EXIF and GPS IFDs it points to
+const buildTiff = (littleEndian: boolean, ifd0: Tag[], exif?: Tag[], gps?: Tag[]): Uint8Array => {
+  const ifds = [[...ifd0], ...(exif ? [exif] : []), ...(gps ? [gps] : [])];
+  if (exif) ifds[0].push({ tag: 0x8769, type: 4, values: [0] });
+  if (gps) ifds[0].push({ tag: 0x8825, type: 4, values: [0] });
+
+  let offset = 8;
+  const ifdOffsets = ifds.map(ifd => {
+    const at = offset;
+    offset += 2 + ifd.length * 12 + 4;
+    return at;
+  });
+  ifds[0].forEach(t => {
+    if (t.tag === 0x8769) t.values = [ifdOffsets[1]];
+    if (t.tag === 0x8825) t.values = [ifdOffsets[exif ? 2 : 1]];
+  });
+
+  const view = new DataView(new ArrayBuffer(4096));
+  view.setUint16(0, littleEndian ? 0x4949 : 0x4d4d);
+  view.setUint16(2, 42, littleEndian);
+  view.setUint32(4, 8, littleEndian);
+
+  let dataOffset = offset;
+  ifds.forEach((ifd, i) => {
+    const base = ifdOffsets[i];
+    view.setUint16(base, ifd.length, littleEndian);
+    [...ifd].sort((a, b) => a.tag - b.tag).forEach((t, j) => {
+      const entry = base + 2 + j * 12;
+      const count = typeof t.values === 'string' ? t.values.length + 1 : t.type === 5 ? t.values.length / 2 : t.values.length;
+      const size = count * VALUE_SIZES[t.type];
+      view.setUint16(entry, t.tag, littleEndian);
+      view.setUint16(entry + 2, t.type, littleEndian);
+      view.setUint32(entry + 4, count, littleEndian);
+      let at = entry + 8;
+      if (size > 4) {
+        view.setUint32(entry + 8, dataOffset, littleEndian);
+        at = dataOffset;
+        dataOffset += size + (size % 2);
+      }
+      if (typeof t.values === 'string') Array.from(t.values).forEach((c, k) => view.setUint8(at + k, c.charCodeAt(0)));
+      else t.values.forEach((v, k) => {
+        if (t.type === 3) view.setUint16(at + k * 2, v, littleEndian);
+        else view.setUint32(at + k * 4, v, littleEndian);
+      });
+    });
+  });
+  return new Uint8Array(view.buffer, 0, dataOffset);
+};
+
+// A JPEG with the TIFF block in an APP1 segment, followed by a JFIF segment and the end marker
+const buildJpeg = (tiff: Uint8Array): ArrayBuffer => {
+  const app1Length = 2 + 6 + tiff.length;
+  const bytes = new Uint8Array([
+    0xff, 0xd8,
+    0xff, 0xe1, app1Length >> 8, app1Length & 0xff, ...Array.from('Exif').map(c => c.charCodeAt(0)), 0, 0, ...tiff,
+    0xff, 0xe0, 0, 4, 0, 0,
+    0xff, 0xd9
+  ]);
+  return bytes.buffer;
+};
+
+const fixture = (name: string): ArrayBuffer => {
+  const bytes = readFileSync(new URL(`./fixtures/images/${name}`, import.meta.url));
+  return bytes.buffer.slice(bytes.byteOffset, bytes.byteOffset + bytes.byteLength);
+};
+
+// Stockholm, 59°19'45.48" N 18°3'48.96" E
+const GPS_STOCKHOLM: Tag[] = [
+  { tag: 0x0001, type: 2, values: 'N' },
+  { tag: 0x0002, type: 5, values: [59, 1, 19, 1, 4548, 100] },
+  { tag: 0x0003, type: 2, values: 'E' },
+  { tag: 0x0004, type: 5, values: [18, 1, 3, 1, 4896, 100] }
+];
+
+const photo = (littleEndian: boolean) => buildJpeg(buildTiff(
+  littleEndian,
+  [
+    { tag: 0x010f, type: 2, values: 'Canon' },
+    { tag: 0x0110, type: 2, values: 'Canon EOS 5D' },
+    { tag: 0x0112, type: 3, values: [6] }
+  ],
+  [{ tag: 0x9003, type: 2, values: '2019:05:03 14:22:10' }],
+  GPS_STOCKHOLM
+));
+
+describe('readExif', () => {
+  it.each([['little-endian (Intel)', true], ['big-endian (Motorola)', false]])('reads a %s photo', (_order, littleEndian) => {
+    const exif = readExif(photo(littleEndian));
+    expect(exif?.orientation).toBe(6);
+    expect(exif?.capture.camera).toBe('Canon EOS 5D');
+    expect(exif?.capture.takenAt).toBe('2019-05-03T14:22:10');
+    expect(exif?.capture.latitude).toBeCloseTo(59.3293, 4);
+    expect(exif?.capture.longitude).toBeCloseTo(18.0636, 4);
+  });
+
+  it.each([1, 2, 3, 4, 5, 6, 7, 8])('reads orientation %i', orientation => {
+    for (const littleEndian of [true, false]) {
+      const jpeg = buildJpeg(buildTiff(littleEndian, [{ tag: 0x0112, type: 3, values: [orientation] }]));
+      expect(readExif(jpeg)?.orientation).toBe(orientation);
+    }
+  });
+
+  it('treats an orientation outside 1-8 as upright', () => {
+    expect(readExif(buildJpeg(buildTiff(true, [{ tag: 0x0112, type: 3, values: [9] }])))?.orientation).toBe(1);
+  });
+
+  it('makes southern and western coordinates negative', () => {
+    const gps: Tag[] = [
+      { tag: 0x0001, type: 2, values: 'S' },
+      { tag: 0x0002, type: 5, values: [33, 1, 51, 1, 54, 1] },
+      { tag: 0x0003, type: 2, values: 'W' },
+      { tag: 0x0004, type: 5, values: [70, 1, 30, 1, 0, 1] }
+    ];
+    const { capture } = readExif(buildJpeg(buildTiff(false, [], undefined, gps)))!;
+    expect(capture.latitude).toBeCloseTo(-(33 + 51 / 60 + 54 / 3600), 6);
+    expect(capture.longitude).toBeCloseTo(-70.5, 6);
+  });
+
+  it('leaves out the 0,0 position phones write without a fix, and zero denominators', () => {
+    const gps: Tag[] = [
+      { tag: 0x0002, type: 5, values: [0, 1, 0, 1, 0, 0] },
+      { tag: 0x0004, type: 5, values: [0, 0, 0, 1, 0, 1] }
+    ];
+    expect(readExif(buildJpeg(buildTiff(true, [], undefined, gps)))?.capture.latitude).toBeUndefined();
+  });
+
+  it('reads a TIFF scan directly', () => {
+    expect(readExif(fixture('sample.tiff'))?.orientation).toBe(1);
+  });
+
+  it('returns null for a JPEG without an APP1 segment', () => {
+    expect(readExif(fixture('sample.jpg'))).toBeNull();
+    expect(readExif(fixture('sample.png'))).toBeNull();
+  });
+
+  it('survives a truncated IFD', () => {
+    const full = new Uint8Array(photo(true));
+    for (let length = 0; length < full.length; length += 7) {
+      expect(() => readExif(full.slice(0, length).buffer)).not.toThrow();
+    }
+    // Cut inside IFD0: the entries that are still whole are read
+    expect(readExif(full.slice(0, 12 + 8 + 2 + 12 * 2).buffer)?.orientation).toBe(1);
+  });
+
+  it('ignores offsets pointing outside the file', () => {
+    const tiff = buildTiff(true, [{ tag: 0x0112, type: 3, values: [3] }]);
+    new DataView(tiff.buffer).setUint32(4, 0xfffffff0, true);
+    expect(readExif(buildJpeg(tiff))).toMatchObject({ orientation: 1 });
+  });
+});
+
+describe('withoutOrientation', () => {
+  it.each([true, false])('marks the copy as upright and leaves the original (little-endian: %s)', littleEndian => {
+    const original = photo(littleEndian);
+    expect(readExif(withoutOrientation(original))?.orientation).toBe(1);
+    expect(readExif(original)?.orientation).toBe(6);
+  });
+});
+
+describe('readCaptureInfo', () => {
+  it('reads the capture info of a picked photo', async () => {
+    expect(await readCaptureInfo(new Blob([photo(true)]))).toMatchObject({ camera: 'Canon EOS 5D', takenAt: '2019-05-03T14:22:10' });
+  });
+
+  it('returns undefined for photos without EXIF', async () => {
+    expect(await readCaptureInfo(new Blob([fixture('sample.jpg')]))).toBeUndefined();
+    expect(await readCaptureInfo(new Blob([new Uint8Array([0xff, 0xd8, 0xff, 0xe1, 0xff, 0xff])]))).toBeUndefined();
+  });
+
+  // FileBrowser reads all picked files in one Promise.all; one bad photo must not fail the rest
+  it('never rejects for damaged EXIF', async () => {
+    const original = new Uint8Array(photo(false));
+    for (let at = 12; at < original.length; at += 5) {
+      const damaged = original.slice();
+      damaged.fill(0xff, at, at + 8);
+      expect(() => readExif(damaged.buffer)).not.toThrow();
+      await readCaptureInfo(new Blob([damaged]));
+    }
+  });
+});
+
+describe('formatting helpers', () => {
+  it('drops dates from cameras without a clock', () => {
+    expect(parseExifDateTime('0000:00:00 00:00:00')).toBeUndefined();
+    expect(parseExifDateTime('    ')).toBeUndefined();
+  });
+
+  it('does not repeat the brand', () => {
+    expect(formatCamera('NIKON CORPORATION', 'NIKON D70')).toBe('NIKON D70');
+    expect(formatCamera('Apple', 'iPhone 12')).toBe('Apple iPhone 12');
+  });
+});
@@ -0,0 +1,206 @@
+
+import { CaptureInfo } from '../types';
+
+// Reads the few EXIF tags we use from JPEG photos and TIFF scans: orientation, when the
+// photo was taken, GPS position and camera. HEIC keeps its EXIF elsewhere; for HEIC on Drive
+// we get the same data from Drive's imageMediaMetadata instead.
+
+export interface ExifData {
+  orientation: number; // 1-8 as in the EXIF spec, 1 = as stored
+  capture: CaptureInfo;
+}
+
+// The APP1 segment is at most 64 KB and comes right after the start of the file
+export const EXIF_HEAD_BYTES = 128 * 1024;
+
+const TAG_ORIENTATION = 0x0112;
+const TAG_MAKE = 0x010f;
+const TAG_MODEL = 0x0110;
+const TAG_EXIF_IFD = 0x8769;
+const TAG_GPS_IFD = 0x8825;
+const TAG_DATE_TIME_ORIGINAL = 0x9003;
+const TAG_GPS_LATITUDE_REF = 0x0001;
+const TAG_GPS_LATITUDE = 0x0002;
+const TAG_GPS_LONGITUDE_REF = 0x0003;
+const TAG_GPS_LONGITUDE = 0x0004;
+
+// Bytes per value for the EXIF field types
+const TYPE_SIZES: Record<number, number> = { 1: 1, 2: 1, 3: 2, 4: 4, 5: 8, 7: 1, 9: 4, 10: 8 };
+
+interface IfdEntry {
+  type: number;
+  count: number;
+  valueOffset: number; // Absolute offset of the value in the buffer
+}
+
+interface TiffBlock {
+  view: DataView;
+  start: number; // Offsets inside the TIFF block are relative to this
+  littleEndian: boolean;
+}
+
+// Where the TIFF structure starts: after "Exif\0\0" in a JPEG APP1 segment, or at 0 in a TIFF file
+const findTiffStart = (view: DataView): number | null => {
+  if (view.byteLength < 8) return null;
+  const first = view.getUint16(0);
+  if (first === 0x4949 || first === 0x4d4d) return 0;
+  if (first !== 0xffd8) return null;
+
+  let offset = 2;
+  while (offset + 4 <= view.byteLength) {
+    const marker = view.getUint16(offset);
+    if ((marker & 0xff00) !== 0xff00 || marker === 0xffda) return null; // Image data, no EXIF before it
+    const length = view.getUint16(offset + 2);
+    if (marker === 0xffe1 && offset + 10 <= view.byteLength && view.getUint32(offset + 4) === 0x45786966 && view.getUint16(offset + 8) === 0) {
+      return offset + 10;
+    }
+    offset += 2 + length;
+  }
+  return null;
+};
+
+const readIfd = ({ view, start, littleEndian }: TiffBlock, ifdOffset: number): Map<number, IfdEntry> => {
+  const entries = new Map<number, IfdEntry>();
+  const base = start + ifdOffset;
+  if (base + 2 > view.byteLength) return entries;
+  const count = view.getUint16(base, littleEndian);
+  for (let i = 0; i < count; i++) {
+    const entry = base + 2 + i * 12;
+    if (entry + 12 > view.byteLength) break;
+    const type = view.getUint16(entry + 2, littleEndian);
+    const valueCount = view.getUint32(entry + 4, littleEndian);
+    const size = (TYPE_SIZES[type] || 1) * valueCount;
+    // Values of four bytes or less are stored in the entry itself
+    const valueOffset = size <= 4 ? entry + 8 : start + view.getUint32(entry + 8, littleEndian);
+    if (valueOffset + size > view.byteLength) continue;
+    entries.set(view.getUint16(entry, littleEndian), { type, count: valueCount, valueOffset });
+  }
+  return entries;
+};
+
+const readAscii = ({ view }: TiffBlock, entry?: IfdEntry): string | undefined => {
+  if (!entry || entry.type !== 2) return undefined;
+  let text = '';
+  for (let i = 0; i < entry.count; i++) {
+    const c = view.getUint8(entry.valueOffset + i);
+    if (c === 0) break;
+    text += String.fromCharCode(c);
+  }
+  return text.trim() || undefined;
+};
+
+const readUint = ({ view, littleEndian }: TiffBlock, entry?: IfdEntry): number | undefined => {
+  if (!entry) return undefined;
+  if (entry.type === 3) return view.getUint16(entry.valueOffset, littleEndian);
+  if (entry.type === 4) return view.getUint32(entry.valueOffset, littleEndian);
+  return undefined;
+};
+
+// Degrees, minutes and seconds as three rationals
+const readCoordinate = ({ view, littleEndian }: TiffBlock, entry?: IfdEntry, ref?: string): number | undefined => {
+  if (!entry || entry.type !== 5 || entry.count < 3) return undefined;
+  const parts = [0, 1, 2].map(i => {
+    const numerator = view.getUint32(entry.valueOffset + i * 8, littleEndian);
+    const denominator = view.getUint32(entry.valueOffset + i * 8 + 4, littleEndian);
+    return denominator ? numerator / denominator : 0;
+  });
+  const degrees = parts[0] + parts[1] / 60 + parts[2] / 3600;
+  return ref === 'S' || ref === 'W' ? -degrees : degrees;
+};
+
+const readTiffBlock = (buffer: ArrayBuffer): TiffBlock | null => {
+  const view = new DataView(buffer);
+  const start = findTiffStart(view);
+  if (start === null || start + 8 > view.byteLength) return null;
+  const byteOrder = view.getUint16(start);
+  if (byteOrder !== 0x4949 && byteOrder !== 0x4d4d) return null;
+  const littleEndian = byteOrder === 0x4949;
+  if (view.getUint16(start + 2, littleEndian) !== 42) return null;
+  return { view, start, littleEndian };
+};
+
+// EXIF writes dates as "2019:05:03 14:22:10"; cameras without a clock write zeros or blanks
+export const parseExifDateTime = (value?: string): string | undefined => {
+  const match = value && /^(\d{4}):(\d{2}):(\d{2})[ T](\d{2}):(\d{2}):(\d{2})/.exec(value.trim());
+  if (!match || match[1] === '0000') return undefined;
+  return `${match[1]}-${match[2]}-${match[3]}T${match[4]}:${match[5]}:${match[6]}`;
+};
+
+// Joins make and model without repeating the brand ("Canon Canon EOS 5D" -> "Canon EOS 5D")
+export const formatCamera = (make?: string, model?: string): string | undefined => {
+  if (!make) return model || undefined;
+  if (!model) return make;
+  return model.toLowerCase().startsWith(make.split(' ')[0].toLowerCase()) ? model : `${make} ${model}`;
+};
+
+export const readExif = (buffer: ArrayBuffer): ExifData | null => {
+  const tiff = readTiffBlock(buffer);
+  if (!tiff) return null;
+  const ifd0 = readIfd(tiff, tiff.view.getUint32(tiff.start + 4, tiff.littleEndian));
+
+  const capture: CaptureInfo = { camera: formatCamera(readAscii(tiff, ifd0.get(TAG_MAKE)), readAscii(tiff, ifd0.get(TAG_MODEL))) };
+
+  const exifIfd = readUint(tiff, ifd0.get(TAG_EXIF_IFD));
+  if (exifIfd) {
+    capture.takenAt = parseExifDateTime(readAscii(tiff, readIfd(tiff, exifIfd).get(TAG_DATE_TIME_ORIGINAL)));
+  }
+
+  const gpsIfd = readUint(tiff, ifd0.get(TAG_GPS_IFD));
+  if (gpsIfd) {
+    const gps = readIfd(tiff, gpsIfd);
+    const latitude = readCoordinate(tiff, gps.get(TAG_GPS_LATITUDE), readAscii(tiff, gps.get(TAG_GPS_LATITUDE_REF)));
+    const longitude = readCoordinate(tiff, gps.get(TAG_GPS_LONGITUDE), readAscii(tiff, gps.get(TAG_GPS_LONGITUDE_REF)));
+    // 0,0 is what phones write when they had no fix
+    if (latitude !== undefined && longitude !== undefined && (latitude !== 0 || longitude !== 0)) {
+      capture.latitude = latitude;
+      capture.longitude = longitude;
+    }
+  }
+
+  const orientation = readUint(tiff, ifd0.get(TAG_ORIENTATION));
+  return { orientation: orientation && orientation <= 8 ? orientation : 1, capture };
+};
+
+// A copy of the image whose orientation tag says "as stored", so the browser hands us the
+// pixels unrotated and we can apply the orientation ourselves
+export const withoutOrientation = (buffer: ArrayBuffer): ArrayBuffer => {
+  const copy = buffer.slice(0);
+  const tiff = readTiffBlock(copy);
+  if (!tiff) return copy;
+  const entry = readIfd(tiff, tiff.view.getUint32(tiff.start + 4, tiff.littleEndian)).get(TAG_ORIENTATION);
+  if (entry?.type === 3) tiff.view.setUint16(entry.valueOffset, 1, tiff.littleEndian);
+  return copy;
+};
+
+export const hasCaptureInfo = (info?: CaptureInfo): info is CaptureInfo =>
+  !!info && !!(info.takenAt || info.latitude !== undefined || info.camera);
+
+// Capture info for a picked file, reading only the start of it. Never rejects: a photo with
+// broken EXIF is added without capture info rather than failing the whole selection.
+export const readCaptureInfo = async (file: Blob): Promise<CaptureInfo | undefined> => {
+  try {
+    const exif = readExif(await file.slice(0, EXIF_HEAD_BYTES).arrayBuffer());
+    return hasCaptureInfo(exif?.capture) ? exif!.capture : undefined;
+  } catch (e) {
+    console.warn('Could not read EXIF', e);
+    return undefined;
+  }
+};
+
+export const formatCaptureDate = (takenAt: string): string => {
+  const [date, time] = takenAt.split('T');
+  const [year, month, day] = date.split('-').map(Number);
+  const text = new Date(year, month - 1, day).toLocaleDateString('sv-SE', { year: 'numeric', month: 'long', day: 'numeric' });
+  // Midnight exactly usually means a scanner or app that only knew the date
+  return time && time !== '00:00:00' ? `${text} kl. ${time.slice(0, 5)}` : text;
+};
+
+export const formatCoordinates = (latitude: number, longitude: number): string =>
+  `${Math.abs(latitude).toFixed(5)}° ${latitude < 0 ? 'S' : 'N'}, ${Math.abs(longitude).toFixed(5)}° ${longitude < 0 ? 'V' : 'Ö'}`;
+
+// One caption line, e.g. "Fotograferad 3 maj 2019 kl. 14:22 · 59.32930° N, 18.06860° Ö · Canon EOS 5D"
+export const describeCaptureInfo = (info: CaptureInfo): string => [
+  info.takenAt && `Fotograferad ${formatCaptureDate(info.takenAt)}`,
+  info.latitude !== undefined && info.longitude !== undefined && formatCoordinates(info.latitude, info.longitude),
+  info.camera
+].filter(Boolean).join(' · ');
@@ -0,0 +1,41 @@
+import { describe, expect, it } from 'vitest';
+import { folderTreeToItems, summarizeFolderTree, FolderTree } from './folderImport';
+import { DriveFile, FileType } from '../types';
+
+const file = (id: string, size: number = 100): DriveFile => ({ id, name: `${id}.jpg`, type: FileType.IMAGE, size, modifiedTime: '2020-01-01T00:00:00Z' });
+
+const folder = (id: string, files: DriveFile[], subfolders: FolderTree[] = []): FolderTree => ({ id, name: `Mapp ${id}`, files, subfolders, skippedFolders: 0 });
+
+const tree = folder('root', [file('a'), file('b')], [
+  folder('sommar', [file('c'), file('a')]), // 'a' has two parents
+  folder('vinter', [file('d')])
+]);
+
+describe('folderTreeToItems', () => {
+  it('adds a chapter per folder followed by its files', () => {
+    const items = folderTreeToItems(tree);
+    expect(items.map(i => i.type === FileType.HEADER ? `# ${i.headerText}` : i.id))
+      .toEqual(['# Mapp root', 'a', 'b', '# Mapp sommar', 'c', '# Mapp vinter', 'd']);
+  });
+
+  it('leaves out files the book or selection already has', () => {
+    const items = folderTreeToItems(tree, ['b', 'd']);
+    expect(items.map(i => i.type === FileType.HEADER ? `# ${i.headerText}` : i.id))
+      .toEqual(['# Mapp root', 'a', '# Mapp sommar', 'c']);
+  });
+
+  it('never returns the same id twice', () => {
+    const ids = folderTreeToItems(tree, ['c']).map(i => i.id);
+    expect(new Set(ids).size).toBe(ids.length);
+  });
+});
+
+describe('summarizeFolderTree', () => {
+  it('counts only the files that will be added', () => {
+    expect(summarizeFolderTree(tree, ['b', 'd'])).toEqual({ fileCount: 2, chapterCount: 2, totalSize: 200, skippedFolders: 0, alreadyAdded: 3 });
+  });
+
+  it('counts a file in two folders once', () => {
+    expect(summarizeFolderTree(tree)).toMatchObject({ fileCount: 4, alreadyAdded: 1 });
+  });
+});
@@ -0,0 +1,129 @@
+
+import { DriveFile, FileType, CaptureInfo } from '../types';
+import { fetchDriveFiles } from './driveService';
+
+// Importing a whole Drive folder tree: each folder becomes a chapter (a HEADER item)
+// followed by its files, in the order the folders and files are sorted.
+
+export type FolderSortOrder = 'name' | 'modifiedTime' | 'takenAt';
+
+export interface FolderImportOptions {
+  maxDepth: number;      // Levels of subfolders to include; 0 = only the folder itself
+  sortBy: FolderSortOrder;
+}
+
+export interface FolderTree {
+  id: string;
+  name: string;
+  files: DriveFile[];
+  subfolders: FolderTree[];
+  skippedFolders: number; // Subfolders below maxDepth, or past the scan limit
+}
+
+export interface FolderTreeSummary {
+  fileCount: number;
+  chapterCount: number;
+  totalSize: number;
+  skippedFolders: number;
+  alreadyAdded: number; // Files left out because the book (or the selection) already has them
+}
+
+// Keeps a mistaken click on a huge folder from listing all of Drive
+const MAX_SCANNED_FOLDERS = 300;
+
+type Sortable = { name: string, modifiedTime?: string, captureInfo?: CaptureInfo };
+
+// Photos without a capture date (and folders) are placed by when they were last changed
+const takenOrModified = (f: Sortable) => f.captureInfo?.takenAt || f.modifiedTime || '';
+
+const compareBy = (sortBy: FolderSortOrder) => (a: Sortable, b: Sortable) =>
+  sortBy === 'modifiedTime'
+    ? (a.modifiedTime || '').localeCompare(b.modifiedTime || '') // Oldest first, like a photo album
+    : sortBy === 'takenAt'
+      ? takenOrModified(a).localeCompare(takenOrModified(b))
+      : a.name.localeCompare(b.name, undefined, { numeric: true, sensitivity: 'base' });
+
+// Lists the folder and its subfolders, one folder at a time.
+// onProgress gets the number of folders read so far; isCancelled stops the walk early.
+export const scanFolderTree = async (
+  accessToken: string,
+  folder: { id: string, name: string },
+  driveId: string | undefined,
+  options: FolderImportOptions,
+  onProgress?: (foldersScanned: number) => void,
+  isCancelled: () => boolean = () => false
+): Promise<FolderTree> => {
+  let scanned = 0;
+
+  const walk = async (current: { id: string, name: string }, depth: number): Promise<FolderTree> => {
+    const contents = await fetchDriveFiles(accessToken, current.id, driveId);
+    scanned++;
+    onProgress?.(scanned);
+
+    const folders = contents.filter(f => f.type === FileType.FOLDER).sort(compareBy(options.sortBy));
+    const tree: FolderTree = {
+      id: current.id,
+      name: current.name,
+      files: contents.filter(f => f.type !== FileType.FOLDER).sort(compareBy(options.sortBy)),
+      subfolders: [],
+      skippedFolders: 0
+    };
+    for (const sub of folders) {
+      if (depth >= options.maxDepth || scanned >= MAX_SCANNED_FOLDERS || isCancelled()) {
+        tree.skippedFolders++;
+        continue;
+      }
+      tree.subfolders.push(await walk(sub, depth + 1));
+    }
+    return tree;
+  };
+
+  return walk(folder, 0);
+};
+
+// Each folder with the files it adds, depth first. Files whose id is in existingIds, or that
+// an earlier folder already had (a file can have several parents), are left out.
+const foldersWithNewFiles = (tree: FolderTree, existingIds: Iterable<string>): { node: FolderTree, files: DriveFile[] }[] => {
+  const seen = new Set(existingIds);
+  const folders: { node: FolderTree, files: DriveFile[] }[] = [];
+  const visit = (node: FolderTree) => {
+    const files = node.files.filter(f => !seen.has(f.id));
+    files.forEach(f => seen.add(f.id));
+    folders.push({ node, files });
+    node.subfolders.forEach(visit);
+  };
+  visit(tree);
+  return folders;
+};
+
+export const summarizeFolderTree = (tree: FolderTree, existingIds: Iterable<string> = []): FolderTreeSummary => {
+  const summary: FolderTreeSummary = { fileCount: 0, chapterCount: 0, totalSize: 0, skippedFolders: 0, alreadyAdded: 0 };
+  foldersWithNewFiles(tree, existingIds).forEach(({ node, files }) => {
+    if (files.length > 0) summary.chapterCount++;
+    summary.fileCount += files.length;
+    summary.totalSize += files.reduce((sum, f) => sum + (f.size || 0), 0);
+    summary.skippedFolders += node.skippedFolders;
+    summary.alreadyAdded += node.files.length - files.length;
+  });
+  return summary;
+};
+
+// A chapter per folder that adds files, depth first, so subfolders follow their parent.
+// Folders with only subfolders, or only files the book already has, get no chapter of their own.
+export const folderTreeToItems = (tree: FolderTree, existingIds: Iterable<string> = []): DriveFile[] => {
+  const items: DriveFile[] = [];
+  foldersWithNewFiles(tree, existingIds).forEach(({ node, files }) => {
+    if (files.length > 0) {
+      items.push({
+        id: `header-${Date.now()}-${node.id}`,
+        name: `Kapitel: ${node.name}`,
+        type: FileType.HEADER,
+        size: 0,
+        modifiedTime: new Date().toLocaleDateString(),
+        headerText: node.name
+      });
+      items.push(...files);
+    }
+  });
+  return items;
+};
@@ -0,0 +1,92 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { readFileSync } from 'node:fs';
+import heic2any from 'heic2any';
+import { decodeImage, isImageFile, sniffImageFormat, UnsupportedImageError } from './imageDecode';
+
+vi.mock('heic2any', () => ({ default: vi.fn() }));
+
+// Tiny 16x16 images; the HEIC and AVIF fixtures hold only the container header, which is all
+// the sniffing reads, since nothing in Node can encode those formats
+const fixture = (name: string): ArrayBuffer => {
+  const bytes = readFileSync(new URL(`./fixtures/images/${name}`, import.meta.url));
+  return bytes.buffer.slice(bytes.byteOffset, bytes.byteOffset + bytes.byteLength);
+};
+
+describe('sniffImageFormat', () => {
+  it.each([
+    ['sample.jpg', 'jpeg'],
+    ['sample.png', 'png'],
+    ['sample.gif', 'gif'],
+    ['sample.webp', 'webp'],
+    ['sample.tiff', 'tiff'],
+    ['sample.bmp', 'bmp'],
+    ['sample-header.heic', 'heic'],
+    ['sample-header.avif', 'avif']
+  ])('recognises %s as %s', (name, format) => {
+    expect(sniffImageFormat(fixture(name))).toBe(format);
+  });
+
+  it('does not trust the file name', () => {
+    expect(sniffImageFormat(new TextEncoder().encode('inte en bild').buffer)).toBe('unknown');
+  });
+});
+
+describe('isImageFile', () => {
+  it('accepts HEIC files without a MIME type', () => {
+    expect(isImageFile(new File([], 'IMG_0001.HEIC'))).toBe(true);
+    expect(isImageFile(new File([], 'brev.txt', { type: 'text/plain' }))).toBe(false);
+  });
+});
+
+describe('decodeImage without native support', () => {
+  const putImageData = vi.fn();
+  const canvas = { width: 0, height: 0, getContext: () => ({ putImageData }) };
+  const bitmap = { width: 16, height: 16, close: () => {} };
+  const createImageBitmap = vi.fn();
+
+  beforeEach(() => {
+    createImageBitmap.mockReset().mockRejectedValueOnce(new Error('not supported')).mockResolvedValue(bitmap);
+    putImageData.mockReset();
+    vi.stubGlobal('createImageBitmap', createImageBitmap);
+    vi.stubGlobal('document', { createElement: () => canvas });
+    vi.stubGlobal('ImageData', class {
+      constructor(public data: Uint8ClampedArray, public width: number, public height: number) {}
+    });
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+  });
+
+  it('decodes TIFF scans with UTIF', async () => {
+    const result = await decodeImage(fixture('sample.tiff'));
+    expect(result).toBe(canvas);
+    expect(canvas).toMatchObject({ width: 16, height: 16 });
+    const [imageData] = putImageData.mock.calls[0];
+    expect(imageData.data).toHaveLength(16 * 16 * 4);
+  });
+
+  it('converts HEIC photos with heic2any and keeps the first of a burst', async () => {
+    const first = new Blob(['first'], { type: 'image/png' });
+    vi.mocked(heic2any).mockResolvedValue([first, new Blob(['second'])]);
+    expect(await decodeImage(fixture('sample-header.heic'))).toBe(bitmap);
+    expect(heic2any).toHaveBeenCalledWith(expect.objectContaining({ toType: 'image/png' }));
+    expect(createImageBitmap).toHaveBeenLastCalledWith(first, expect.anything());
+  });
+
+  it('explains which format could not be read', async () => {
+    vi.mocked(heic2any).mockRejectedValue(new Error('corrupt'));
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const error = await decodeImage(fixture('sample-header.heic')).catch(e => e);
+    expect(error).toBeInstanceOf(UnsupportedImageError);
+    expect(error.format).toBe('heic');
+  });
+
+  it('suggests JPG for formats there is no decoder for', async () => {
+    createImageBitmap.mockReset().mockRejectedValue(new Error('not supported'));
+    const error = await decodeImage(fixture('sample.bmp')).catch(e => e);
+    expect(error).toBeInstanceOf(UnsupportedImageError);
+    expect(error.message).toContain('JPG eller PNG');
+  });
+});
@@ -0,0 +1,177 @@
+
+import { readExif, withoutOrientation } from './exif';
+
+// Turns any photo or scan we accept into something pdf-lib can embed (JPEG or PNG).
+// Browsers decode GIF, WebP and AVIF themselves. HEIC (iPhone photos) and TIFF (archive scans)
+// only decode natively in Safari; elsewhere heic2any or UTIF is loaded the first time one is
+// needed, so the decoders stay out of the main bundle.
+// Decoding goes through createImageBitmap, which converts embedded colour profiles to sRGB.
+// Browsers differ in whether they honour the EXIF orientation, and pdf-lib ignores it, so for
+// JPEGs we read it ourselves and rotate on a canvas; portrait phone photos then stay upright.
+
+export type ImageFormat = 'jpeg' | 'png' | 'gif' | 'webp' | 'avif' | 'heic' | 'tiff' | 'bmp' | 'unknown';
+
+export class UnsupportedImageError extends Error {
+  format: ImageFormat;
+
+  constructor(format: ImageFormat, message: string) {
+    super(message);
+    this.name = 'UnsupportedImageError';
+    this.format = format;
+  }
+}
+
+const NORMALIZED_JPEG_QUALITY = 0.92;
+
+const HEIF_BRANDS = ['heic', 'heix', 'hevc', 'hevx', 'heim', 'heis', 'mif1', 'msf1'];
+
+const MIME_TYPES: Record<ImageFormat, string> = {
+  jpeg: 'image/jpeg',
+  png: 'image/png',
+  gif: 'image/gif',
+  webp: 'image/webp',
+  avif: 'image/avif',
+  heic: 'image/heic',
+  tiff: 'image/tiff',
+  bmp: 'image/bmp',
+  unknown: 'application/octet-stream'
+};
+
+const IMAGE_EXTENSIONS = /\.(jpe?g|png|gif|webp|avif|heic|heif|tiff?|bmp)$/i;
+
+// Files picked on Windows often have no MIME type for HEIC
+export const isImageFile = (file: File) => file.type.startsWith('image/') || IMAGE_EXTENSIONS.test(file.name);
+
+// Identifies the format from the first bytes; file names and MIME types are often wrong
+export const sniffImageFormat = (buffer: ArrayBuffer): ImageFormat => {
+  const b = new Uint8Array(buffer, 0, Math.min(buffer.byteLength, 16));
+  const ascii = (from: number, to: number) => String.fromCharCode(...b.slice(from, to));
+  if (b[0] === 0xff && b[1] === 0xd8 && b[2] === 0xff) return 'jpeg';
+  if (b[0] === 0x89 && ascii(1, 4) === 'PNG') return 'png';
+  if (ascii(0, 4) === 'GIF8') return 'gif';
+  if (ascii(0, 4) === 'RIFF' && ascii(8, 12) === 'WEBP') return 'webp';
+  if ((b[0] === 0x49 && b[1] === 0x49 && b[2] === 0x2a && b[3] === 0x00) || (b[0] === 0x4d && b[1] === 0x4d && b[2] === 0x00 && b[3] === 0x2a)) return 'tiff';
+  if (ascii(0, 2) === 'BM') return 'bmp';
+  if (ascii(4, 8) === 'ftyp') {
+    const brand = ascii(8, 12);
+    if (brand === 'avif' || brand === 'avis') return 'avif';
+    if (HEIF_BRANDS.includes(brand)) return 'heic';
+  }
+  return 'unknown';
+};
+
+const decodeNatively = (blob: Blob): Promise<ImageBitmap> =>
+  createImageBitmap(blob, { imageOrientation: 'from-image', colorSpaceConversion: 'default' });
+
+const decodeHeic = async (blob: Blob): Promise<ImageBitmap> => {
+  const { default: heic2any } = await import('heic2any');
+  const converted = await heic2any({ blob, toType: 'image/png' });
+  // Burst photos come back as several images; the first is the one shown in Photos
+  return decodeNatively(Array.isArray(converted) ? converted[0] : converted);
+};
+
+const decodeTiff = async (buffer: ArrayBuffer): Promise<HTMLCanvasElement> => {
+  const UTIF = await import('utif');
+  const pages = UTIF.decode(buffer);
+  if (!pages.length) throw new Error('TIFF without images');
+  // Multi-page scans: the first page, like an image viewer shows it
+  UTIF.decodeImage(buffer, pages[0]);
+  const rgba = UTIF.toRGBA8(pages[0]);
+  const canvas = document.createElement('canvas');
+  canvas.width = pages[0].width;
+  canvas.height = pages[0].height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('Canvas not available');
+  ctx.putImageData(new ImageData(new Uint8ClampedArray(rgba), canvas.width, canvas.height), 0, 0);
+  return canvas;
+};
+
+// Canvas transforms for EXIF orientations 2-8, mapping the stored pixels (w x h) upright
+const ORIENTATION_TRANSFORMS: Record<number, (w: number, h: number) => [number, number, number, number, number, number]> = {
+  2: (w) => [-1, 0, 0, 1, w, 0],       // Mirrored
+  3: (w, h) => [-1, 0, 0, -1, w, h],   // Upside down
+  4: (_w, h) => [1, 0, 0, -1, 0, h],   // Mirrored upside down
+  5: () => [0, 1, 1, 0, 0, 0],         // Mirrored, on its side
+  6: (_w, h) => [0, 1, -1, 0, h, 0],   // Rotated 90° clockwise (phone held upright)
+  7: (w, h) => [0, -1, -1, 0, h, w],   // Mirrored, on its other side
+  8: (w) => [0, -1, 1, 0, 0, w]        // Rotated 90° counter-clockwise
+};
+
+const decodeOrientedJpeg = async (buffer: ArrayBuffer, orientation: number): Promise<HTMLCanvasElement> => {
+  const bitmap = await decodeNatively(new Blob([withoutOrientation(buffer)], { type: MIME_TYPES.jpeg }));
+  const { width, height } = bitmap;
+  const canvas = document.createElement('canvas');
+  const swapsSides = orientation >= 5;
+  canvas.width = swapsSides ? height : width;
+  canvas.height = swapsSides ? width : height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('Canvas not available');
+  ctx.transform(...ORIENTATION_TRANSFORMS[orientation](width, height));
+  ctx.drawImage(bitmap, 0, 0);
+  bitmap.close();
+  return canvas;
+};
+
+const jpegOrientation = (buffer: ArrayBuffer): number => {
+  try {
+    return readExif(buffer)?.orientation || 1;
+  } catch {
+    return 1;
+  }
+};
+
+// Something that can be drawn on a canvas, whatever format the image was in, turned upright
+export const decodeImage = async (buffer: ArrayBuffer): Promise<ImageBitmap | HTMLCanvasElement> => {
+  const format = sniffImageFormat(buffer);
+  if (format === 'jpeg') {
+    const orientation = jpegOrientation(buffer);
+    if (orientation > 1) {
+      try {
+        return await decodeOrientedJpeg(buffer, orientation);
+      } catch (e) {
+        console.warn('Could not rotate JPEG, drawing it as stored', e);
+      }
+    }
+  }
+  const blob = new Blob([buffer], { type: MIME_TYPES[format] });
+  try {
+    return await decodeNatively(blob);
+  } catch {
+    try {
+      if (format === 'heic') return await decodeHeic(blob);
+      if (format === 'tiff') return await decodeTiff(buffer);
+    } catch (e) {
+      console.warn(`Could not decode ${format} image`, e);
+      throw new UnsupportedImageError(format, `Bilden (${format.toUpperCase()}) kunde inte läsas. Kontrollera din anslutning eller spara den som JPG.`);
+    }
+    throw new UnsupportedImageError(format, 'Bildformatet stöds ej. Spara bilden som JPG eller PNG.');
+  }
+};
+
+const canvasToBuffer = (canvas: HTMLCanvasElement, mimeType: string, quality?: number): Promise<ArrayBuffer> =>
+  new Promise((resolve, reject) => canvas.toBlob(
+    blob => blob ? blob.arrayBuffer().then(resolve, reject) : reject(new Error('Canvas export failed')),
+    mimeType,
+    quality
+  ));
+
+// JPEG and PNG are passed through; everything else, and rotated JPEGs, is decoded and re-encoded.
+// Formats that can be transparent become PNG, photos become JPEG.
+export const toEmbeddableImage = async (buffer: ArrayBuffer): Promise<{ buffer: ArrayBuffer, format: 'jpeg' | 'png' }> => {
+  const format = sniffImageFormat(buffer);
+  if (format === 'png' || (format === 'jpeg' && jpegOrientation(buffer) === 1)) return { buffer, format };
+
+  const image = await decodeImage(buffer);
+  const canvas = document.createElement('canvas');
+  canvas.width = image.width;
+  canvas.height = image.height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new UnsupportedImageError(format, 'Bilden kunde inte konverteras.');
+  ctx.drawImage(image, 0, 0);
+  if ('close' in image) image.close();
+
+  const asPng = format === 'gif' || format === 'webp' || format === 'bmp';
+  return asPng
+    ? { buffer: await canvasToBuffer(canvas, 'image/png'), format: 'png' }
+    : { buffer: await canvasToBuffer(canvas, 'image/jpeg', NORMALIZED_JPEG_QUALITY), format: 'jpeg' };
+};
@@ -0,0 +1,93 @@
+
+import { DriveFile, FileType, MemoryBook } from '../types';
+import { BookStorageProvider } from './bookStorage';
+import { fetchFileBlob } from './driveService';
+
+// Local items (files picked from the computer, split or merged PDFs) only exist as blob: URLs
+// in this tab. Before they are lost on reload we upload them once into the book folder and
+// swap the item over to the Drive file, so every device can render the page.
+
+const EXTENSIONS: Record<string, string> = {
+  'application/pdf': 'pdf',
+  'image/jpeg': 'jpg',
+  'image/png': 'png',
+  'image/gif': 'gif',
+  'image/webp': 'webp',
+  'image/heic': 'heic',
+  'image/tiff': 'tif',
+  'text/plain': 'txt'
+};
+
+// Items with content that only exists in this browser
+export const needsMaterializing = (item: DriveFile): boolean =>
+  !!item.isLocal && !!(item.fileObj || item.blobUrl);
+
+const guessMimeType = (item: DriveFile): string => {
+  if (item.type === FileType.PDF) return 'application/pdf';
+  if (item.type === FileType.IMAGE) return 'image/jpeg';
+  return 'application/octet-stream';
+};
+
+const withExtension = (name: string, mimeType: string): string => {
+  const extension = EXTENSIONS[mimeType];
+  if (!extension || name.toLowerCase().endsWith(`.${extension}`)) return name;
+  // "IMG_0001.jpeg" is already fine for image/jpeg
+  if (mimeType === 'image/jpeg' && /\.jpe?g$/i.test(name)) return name;
+  return `${name}.${extension}`;
+};
+
+const readSource = async (item: DriveFile): Promise<Blob | null> => {
+  if (item.fileObj) return item.fileObj;
+  if (!item.blobUrl) return null;
+  try {
+    const res = await fetch(item.blobUrl);
+    return res.ok ? await res.blob() : null;
+  } catch {
+    return null;
+  }
+};
+
+// Uploads the item's original bytes and returns it pointing at the uploaded file.
+// Safe to call again for the same item: the upload is keyed on the local id, so a retry
+// after a reload reuses the earlier upload instead of creating a duplicate.
+// Returns null if the content can no longer be read (e.g. the blob URL died with its tab).
+export const materializeLocalItem = async (
+  storage: BookStorageProvider,
+  book: MemoryBook,
+  item: DriveFile
+): Promise<DriveFile | null> => {
+  const blob = await readSource(item);
+  if (!blob) return null;
+
+  const mimeType = blob.type || guessMimeType(item);
+  const driveId = await storage.uploadArtifact(book, withExtension(item.name, mimeType), blob, mimeType, { sourceKey: item.id });
+  if (!driveId) return null;
+
+  // blobUrl stays for this session so the tile doesn't flicker; it's never persisted
+  return {
+    ...item,
+    id: driveId,
+    isLocal: false,
+    fileObj: undefined,
+    size: blob.size
+  };
+};
+
+// A file from another signed-in account's Drive can't be read with the book's token.
+// Download it with the source account's token and return it as a local item, so it is
+// uploaded into the book folder like a file picked from the computer.
+// Google Docs are exported as PDF on the way.
+export const copyFromAccount = async (sourceToken: string, file: DriveFile): Promise<DriveFile> => {
+  const isGoogleDoc = file.type === FileType.GOOGLE_DOC;
+  const blob = await fetchFileBlob(sourceToken, file.id, isGoogleDoc);
+  const fileObj = new File([blob], isGoogleDoc ? withExtension(file.name, 'application/pdf') : file.name, { type: blob.type });
+  return {
+    ...file,
+    id: `local-${Date.now()}-${file.id}`,
+    type: isGoogleDoc ? FileType.PDF : file.type,
+    size: blob.size,
+    isLocal: true,
+    fileObj,
+    blobUrl: URL.createObjectURL(blob)
+  };
+};
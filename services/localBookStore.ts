@@ -0,0 +1,251 @@
+
+import { DriveFile, MemoryBook, CompressionLevel } from '../types';
+import { ProjectConflictError } from './projectMerge';
+import { migrateProject } from './projectSchema';
+
+// Offline copy of books in IndexedDB.
+// 'books' holds the same JSON we save as project.json, 'itemBlobs' holds what that JSON
+// can't: the original bytes of local items and the compressed processedBuffer caches.
+// 'syncQueue' lists books whose latest local version has not reached Drive yet.
+
+const DB_NAME = 'dela-din-historia';
+const DB_VERSION = 1;
+const BOOKS_STORE = 'books';
+const BLOBS_STORE = 'itemBlobs';
+const SYNC_STORE = 'syncQueue';
+
+interface ItemBlobRecord {
+  key: string; // `${bookId}/${itemId}`
+  bookId: string;
+  itemId: string;
+  source?: Blob;
+  processedBuffer?: ArrayBuffer;
+  processedSize?: number;
+  compressionLevelUsed?: CompressionLevel;
+}
+
+export interface SyncQueueEntry {
+  bookId: string;
+  queuedAt: number;
+  attempts: number;
+  lastError?: string;
+  resolvedRevision?: string; // Set when the queued version resolves a conflict
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDb = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(BOOKS_STORE)) db.createObjectStore(BOOKS_STORE, { keyPath: 'id' });
+        if (!db.objectStoreNames.contains(BLOBS_STORE)) {
+          const blobs = db.createObjectStore(BLOBS_STORE, { keyPath: 'key' });
+          blobs.createIndex('bookId', 'bookId');
+        }
+        if (!db.objectStoreNames.contains(SYNC_STORE)) db.createObjectStore(SYNC_STORE, { keyPath: 'bookId' });
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+};
+
+const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> => new Promise((resolve, reject) => {
+  request.onsuccess = () => resolve(request.result);
+  request.onerror = () => reject(request.error);
+});
+
+const withStore = async <T>(
+  storeName: string,
+  mode: IDBTransactionMode,
+  run: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> => {
+  const db = await openDb();
+  return requestToPromise(run(db.transaction(storeName, mode).objectStore(storeName)));
+};
+
+const blobKey = (bookId: string, itemId: string) => `${bookId}/${itemId}`;
+
+// Same cleanup as project.json: binary data and dead blob: URLs never go into the JSON
+const stripItem = (item: DriveFile): DriveFile => ({
+  ...item,
+  processedBuffer: undefined,
+  blobUrl: undefined,
+  fileObj: undefined,
+  thumbnail: (item.thumbnail && item.thumbnail.startsWith('blob:')) ? undefined : item.thumbnail
+});
+
+const readLocalSource = async (item: DriveFile): Promise<Blob | undefined> => {
+  if (!item.isLocal) return undefined;
+  if (item.fileObj) return item.fileObj;
+  if (!item.blobUrl) return undefined;
+  try {
+    const res = await fetch(item.blobUrl);
+    return res.ok ? await res.blob() : undefined;
+  } catch {
+    return undefined;
+  }
+};
+
+// --- BOOKS ---
+
+export const saveLocalBook = async (book: MemoryBook): Promise<void> => {
+  const existing = await withStore<ItemBlobRecord[]>(BLOBS_STORE, 'readonly', store => store.index('bookId').getAll(book.id));
+  const existingByItem = new Map(existing.map(r => [r.itemId, r]));
+  const itemIds = new Set(book.items.map(i => i.id));
+
+  // Only write blob records that gained something, autosave runs every few seconds
+  for (const item of book.items) {
+    const current = existingByItem.get(item.id);
+    const record: ItemBlobRecord = current ? { ...current } : { key: blobKey(book.id, item.id), bookId: book.id, itemId: item.id };
+    let changed = false;
+
+    if (!record.source) {
+      const source = await readLocalSource(item);
+      if (source) { record.source = source; changed = true; }
+    }
+    if (item.processedBuffer && (record.compressionLevelUsed !== item.compressionLevelUsed || record.processedSize !== item.processedSize)) {
+      record.processedBuffer = item.processedBuffer;
+      record.processedSize = item.processedSize;
+      record.compressionLevelUsed = item.compressionLevelUsed;
+      changed = true;
+    }
+    if (changed) await withStore(BLOBS_STORE, 'readwrite', store => store.put(record));
+  }
+
+  // Drop data for items removed from the book
+  for (const record of existing) {
+    if (!itemIds.has(record.itemId)) await withStore(BLOBS_STORE, 'readwrite', store => store.delete(record.key));
+  }
+
+  const cleanBook: MemoryBook = {
+    ...book,
+    items: book.items.map(stripItem),
+    chunks: book.chunks?.map(chunk => ({ ...chunk, items: chunk.items.map(stripItem) }))
+  };
+  await withStore(BOOKS_STORE, 'readwrite', store => store.put(cleanBook));
+};
+
+// Returns the book with processed caches restored and fresh blob: URLs for local items.
+// Pass attachBlobs = false when only the JSON is needed (e.g. pushing it to Drive).
+export const loadLocalBook = async (bookId: string, attachBlobs: boolean = true): Promise<MemoryBook | null> => {
+  const stored = await withStore<MemoryBook | undefined>(BOOKS_STORE, 'readonly', store => store.get(bookId));
+  if (!stored) return null;
+  let book: MemoryBook;
+  try {
+    // Copies written by an older version of the app are upgraded like project.json
+    book = migrateProject(stored).book;
+  } catch (e) {
+    console.warn("Ignoring unreadable local copy", bookId, e);
+    return null;
+  }
+  if (!attachBlobs) return book;
+  const records = await withStore<ItemBlobRecord[]>(BLOBS_STORE, 'readonly', store => store.index('bookId').getAll(bookId));
+  return { ...book, items: attachLocalData(book.items, records) };
+};
+
+const attachLocalData = (items: DriveFile[], records: ItemBlobRecord[]): DriveFile[] => {
+  const byItem = new Map(records.map(r => [r.itemId, r]));
+  return items.map(item => {
+    const record = byItem.get(item.id);
+    if (!record) return item;
+    const hasCache = record.processedBuffer && record.compressionLevelUsed === item.compressionLevelUsed;
+    return {
+      ...item,
+      blobUrl: record.source ? URL.createObjectURL(record.source) : item.blobUrl,
+      processedBuffer: hasCache ? record.processedBuffer : item.processedBuffer
+    };
+  });
+};
+
+// Re-attaches cached buffers to a book loaded from elsewhere (e.g. Drive) so they
+// don't have to be recompressed after a reload
+export const restoreLocalCaches = async (book: MemoryBook): Promise<MemoryBook> => {
+  try {
+    const records = await withStore<ItemBlobRecord[]>(BLOBS_STORE, 'readonly', store => store.index('bookId').getAll(book.id));
+    return { ...book, items: attachLocalData(book.items, records) };
+  } catch (e) {
+    console.warn("Could not read local caches", e);
+    return book;
+  }
+};
+
+export const listLocalBooks = (): Promise<MemoryBook[]> =>
+  withStore<MemoryBook[]>(BOOKS_STORE, 'readonly', store => store.getAll());
+
+export const deleteLocalBook = async (bookId: string): Promise<void> => {
+  const records = await withStore<ItemBlobRecord[]>(BLOBS_STORE, 'readonly', store => store.index('bookId').getAll(bookId));
+  for (const record of records) await withStore(BLOBS_STORE, 'readwrite', store => store.delete(record.key));
+  await withStore(BOOKS_STORE, 'readwrite', store => store.delete(bookId));
+  await withStore(SYNC_STORE, 'readwrite', store => store.delete(bookId));
+};
+
+// --- SYNC QUEUE ---
+
+export const enqueueBookSync = async (bookId: string, resolvedRevision?: string): Promise<SyncQueueEntry> => {
+  const previous = await withStore<SyncQueueEntry | undefined>(SYNC_STORE, 'readonly', store => store.get(bookId));
+  const entry: SyncQueueEntry = {
+    bookId,
+    queuedAt: Date.now(),
+    attempts: previous?.attempts || 0,
+    lastError: previous?.lastError,
+    // A resolution not yet pushed still applies to later edits of the same book
+    resolvedRevision: resolvedRevision || previous?.resolvedRevision
+  };
+  await withStore(SYNC_STORE, 'readwrite', store => store.put(entry));
+  return entry;
+};
+
+export const listPendingSyncs = (): Promise<SyncQueueEntry[]> =>
+  withStore<SyncQueueEntry[]>(SYNC_STORE, 'readonly', store => store.getAll());
+
+export const loadPendingSync = async (bookId: string): Promise<SyncQueueEntry | null> =>
+  (await withStore<SyncQueueEntry | undefined>(SYNC_STORE, 'readonly', store => store.get(bookId))) || null;
+
+// Only clears the entry if nothing newer was queued while the upload was running
+export const completeBookSync = async (bookId: string, queuedAt: number): Promise<void> => {
+  const current = await withStore<SyncQueueEntry | undefined>(SYNC_STORE, 'readonly', store => store.get(bookId));
+  if (current && current.queuedAt === queuedAt) await withStore(SYNC_STORE, 'readwrite', store => store.delete(bookId));
+};
+
+export const recordSyncFailure = async (bookId: string, error: string): Promise<void> => {
+  const current = await withStore<SyncQueueEntry | undefined>(SYNC_STORE, 'readonly', store => store.get(bookId));
+  if (!current) return;
+  await withStore(SYNC_STORE, 'readwrite', store => store.put({ ...current, attempts: current.attempts + 1, lastError: error }));
+};
+
+// --- SYNC STATE (for the UI) ---
+
+export type BookSyncStatus = 'synced' | 'pending' | 'syncing' | 'failed' | 'conflict';
+
+export interface BookSyncState {
+  status: BookSyncStatus;
+  error?: string;
+  mergedBook?: MemoryBook; // Set on 'synced' when changes from another device were merged in
+  conflict?: ProjectConflictError;
+}
+
+type SyncListener = (state: BookSyncState) => void;
+
+const syncStates = new Map<string, BookSyncState>();
+const syncListeners = new Map<string, Set<SyncListener>>();
+
+export const setBookSyncState = (bookId: string, state: BookSyncState) => {
+  syncStates.set(bookId, state);
+  syncListeners.get(bookId)?.forEach(listener => listener(state));
+};
+
+export const subscribeToBookSyncState = (bookId: string, listener: SyncListener): (() => void) => {
+  if (!syncListeners.has(bookId)) syncListeners.set(bookId, new Set());
+  syncListeners.get(bookId)!.add(listener);
+  const current = syncStates.get(bookId);
+  if (current) listener(current);
+  return () => { syncListeners.get(bookId)?.delete(listener); };
+};
@@ -0,0 +1,97 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { readFileSync } from 'node:fs';
+import { PDFDocument, rgb } from 'pdf-lib';
+import { createFontProvider, drawTextRuns, splitIntoRuns, widthOfText, FontChain } from './pdfFonts';
+
+// The font URLs point into assets/fonts; serve them from disk instead of the dev server
+const fetchFromRepo = async (url: string) => new Response(readFileSync(new URL(`..${url}`, import.meta.url)));
+
+// Font files are cached for the session; a fresh copy of the module starts with none
+const withEmptyFontCache = async () => {
+  vi.resetModules();
+  return (await import('./pdfFonts')).createFontProvider;
+};
+
+const runsOf = (chain: FontChain, text: string) => splitIntoRuns(chain, text).map(run => [chain.indexOf(run.font), run.text]);
+
+describe('createFontProvider', () => {
+  beforeEach(() => {
+    vi.stubGlobal('fetch', vi.fn(fetchFromRepo));
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+  });
+
+  it('keeps Western European captions in the standard fonts', async () => {
+    const fonts = await createFontProvider(await PDFDocument.create()).forText('Farmor och farfar i Åmål, 1952');
+    expect(fonts.regular.map(f => f.name)).toEqual(['Times-Roman']);
+    expect(fetch).not.toHaveBeenCalled();
+  });
+
+  it('draws Polish, Greek and Cyrillic with DejaVu and emoji with Noto Emoji', async () => {
+    const caption = 'Babcia w Łodzi, γιαγιά και бабушка 👵';
+    const pdfDoc = await PDFDocument.create();
+    const { regular } = await createFontProvider(pdfDoc).forText(caption);
+    expect(regular).toHaveLength(2);
+    expect(runsOf(regular, caption)).toEqual([[0, 'Babcia w Łodzi, γιαγιά και бабушка '], [1, '👵']]);
+
+    drawTextRuns(pdfDoc.addPage(), regular, caption, { x: 20, y: 20, size: 12, color: rgb(0, 0, 0), letterSpacing: 1 });
+    expect(await pdfDoc.save()).toBeInstanceOf(Uint8Array);
+  });
+
+  it('takes Polish letters from the Latin Extended part of Caveat and Greek from DejaVu', async () => {
+    const { regular } = await createFontProvider(await PDFDocument.create()).forText('Łódź Ω', 'handwriting');
+    expect(runsOf(regular, 'Łódź Ω')).toEqual([[1, 'Ł'], [0, 'ód'], [1, 'ź'], [0, ' '], [2, 'Ω']]);
+  });
+
+  it('only fetches the fonts and styles the text needs', async () => {
+    const provider = (await withEmptyFontCache())(await PDFDocument.create());
+    const fetched = () => vi.mocked(fetch).mock.calls.map(([url]) => String(url).split('/').pop());
+
+    const emoji = await provider.forText('Mormor 👵');
+    expect(emoji.regular.map(f => f.name)).toEqual(['Times-Roman', expect.stringContaining('NotoEmoji')]);
+    expect(fetched()).toEqual(['noto-emoji-emoji-400-normal.woff']);
+
+    const polish = await provider.forText('Łódź', 'sans', ['bold']);
+    expect(Object.keys(polish)).toEqual(['bold']);
+    expect(fetched()).toEqual(['noto-emoji-emoji-400-normal.woff', 'DejaVuSans-Bold.woff']);
+
+    await provider.forText('Farmor', 'handwriting');
+    expect(fetched()).toHaveLength(3);
+    expect(fetched()[2]).toBe('caveat-latin-400-normal.woff');
+  });
+
+  it('falls back to the standard fonts when the bundled ones cannot be fetched', async () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    vi.mocked(fetch).mockResolvedValue(new Response(null, { status: 503 }));
+    const { regular } = await (await withEmptyFontCache())(await PDFDocument.create()).forText('Łódź 👵');
+    expect(runsOf(regular, 'Łódź')).toEqual([[0, '?ód?']]);
+  });
+
+  it('measures each run in its own font', async () => {
+    const caption = 'Αθήνα 👵';
+    const { regular } = await createFontProvider(await PDFDocument.create()).forText(caption);
+    const expected = regular[0].widthOfTextAtSize('Αθήνα ', 10) + regular[1].widthOfTextAtSize('👵', 10) + 6 * 2;
+    expect(widthOfText(regular, caption, 10, 2)).toBeCloseTo(expected);
+  });
+
+  it('warns once about characters no font has', async () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const { regular } = await createFontProvider(await PDFDocument.create()).forText('Mormor 中');
+    expect(runsOf(regular, 'Mormor 中')).toEqual([[0, 'Mormor ?']]);
+    splitIntoRuns(regular, 'Mormor 中');
+    expect(warn).toHaveBeenCalledTimes(1);
+    expect(warn.mock.calls[0][0]).toContain('U+4E2D');
+  });
+
+  it('lists the characters drawn as ? in its document', async () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const provider = createFontProvider(await PDFDocument.create());
+    const { regular } = await provider.forText('Ψ 中 𓀀');
+    splitIntoRuns(regular, 'Ψ 中 𓀀');
+    expect(provider.missingCharacters()).toEqual(['中', '𓀀']);
+    expect(createFontProvider(await PDFDocument.create()).missingCharacters()).toEqual([]);
+  });
+});
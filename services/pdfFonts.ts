@@ -0,0 +1,279 @@
+
+import { PDFDocument, PDFFont, PDFPage, StandardFonts, RGB, setCharacterSpacing } from 'pdf-lib';
+import fontkit from '@pdf-lib/fontkit';
+import { FontFamily } from '../types';
+import dejavuSerif from '../assets/fonts/dejavu/DejaVuSerif.woff?url';
+import dejavuSerifBold from '../assets/fonts/dejavu/DejaVuSerif-Bold.woff?url';
+import dejavuSerifItalic from '../assets/fonts/dejavu/DejaVuSerif-Italic.woff?url';
+import dejavuSerifBoldItalic from '../assets/fonts/dejavu/DejaVuSerif-BoldItalic.woff?url';
+import dejavuSans from '../assets/fonts/dejavu/DejaVuSans.woff?url';
+import dejavuSansBold from '../assets/fonts/dejavu/DejaVuSans-Bold.woff?url';
+import dejavuSansOblique from '../assets/fonts/dejavu/DejaVuSans-Oblique.woff?url';
+import dejavuSansBoldOblique from '../assets/fonts/dejavu/DejaVuSans-BoldOblique.woff?url';
+import dejavuSansMono from '../assets/fonts/dejavu/DejaVuSansMono.woff?url';
+import dejavuSansMonoBold from '../assets/fonts/dejavu/DejaVuSansMono-Bold.woff?url';
+import dejavuSansMonoOblique from '../assets/fonts/dejavu/DejaVuSansMono-Oblique.woff?url';
+import dejavuSansMonoBoldOblique from '../assets/fonts/dejavu/DejaVuSansMono-BoldOblique.woff?url';
+import caveatLatin400 from '../assets/fonts/caveat/caveat-latin-400-normal.woff?url';
+import caveatLatinExt400 from '../assets/fonts/caveat/caveat-latin-ext-400-normal.woff?url';
+import caveatLatin700 from '../assets/fonts/caveat/caveat-latin-700-normal.woff?url';
+import caveatLatinExt700 from '../assets/fonts/caveat/caveat-latin-ext-700-normal.woff?url';
+import notoEmoji from '../assets/fonts/noto-emoji/noto-emoji-emoji-400-normal.woff?url';
+
+// Fonts for the text we draw on pages. The standard PDF fonts (Times, Helvetica, Courier) only
+// cover Western European characters, so a caption with ł, Greek, Cyrillic or emoji is drawn with
+// DejaVu and Noto Emoji instead. Those ship with the app (assets/fonts, all WOFF) and are only
+// fetched when a text has characters the standard fonts lack: just the files and styles it needs,
+// the first time. They are embedded as subsets, so a chunk only carries the glyphs it uses.
+// Text the standard fonts can encode stays in them, so existing books look as they did.
+// There is no standard handwriting font, so that family always uses the bundled one (Caveat).
+
+export type FontStyle = 'regular' | 'bold' | 'italic' | 'boldItalic';
+
+// A font followed by the fonts to try, in order, for characters it lacks
+export type FontChain = PDFFont[];
+
+// The chains of the styles a text was loaded in
+export type PageFonts = Partial<Record<FontStyle, FontChain>>;
+
+export interface FontProvider {
+  // The fonts to draw this text with in the given styles of a family (regular if none are given).
+  // Whether the bundled fonts are needed is decided on the whole text, so its styles match, and
+  // the same text always gets the same fonts.
+  forText: <S extends FontStyle = 'regular'>(text: string, family?: FontFamily, styles?: S[]) => Promise<Record<S, FontChain>>;
+  // Characters no font had, drawn as ? in this document so far
+  missingCharacters: () => string[];
+}
+
+export const DEFAULT_FONT_FAMILY: FontFamily = 'serif';
+
+interface FamilyFonts {
+  standard: Record<FontStyle, StandardFonts>;
+  downloaded: Record<FontStyle, string[]>; // Tried in order, before the emoji font
+  alwaysDownload?: boolean; // The standard fonts are only a fallback when the download fails
+}
+
+const TIMES: Record<FontStyle, StandardFonts> = {
+  regular: StandardFonts.TimesRoman,
+  bold: StandardFonts.TimesRomanBold,
+  italic: StandardFonts.TimesRomanItalic,
+  boldItalic: StandardFonts.TimesRomanBoldItalic
+};
+
+// Caveat has no italic; its Latin and Latin Extended glyphs come in separate files
+const CAVEAT_REGULAR = [caveatLatin400, caveatLatinExt400];
+const CAVEAT_BOLD = [caveatLatin700, caveatLatinExt700];
+
+const FONT_FAMILIES: Record<FontFamily, FamilyFonts> = {
+  serif: {
+    standard: TIMES,
+    downloaded: {
+      regular: [dejavuSerif],
+      bold: [dejavuSerifBold],
+      italic: [dejavuSerifItalic],
+      boldItalic: [dejavuSerifBoldItalic]
+    }
+  },
+  sans: {
+    standard: {
+      regular: StandardFonts.Helvetica,
+      bold: StandardFonts.HelveticaBold,
+      italic: StandardFonts.HelveticaOblique,
+      boldItalic: StandardFonts.HelveticaBoldOblique
+    },
+    downloaded: {
+      regular: [dejavuSans],
+      bold: [dejavuSansBold],
+      italic: [dejavuSansOblique],
+      boldItalic: [dejavuSansBoldOblique]
+    }
+  },
+  mono: {
+    standard: {
+      regular: StandardFonts.Courier,
+      bold: StandardFonts.CourierBold,
+      italic: StandardFonts.CourierOblique,
+      boldItalic: StandardFonts.CourierBoldOblique
+    },
+    downloaded: {
+      regular: [dejavuSansMono],
+      bold: [dejavuSansMonoBold],
+      italic: [dejavuSansMonoOblique],
+      boldItalic: [dejavuSansMonoBoldOblique]
+    }
+  },
+  handwriting: {
+    standard: TIMES,
+    downloaded: {
+      regular: [...CAVEAT_REGULAR, dejavuSerif],
+      bold: [...CAVEAT_BOLD, dejavuSerifBold],
+      italic: [...CAVEAT_REGULAR, dejavuSerifItalic],
+      boldItalic: [...CAVEAT_BOLD, dejavuSerifBoldItalic]
+    },
+    alwaysDownload: true
+  }
+};
+
+// Zero-width joiners, variation selectors and the like: fine to leave out when no font has them
+const INVISIBLE_CHARACTER = /^[\p{Cf}\uFE00-\uFE0F]$/u;
+const MISSING_GLYPH = '?';
+// Characters that only the emoji font has, so other text doesn't need DejaVu for them
+const EMOJI_CHARACTER = /^[\p{Extended_Pictographic}\p{Emoji_Component}]$/u;
+
+// Downloaded once per session and shared by every PDF we build
+const fontBytes = new Map<string, Promise<ArrayBuffer>>();
+
+const loadFontBytes = (url: string): Promise<ArrayBuffer> => {
+  let bytes = fontBytes.get(url);
+  if (!bytes) {
+    bytes = fetch(url).then(res => {
+      if (!res.ok) throw new Error(`Font download failed (${res.status}): ${url}`);
+      return res.arrayBuffer();
+    });
+    // A failed download is tried again next time rather than remembered
+    bytes.catch(() => fontBytes.delete(url));
+    fontBytes.set(url, bytes);
+  }
+  return bytes;
+};
+
+const characterSets = new WeakMap<PDFFont, Set<number>>();
+
+const hasGlyph = (font: PDFFont, char: string): boolean => {
+  let supported = characterSets.get(font);
+  if (!supported) {
+    supported = new Set(font.getCharacterSet());
+    characterSets.set(font, supported);
+  }
+  return supported.has(char.codePointAt(0)!);
+};
+
+// Fonts for one PDF document; each font is embedded once, the first time a text needs it
+export const createFontProvider = (pdfDoc: PDFDocument): FontProvider => {
+  // By standard font name or bundled font URL
+  const embedded = new Map<string, Promise<PDFFont>>();
+  // The first font of each chain handed out, which is where its missing characters are recorded
+  const chainStarts = new Set<PDFFont>();
+
+  const embed = (key: string, load: () => Promise<PDFFont>): Promise<PDFFont> => {
+    let font = embedded.get(key);
+    if (!font) {
+      font = load();
+      font.catch(() => embedded.delete(key));
+      embedded.set(key, font);
+    }
+    return font;
+  };
+
+  const embedStandardFont = (name: StandardFonts) => embed(name, () => pdfDoc.embedFont(name));
+
+  // Null when it can't be loaded (offline or blocked): the chain does without it, with ? (and a
+  // warning) for the characters only it had
+  const embedBundledFont = (url: string): Promise<PDFFont | null> => embed(url, async () => {
+    pdfDoc.registerFontkit(fontkit);
+    return pdfDoc.embedFont(await loadFontBytes(url), { subset: true });
+  }).catch(e => {
+    console.warn(`Could not load font ${url}`, e);
+    return null;
+  });
+
+  const forText = async <S extends FontStyle = 'regular'>(text: string, family: FontFamily = DEFAULT_FONT_FAMILY, styles: S[] = ['regular' as S]): Promise<Record<S, FontChain>> => {
+    const { standard, downloaded, alwaysDownload } = FONT_FAMILIES[family];
+    const characters = Array.from(new Set(text.normalize('NFC'))).filter(c => c !== '\n' && !INVISIBLE_CHARACTER.test(c));
+    // Every standard font has the same (WinAnsi) characters
+    const standardFont = await embedStandardFont(standard[styles[0]]);
+    const uncovered = characters.filter(c => !hasGlyph(standardFont, c));
+    const needsDownloaded = alwaysDownload || uncovered.some(c => !EMOJI_CHARACTER.test(c));
+    const needsEmoji = uncovered.some(c => EMOJI_CHARACTER.test(c));
+
+    // Embedded one at a time, in a fixed order, so the same book produces the same bytes
+    const fonts = {} as Record<S, FontChain>;
+    for (const style of styles) {
+      const chain: FontChain = [];
+      const isCovered = () => characters.every(c => chain.some(f => hasGlyph(f, c)));
+      if (needsDownloaded) {
+        // Each file only while the text still has characters the ones before it lack
+        for (const url of downloaded[style]) {
+          if (chain.length && isCovered()) break;
+          const font = await embedBundledFont(url);
+          if (font) chain.push(font);
+        }
+      }
+      if (!chain.length) chain.push(await embedStandardFont(standard[style]));
+      if (needsEmoji && !isCovered()) {
+        const emoji = await embedBundledFont(notoEmoji);
+        if (emoji) chain.push(emoji);
+      }
+      chainStarts.add(chain[0]);
+      fonts[style] = chain;
+    }
+    return fonts;
+  };
+
+  return {
+    forText,
+
+    missingCharacters: () => {
+      const missing = new Set<string>();
+      chainStarts.forEach(font => missingGlyphs.get(font)?.forEach(char => missing.add(char)));
+      return Array.from(missing);
+    }
+  };
+};
+
+export interface TextRun {
+  font: PDFFont;
+  text: string;
+}
+
+// Per first font of a chain, so each document's provider can tell which characters it lost
+const missingGlyphs = new WeakMap<PDFFont, Set<string>>();
+// Logged once per character and session; the same text is split again for every width we measure
+const reportedMissingGlyphs = new Set<string>();
+
+const reportMissingGlyph = (font: PDFFont, char: string) => {
+  if (!missingGlyphs.has(font)) missingGlyphs.set(font, new Set());
+  missingGlyphs.get(font)!.add(char);
+  if (reportedMissingGlyphs.has(char)) return;
+  reportedMissingGlyphs.add(char);
+  const codePoint = char.codePointAt(0)!.toString(16).toUpperCase().padStart(4, '0');
+  console.warn(`No font has a glyph for "${char}" (U+${codePoint}), it is drawn as ${MISSING_GLYPH}`);
+};
+
+// Splits text into runs by the first font in the chain that has each character
+export const splitIntoRuns = (chain: FontChain, text: string): TextRun[] => {
+  const runs: TextRun[] = [];
+  Array.from(text.normalize('NFC')).forEach(char => {
+    let font = chain.find(f => hasGlyph(f, char));
+    if (!font) {
+      if (INVISIBLE_CHARACTER.test(char)) return;
+      reportMissingGlyph(chain[0], char);
+      font = chain[0];
+      char = MISSING_GLYPH;
+    }
+    const last = runs[runs.length - 1];
+    if (last && last.font === font) last.text += char;
+    else runs.push({ font, text: char });
+  });
+  return runs;
+};
+
+// Letter spacing is added between characters, not after the last one
+export const widthOfText = (chain: FontChain, text: string, size: number, letterSpacing: number = 0): number => {
+  const runs = splitIntoRuns(chain, text);
+  const characters = runs.reduce((sum, run) => sum + Array.from(run.text).length, 0);
+  return runs.reduce((sum, run) => sum + run.font.widthOfTextAtSize(run.text, size), 0) + letterSpacing * Math.max(0, characters - 1);
+};
+
+// drawText for a font chain: each run in its own font, one after the other
+export const drawTextRuns = (page: PDFPage, chain: FontChain, text: string, options: { x: number, y: number, size: number, color: RGB, letterSpacing?: number }) => {
+  const { letterSpacing = 0, ...drawOptions } = options;
+  // Character spacing (Tc) is part of the graphics state, so it carries into every drawText below
+  if (letterSpacing) page.pushOperators(setCharacterSpacing(letterSpacing));
+  let x = options.x;
+  splitIntoRuns(chain, text).forEach(run => {
+    page.drawText(run.text, { ...drawOptions, x, font: run.font });
+    x += run.font.widthOfTextAtSize(run.text, options.size) + letterSpacing * Array.from(run.text).length;
+  });
+  if (letterSpacing) page.pushOperators(setCharacterSpacing(0));
+};
@@ -0,0 +1,24 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { PDFDocument } from 'pdf-lib';
+import { mergeFilesToPdf } from './pdfService';
+import { DriveFile, FileType } from '../types';
+
+const item = (id: string, type: FileType, extra: Partial<DriveFile> = {}): DriveFile => ({ id, name: `${id}.pdf`, type, size: 100, modifiedTime: '2020-01-01T00:00:00Z', ...extra });
+
+describe('mergeFilesToPdf', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('keeps a page for an item that could not be read and reports it', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    const text = item('text-1', FileType.TEXT, { description: 'Vi badade i Vänern varje dag.' });
+    // Not local and no access token, so there is nowhere to read it from
+    const scan = item('1LetterScan', FileType.PDF);
+
+    const { blob, failedItems } = await mergeFilesToPdf([text, scan], '');
+    expect(failedItems).toEqual([scan]);
+    const merged = await PDFDocument.load(await blob.arrayBuffer());
+    expect(merged.getPageCount()).toBe(2);
+  });
+});
@@ -1,14 +1,19 @@
 
-import { PDFDocument, rgb, StandardFonts, PDFFont, PDFPage } from 'pdf-lib';
+import { PDFDocument, rgb, PDFPage, PDFImage, PDFEmbeddedPage } from 'pdf-lib';
 import * as pdfjsLib from 'pdfjs-dist';
-import { DriveFile, FileType, CompressionLevel, TextConfig, RichTextLine, PageMetadata } from '../types';
+import { DriveFile, FileType, CompressionLevel, TextConfig, RichTextLine, PageMetadata, FontFamily } from '../types';
 import { fetchFileBlob } from './driveService';
+import { decodeImage, toEmbeddableImage } from './imageDecode';
+import { parseTextBlocks, readTextDocument, TextBlockKind } from './textDocument';
+import { DEFAULT_TEXT_CONFIG, DEFAULT_FOOTER_CONFIG } from './textDefaults';
+import { createFontProvider, drawTextRuns, widthOfText, FontChain, FontProvider, FontStyle, PageFonts, DEFAULT_FONT_FAMILY } from './pdfFonts';
 
 // Initialize PDF.js worker
 // Use dynamic version to match the installed API version and avoid mismatch errors
 pdfjsLib.GlobalWorkerOptions.workerSrc = `https://unpkg.com/pdfjs-dist@${pdfjsLib.version}/build/pdf.worker.min.mjs`;
 
 const A4_WIDTH = 595.28; 
+const A4_HEIGHT = A4_WIDTH * 1.414;
 const PDF_OVERHEAD_BASE = 15000; 
 const PDF_OVERHEAD_PER_PAGE = 4000;
 
@@ -40,51 +45,46 @@ const compressImageBuffer = async (buffer: ArrayBuffer, level: CompressionLevel)
         maxWidth = 1024;
     }
 
+    let img: ImageBitmap | HTMLCanvasElement;
+    try {
+        // Also reads HEIC, TIFF, WebP and GIF, which all come out as JPEG below
+        img = await decodeImage(buffer);
+    } catch (e) {
+        console.warn("Image compression failed (load error), using original.", e);
+        return buffer;
+    }
+
     return new Promise((resolve) => {
         try {
-            const blob = createBlob(buffer, 'image/jpeg');
-            const url = URL.createObjectURL(blob);
-            const img = new Image();
-            
-            img.onload = () => {
-                URL.revokeObjectURL(url);
-                let width = img.width;
-                let height = img.height;
-
-                if (width > maxWidth) {
-                    const scaleFactor = maxWidth / width;
-                    width = maxWidth;
-                    height = height * scaleFactor;
-                }
-
-                const canvas = document.createElement('canvas');
-                canvas.width = width;
-                canvas.height = height;
-                const ctx = canvas.getContext('2d');
-                
-                if (!ctx) {
-                    resolve(buffer); 
-                    return;
-                }
-
-                ctx.drawImage(img, 0, 0, width, height);
+            let width = img.width;
+            let height = img.height;
 
-                canvas.toBlob((newBlob) => {
-                    if (newBlob) {
-                        newBlob.arrayBuffer().then(resolve).catch(() => resolve(buffer));
-                    } else {
-                        resolve(buffer);
-                    }
-                }, 'image/jpeg', quality);
-            };
+            if (width > maxWidth) {
+                const scaleFactor = maxWidth / width;
+                width = maxWidth;
+                height = height * scaleFactor;
+            }
 
-            img.onerror = () => {
-                console.warn("Image compression failed (load error), using original.");
-                URL.revokeObjectURL(url);
+            const canvas = document.createElement('canvas');
+            canvas.width = width;
+            canvas.height = height;
+            const ctx = canvas.getContext('2d');
+            
+            if (!ctx) {
                 resolve(buffer); 
-            };
+                return;
+            }
+
+            ctx.drawImage(img, 0, 0, width, height);
+            if ('close' in img) img.close();
 
-            img.src = url;
+            canvas.toBlob((newBlob) => {
+                if (newBlob) {
+                    newBlob.arrayBuffer().then(resolve).catch(() => resolve(buffer));
+                } else {
+                    resolve(buffer);
+                }
+            }, 'image/jpeg', quality);
         } catch (e) {
             console.warn("Image compression crashed, using original.", e);
             resolve(buffer);
@@ -92,6 +92,92 @@ const compressImageBuffer = async (buffer: ArrayBuffer, level: CompressionLevel)
     });
 };
 
+// Embeds any accepted image format; anything but JPEG and PNG is converted first
+const embedImage = async (pdfDoc: PDFDocument, buffer: ArrayBuffer) => {
+    const image = await toEmbeddableImage(buffer);
+    return image.format === 'jpeg' ? pdfDoc.embedJpg(image.buffer) : pdfDoc.embedPng(image.buffer);
+};
+
+// --- TEXT PAGES ---
+
+const TEXT_PAGE_MARGIN = 60;
+const TEXT_LINE_HEIGHT = 1.4;
+
+const TEXT_STYLES: Record<TextBlockKind, { size: number, bold: boolean, spaceBefore: number }> = {
+    heading: { size: 20, bold: true, spaceBefore: 18 },
+    subheading: { size: 15, bold: true, spaceBefore: 12 },
+    paragraph: { size: 12, bold: false, spaceBefore: 8 }
+};
+
+// Breaks text into lines that fit maxWidth, at spaces where possible and inside words that are too long
+const wrapText = (text: string, font: FontChain, size: number, maxWidth: number, letterSpacing: number = 0): string[] => {
+    const fits = (candidate: string) => widthOfText(font, candidate, size, letterSpacing) <= maxWidth;
+    const lines: string[] = [];
+    text.split('\n').forEach(paragraphLine => {
+        let current = '';
+        paragraphLine.split(/ +/).forEach(word => {
+            const candidate = current ? `${current} ${word}` : word;
+            if (fits(candidate)) {
+                current = candidate;
+                return;
+            }
+            if (current) lines.push(current);
+            current = '';
+            for (const char of Array.from(word)) {
+                if (current && !fits(current + char)) {
+                    lines.push(current);
+                    current = '';
+                }
+                current += char;
+            }
+        });
+        lines.push(current);
+    });
+    return lines;
+};
+
+// Typesets text onto as many A4 pages as it needs. An empty text gives one blank page,
+// which the editor can then write on like any other page.
+export const renderTextPages = async (text: string): Promise<Uint8Array> => {
+    const pdfDoc = await PDFDocument.create({ updateMetadata: false });
+    const { regular, bold } = await createFontProvider(pdfDoc).forText(text, DEFAULT_FONT_FAMILY, ['regular', 'bold']);
+    const top = A4_HEIGHT - TEXT_PAGE_MARGIN;
+    const maxWidth = A4_WIDTH - TEXT_PAGE_MARGIN * 2;
+
+    let page = pdfDoc.addPage([A4_WIDTH, A4_HEIGHT]);
+    let y = top;
+    const newPage = () => {
+        page = pdfDoc.addPage([A4_WIDTH, A4_HEIGHT]);
+        y = top;
+    };
+
+    parseTextBlocks(text).forEach(block => {
+        const style = TEXT_STYLES[block.kind];
+        const font = style.bold ? bold : regular;
+        const lineHeight = style.size * TEXT_LINE_HEIGHT;
+        const lines = wrapText(block.text, font, style.size, maxWidth);
+
+        if (y < top) y -= style.spaceBefore;
+        // A heading is moved to the next page rather than left alone at the bottom
+        const keepWithNext = block.kind === 'paragraph' ? 0 : 2 * TEXT_STYLES.paragraph.size * TEXT_LINE_HEIGHT;
+        if (y < top && y - lines.length * lineHeight - keepWithNext < TEXT_PAGE_MARGIN) newPage();
+
+        lines.forEach(line => {
+            if (y - lineHeight < TEXT_PAGE_MARGIN) newPage();
+            if (line) drawTextRuns(page, font, line, { x: TEXT_PAGE_MARGIN, y: y - style.size, size: style.size, color: rgb(0, 0, 0) });
+            y -= lineHeight;
+        });
+    });
+
+    return pdfDoc.save();
+};
+
+const toProcessedText = async (text: string): Promise<{ buffer: ArrayBuffer, size: number }> => {
+    const bytes = await renderTextPages(text);
+    const buffer = bytes.buffer.slice(bytes.byteOffset, bytes.byteOffset + bytes.byteLength) as ArrayBuffer;
+    return { buffer, size: buffer.byteLength };
+};
+
 // --- PROCESS FILE ---
 
 export const processFileForCache = async (
@@ -105,6 +191,11 @@ export const processFileForCache = async (
         return { buffer: file.processedBuffer, size: file.processedSize || file.processedBuffer.byteLength };
     }
 
+    // Written text (pasted or an empty source) has nothing to fetch, it is typeset directly
+    if (file.type === FileType.TEXT && file.description !== undefined) {
+        return toProcessedText(file.description);
+    }
+
     let rawBuffer: ArrayBuffer;
 
     // 2. Fetch Content
@@ -139,6 +230,11 @@ export const processFileForCache = async (
         return { buffer: compressed, size: compressed.byteLength };
     }
 
+    // .txt, .md and .docx files: the text is read out and typeset like pasted text
+    if (file.type === FileType.TEXT) {
+        return toProcessedText(await readTextDocument(new Blob([rawBuffer!]), file.name));
+    }
+
     return { buffer: rawBuffer!, size: rawBuffer!.byteLength };
 };
 
@@ -236,15 +332,6 @@ export const calculateChunks = (
     return chunks;
 };
 
-// UPDATED DEFAULTS
-export const DEFAULT_TEXT_CONFIG: TextConfig = {
-  fontSize: 24, alignment: 'center', isBold: true, isItalic: false, verticalPosition: 'center', color: '#000000', backgroundColor: undefined, backgroundOpacity: 0, padding: 0
-};
-
-export const DEFAULT_FOOTER_CONFIG: TextConfig = {
-  fontSize: 12, alignment: 'left', isBold: false, isItalic: false, verticalPosition: 'top', color: '#000000', backgroundColor: undefined, backgroundOpacity: 0, padding: 0
-};
-
 // --- PDF RENDERING ---
 
 export const getPdfDocument = async (blob: Blob) => {
@@ -333,13 +420,79 @@ export const splitPdfIntoPages = async (pdfBlob: Blob, filenameBase: string): Pr
 
 // --- PREVIEW & MERGE (Shared Drawing Logic) ---
 
-const measureTextHeight = (lines: RichTextLine[]) => {
-    let h = 0;
-    lines.forEach(l => { if(l.text) h += (l.config.fontSize * 1.3); });
-    return h;
+// A text that doesn't fit the space it has on a page, reported to the editor
+export interface TextOverflow {
+    pageIndex: number;
+    region: 'header' | 'footer';
+}
+
+const RICH_TEXT_MARGIN = 50;
+const RICH_LINE_HEIGHT = 1.3; // Unless the line sets lineSpacing
+const FOOTER_BOTTOM_MARGIN = 15; // Below the last footer line, in a box of fixed height
+const MIN_SHRUNK_FONT_SIZE = 6;
+
+// One row on the page: a RichTextLine, or part of one that was wrapped
+interface RichTextRow {
+    text: string;
+    config: TextConfig;
+    font: FontChain;
+    size: number;
+    letterSpacing: number;
+    lineHeight: number;
+    width: number;
+}
+
+// The fonts of each family and style used on a page
+type RichTextFonts = Partial<Record<FontFamily, PageFonts>>;
+
+interface RichTextLayout {
+    rows: RichTextRow[];
+    height: number;
+}
+
+const styleOf = (config: TextConfig): FontStyle => {
+    if (config.isBold && config.isItalic) return 'boldItalic';
+    if (config.isBold) return 'bold';
+    if (config.isItalic) return 'italic';
+    return 'regular';
+};
+
+const pickFont = (config: TextConfig, fonts: RichTextFonts): FontChain => fonts[config.fontFamily || DEFAULT_FONT_FAMILY]![styleOf(config)]!;
+
+// Wraps every line to the page width between the margins (and its box padding), at scale times
+// its font size and letter spacing
+const layoutRichLines = (lines: RichTextLine[], fonts: RichTextFonts, pageWidth: number, scale: number = 1): RichTextLayout => {
+    const rows: RichTextRow[] = [];
+    lines.forEach(line => {
+        if (!line.text) return;
+        const font = pickFont(line.config, fonts);
+        const size = line.config.fontSize * scale;
+        const letterSpacing = (line.config.letterSpacing || 0) * scale;
+        const lineHeight = size * (line.config.lineSpacing || RICH_LINE_HEIGHT);
+        const maxWidth = pageWidth - RICH_TEXT_MARGIN * 2 - (line.config.padding || 0) * 2;
+        wrapText(line.text, font, size, maxWidth, letterSpacing).forEach(text => {
+            rows.push({ text, config: line.config, font, size, letterSpacing, lineHeight, width: widthOfText(font, text, size, letterSpacing) });
+        });
+    });
+    return { rows, height: rows.reduce((sum, row) => sum + row.lineHeight, 0) };
+};
+
+// Lays out the lines for the height they have. With autoShrink on any line the whole block is
+// scaled down until it fits (or reaches the smallest readable size); overflow is what is left over.
+const fitRichLines = (lines: RichTextLine[], fonts: RichTextFonts, pageWidth: number, availableHeight: number): RichTextLayout & { overflow: number } => {
+    let layout = layoutRichLines(lines, fonts, pageWidth);
+    if (lines.some(l => l.config.autoShrink)) {
+        const smallestSize = Math.min(...lines.filter(l => l.text).map(l => l.config.fontSize));
+        let scale = 1;
+        while (layout.height > availableHeight && smallestSize * scale * 0.95 >= MIN_SHRUNK_FONT_SIZE) {
+            scale *= 0.95;
+            layout = layoutRichLines(lines, fonts, pageWidth, scale);
+        }
+    }
+    return { ...layout, overflow: Math.max(0, layout.height - Math.max(0, availableHeight)) };
 };
 
-const getFooterHeight = (meta: PageMetadata | null) => {
+const getFooterHeight = (meta: PageMetadata | null | undefined, fonts: RichTextFonts, pageWidth: number) => {
     if (!meta || !meta.footerLines || meta.footerLines.length === 0) return 0;
     
     // Allow custom box height from the first footer line's config if set
@@ -347,15 +500,20 @@ const getFooterHeight = (meta: PageMetadata | null) => {
         return meta.footerLines[0].config.boxHeight;
     }
     
-    // Default dynamic height
-    return measureTextHeight(meta.footerLines) + 100;
+    // Default dynamic height, grows with the wrapped text
+    return layoutRichLines(meta.footerLines, fonts, pageWidth).height + RICH_TEXT_MARGIN * 2;
 };
 
-const drawRichLines = (page: PDFPage, lines: RichTextLine[], fonts: any, region: 'top' | 'bottom', footerOffset: number = 0) => {
+// Draws header lines on the page (above footerOffset) or footer lines in the box below it.
+// Returns how many points the text is taller than its space, 0 when it fits.
+const drawRichLines = (page: PDFPage, lines: RichTextLine[], fonts: RichTextFonts, region: 'top' | 'bottom', footerOffset: number = 0): number => {
     const { width, height } = page.getSize();
-    const margin = 50;
-    let totalTextHeight = measureTextHeight(lines);
-    if (totalTextHeight === 0) return;
+    const margin = RICH_TEXT_MARGIN;
+    const availableHeight = region === 'top'
+        ? height - footerOffset - margin * 2
+        : footerOffset - margin - FOOTER_BOTTOM_MARGIN;
+    const layout = fitRichLines(lines, fonts, width, availableHeight);
+    if (layout.height === 0) return 0;
 
     let startY = 0;
     
@@ -365,9 +523,9 @@ const drawRichLines = (page: PDFPage, lines: RichTextLine[], fonts: any, region:
         const visualHeight = height - footerOffset;
         
         if (line?.config.verticalPosition === 'center') {
-             startY = (visualHeight / 2) + (totalTextHeight / 2) + footerOffset;
+             startY = (visualHeight / 2) + (layout.height / 2) + footerOffset;
         } else if (line?.config.verticalPosition === 'bottom') {
-             startY = footerOffset + margin + totalTextHeight;
+             startY = footerOffset + margin + layout.height;
         } else {
              // Top
              startY = height - margin;
@@ -378,26 +536,19 @@ const drawRichLines = (page: PDFPage, lines: RichTextLine[], fonts: any, region:
     }
 
     let currentY = startY;
-    lines.forEach(line => {
-        if (!line.text) return;
-        let font = fonts.regular;
-        if (line.config.isBold && line.config.isItalic) font = fonts.boldItalic;
-        else if (line.config.isBold) font = fonts.bold;
-        else if (line.config.isItalic) font = fonts.italic;
-
-        const textSize = line.config.fontSize;
-        const textWidth = font.widthOfTextAtSize(line.text, textSize);
-        const padding = line.config.padding || 0;
+    layout.rows.forEach(row => {
+        const { config, size: textSize, lineHeight, width: textWidth } = row;
+        const padding = config.padding || 0;
         
         // Calculate X position
         let x = margin;
-        if (line.config.alignment === 'center') x = (width - textWidth) / 2;
-        else if (line.config.alignment === 'right') x = width - margin - textWidth;
+        if (config.alignment === 'center') x = (width - textWidth) / 2;
+        else if (config.alignment === 'right') x = width - margin - textWidth;
 
         // Draw Background if configured
-        if (line.config.backgroundColor && line.config.backgroundOpacity && line.config.backgroundOpacity > 0) {
-            const bgRgb = hexToRgb(line.config.backgroundColor);
-            const bgHeight = textSize * 1.3; // Line height approximation
+        if (config.backgroundColor && config.backgroundOpacity && config.backgroundOpacity > 0) {
+            const bgRgb = hexToRgb(config.backgroundColor);
+            const bgHeight = lineHeight;
             
             // Draw rect centered on text
             page.drawRectangle({
@@ -406,105 +557,120 @@ const drawRichLines = (page: PDFPage, lines: RichTextLine[], fonts: any, region:
                 width: textWidth + (padding * 2),
                 height: bgHeight + padding,
                 color: rgb(bgRgb.r, bgRgb.g, bgRgb.b),
-                opacity: line.config.backgroundOpacity
+                opacity: config.backgroundOpacity
             });
         }
 
         // Draw Text
-        const textColor = line.config.color ? hexToRgb(line.config.color) : { r: 0, g: 0, b: 0 };
-        page.drawText(line.text, { 
-            x, 
-            y: currentY - textSize, 
-            size: textSize, 
-            font, 
-            color: rgb(textColor.r, textColor.g, textColor.b) 
-        });
+        const textColor = config.color ? hexToRgb(config.color) : { r: 0, g: 0, b: 0 };
+        if (row.text) {
+            drawTextRuns(page, row.font, row.text, { 
+                x, 
+                y: currentY - textSize, 
+                size: textSize, 
+                color: rgb(textColor.r, textColor.g, textColor.b),
+                letterSpacing: row.letterSpacing
+            });
+        }
         
-        currentY -= (textSize * 1.3);
+        currentY -= lineHeight;
     });
+
+    return layout.overflow;
+};
+
+// Hides the object if asked and draws the page's text, the same way for preview and export
+const drawPageMeta = (page: PDFPage, meta: PageMetadata, fonts: RichTextFonts, footerHeight: number, pageIndex: number): TextOverflow[] => {
+    const overflows: TextOverflow[] = [];
+    if (meta.hideObject) {
+        const { width, height } = page.getSize();
+        // Only cover the image area, not the footer area
+        page.drawRectangle({ x: 0, y: footerHeight, width, height: height - footerHeight, color: rgb(1,1,1) });
+    }
+    if (meta.headerLines && drawRichLines(page, meta.headerLines, fonts, 'top', footerHeight) > 0) overflows.push({ pageIndex, region: 'header' });
+    if (meta.footerLines && drawRichLines(page, meta.footerLines, fonts, 'bottom', footerHeight) > 0) overflows.push({ pageIndex, region: 'footer' });
+    return overflows;
 };
 
-export const createPreviewWithOverlay = async (fileBlob: Blob, fileType: FileType, pageMeta: Record<number, PageMetadata> = {}): Promise<string> => {
+// One set of fonts per family for all text on the page, so header and caption match
+const loadPageFonts = async (meta: PageMetadata | null | undefined, fontProvider: FontProvider): Promise<RichTextFonts> => {
+    const lines = meta ? [...(meta.headerLines || []), ...(meta.footerLines || [])] : [];
+    const familyOf = (line: RichTextLine) => line.config.fontFamily || DEFAULT_FONT_FAMILY;
+    const fonts: RichTextFonts = {};
+    for (const family of new Set(lines.filter(l => l.text).map(familyOf))) {
+        const familyLines = lines.filter(l => familyOf(l) === family);
+        fonts[family] = await fontProvider.forText(familyLines.map(l => l.text).join('\n'), family, Array.from(new Set(familyLines.map(l => styleOf(l.config)))));
+    }
+    return fonts;
+};
+
+// One page of the book: the image or PDF page scaled to A4 width, its caption box below,
+// and the page's text. Preview and export both go through here so they look the same.
+const addBookPage = async (pdfDoc: PDFDocument, object: PDFImage | PDFEmbeddedPage, meta: PageMetadata | null | undefined, fontProvider: FontProvider, pageIndex: number) => {
+    const fonts = await loadPageFonts(meta, fontProvider);
+    const footerHeight = getFooterHeight(meta, fonts, A4_WIDTH);
+    const scaledHeight = object.height * (A4_WIDTH / object.width);
+    const page = pdfDoc.addPage([A4_WIDTH, scaledHeight + footerHeight]);
+    if (object instanceof PDFImage) page.drawImage(object, { x: 0, y: footerHeight, width: A4_WIDTH, height: scaledHeight });
+    else page.drawPage(object, { x: 0, y: footerHeight, width: A4_WIDTH, height: scaledHeight });
+    return { page, overflows: meta ? drawPageMeta(page, meta, fonts, footerHeight, pageIndex) : [] };
+};
+
+// missingCharacters are those in the page text that no font has; they print as ?
+export const createPreviewWithOverlay = async (fileBlob: Blob, fileType: FileType, pageMeta: Record<number, PageMetadata> = {}): Promise<{ url: string, overflows: TextOverflow[], missingCharacters: string[] }> => {
     const pdfDoc = await PDFDocument.create();
-    const fontRegular = await pdfDoc.embedFont(StandardFonts.TimesRoman);
-    const fontBold = await pdfDoc.embedFont(StandardFonts.TimesRomanBold);
-    const fontItalic = await pdfDoc.embedFont(StandardFonts.TimesRomanItalic);
-    const fontBoldItalic = await pdfDoc.embedFont(StandardFonts.TimesRomanBoldItalic);
-    const fonts = { regular: fontRegular, bold: fontBold, italic: fontItalic, boldItalic: fontBoldItalic };
+    const fonts = createFontProvider(pdfDoc);
+    const overflows: TextOverflow[] = [];
 
     try {
         const buffer = await fileBlob.arrayBuffer();
-        
-        let originalPage: PDFPage | undefined;
 
         if (fileType === FileType.IMAGE) {
-            let image;
-            try { image = await pdfDoc.embedJpg(buffer); } catch { 
-                 try { image = await pdfDoc.embedPng(buffer); }
-                 catch { throw new Error("Bildformatet stöds ej (ej JPG/PNG)"); }
-            }
-            // Add temp page to get size
-            const imgWidth = image.width || A4_WIDTH;
-            const imgHeight = image.height || (A4_WIDTH * 1.414);
-            const scale = A4_WIDTH / imgWidth;
-            const scaledHeight = imgHeight * scale;
-            
-            // Check for footer text to extend page
-            const meta = pageMeta[0];
-            const footerHeight = getFooterHeight(meta);
-            
-            const page = pdfDoc.addPage([A4_WIDTH, scaledHeight + footerHeight]);
-            page.drawImage(image, { x: 0, y: footerHeight, width: A4_WIDTH, height: scaledHeight });
-            originalPage = page;
+            const image = await embedImage(pdfDoc, buffer);
+            overflows.push(...(await addBookPage(pdfDoc, image, pageMeta[0], fonts, 0)).overflows);
         } else {
             const sourcePdf = await PDFDocument.load(buffer, { ignoreEncryption: true });
             const embeddedPages = await pdfDoc.embedPages(sourcePdf.getPages());
-            
-            embeddedPages.forEach((ep, idx) => {
-                const meta = pageMeta[idx];
-                const footerHeight = getFooterHeight(meta);
-
-                const pWidth = ep.width;
-                const pHeight = ep.height;
-                const page = pdfDoc.addPage([pWidth, pHeight + footerHeight]);
-                page.drawPage(ep, { x: 0, y: footerHeight, width: pWidth, height: pHeight });
-                originalPage = page;
-            });
+            for (const [idx, ep] of embeddedPages.entries()) {
+                overflows.push(...(await addBookPage(pdfDoc, ep, pageMeta[idx], fonts, idx)).overflows);
+            }
         }
     } catch (e: any) {
         console.error("Preview Generation Error:", e);
-        const page = pdfDoc.addPage([A4_WIDTH, A4_WIDTH * 1.414]);
+        const page = pdfDoc.addPage([A4_WIDTH, A4_HEIGHT]);
         page.drawText("Fel vid visning", { x: 50, y: 700 });
     }
 
-    // Apply Meta
-    const pages = pdfDoc.getPages();
-    pages.forEach((page, index) => {
-        const meta = pageMeta[index];
-        if (meta) {
-            const footerHeight = getFooterHeight(meta);
-            
-            if (meta.hideObject) {
-                 const { width, height } = page.getSize();
-                 // Only cover the image area, not the footer area
-                 page.drawRectangle({ x: 0, y: footerHeight, width, height: height - footerHeight, color: rgb(1,1,1) });
-            }
-            if (meta.headerLines) drawRichLines(page, meta.headerLines, fonts, 'top', footerHeight);
-            if (meta.footerLines) drawRichLines(page, meta.footerLines, fonts, 'bottom', footerHeight);
-        }
-    });
-
     const pdfBytes = await pdfDoc.save();
-    return URL.createObjectURL(createBlob(pdfBytes, 'application/pdf'));
+    return { url: URL.createObjectURL(createBlob(pdfBytes, 'application/pdf')), overflows, missingCharacters: fonts.missingCharacters() };
 };
 
-export const mergeFilesToPdf = async (files: DriveFile[], accessToken: string, compression: CompressionLevel = 'medium'): Promise<Blob> => {
-    const mergedPdf = await PDFDocument.create();
-    const fontRegular = await mergedPdf.embedFont(StandardFonts.TimesRoman);
-    const fontBold = await mergedPdf.embedFont(StandardFonts.TimesRomanBold);
-    const fontItalic = await mergedPdf.embedFont(StandardFonts.TimesRomanItalic);
-    const fontBoldItalic = await mergedPdf.embedFont(StandardFonts.TimesRomanBoldItalic);
-    const fonts = { regular: fontRegular, bold: fontBold, italic: fontItalic, boldItalic: fontBoldItalic };
+export interface MergedPdf {
+    blob: Blob;
+    failedItems: DriveFile[];
+}
+
+// Stands in for an item that could not be added, so the reader sees what is missing
+// instead of the item quietly dropping out of the book
+const addMissingItemPage = async (pdfDoc: PDFDocument, item: DriveFile, fontProvider: FontProvider) => {
+    const text = `Kunde inte lägga till "${item.name}" i boken.`;
+    const { regular } = await fontProvider.forText(text);
+    const page = pdfDoc.addPage([A4_WIDTH, A4_HEIGHT]);
+    const size = TEXT_STYLES.subheading.size;
+    let y = A4_HEIGHT / 2;
+    wrapText(text, regular, size, A4_WIDTH - TEXT_PAGE_MARGIN * 2).forEach(line => {
+        drawTextRuns(page, regular, line, { x: TEXT_PAGE_MARGIN, y, size, color: rgb(0.6, 0.1, 0.1) });
+        y -= size * TEXT_LINE_HEIGHT;
+    });
+};
+
+// Items that could not be read get a page saying so, and are listed in failedItems
+export const mergeFilesToPdf = async (files: DriveFile[], accessToken: string, compression: CompressionLevel = 'medium'): Promise<MergedPdf> => {
+    // No timestamps in the metadata: the same items produce the same bytes, which lets an
+    // interrupted chunk upload resume after the PDF has been regenerated.
+    const mergedPdf = await PDFDocument.create({ updateMetadata: false });
+    const fonts = createFontProvider(mergedPdf);
+    const failedItems: DriveFile[] = [];
 
     for (const item of files) {
         let buffer: ArrayBuffer | null = null;
@@ -513,60 +679,34 @@ export const mergeFilesToPdf = async (files: DriveFile[], accessToken: string, c
             buffer = result.buffer;
             
             if (item.type === FileType.IMAGE) {
-                let image;
-                try { image = await mergedPdf.embedJpg(buffer); } catch { 
-                    try { image = await mergedPdf.embedPng(buffer); }
-                    catch (e) { throw new Error("Kunde inte avkoda bild"); }
-                }
-                
+                const image = await embedImage(mergedPdf, buffer);
                 const meta = item.pageMeta ? item.pageMeta[0] : null;
-                // Strict check: Only add footer height if lines actually exist
-                const hasFooter = meta?.footerLines && meta.footerLines.length > 0;
-                const footerHeight = hasFooter ? getFooterHeight(meta) : 0;
-
-                const scale = A4_WIDTH / image.width;
-                const scaledHeight = image.height * scale;
-                const page = mergedPdf.addPage([A4_WIDTH, scaledHeight + footerHeight]);
-                page.drawImage(image, { x: 0, y: footerHeight, width: A4_WIDTH, height: scaledHeight });
+                const { page } = await addBookPage(mergedPdf, image, meta, fonts, 0);
             
-                // Draw text for this image page
-                if (meta) {
-                    if (meta.hideObject) page.drawRectangle({ x: 0, y: footerHeight, width: A4_WIDTH, height: scaledHeight, color: rgb(1,1,1) });
-                    if (meta.headerLines) drawRichLines(page, meta.headerLines, fonts, 'top', footerHeight);
-                    if (meta.footerLines) drawRichLines(page, meta.footerLines, fonts, 'bottom', footerHeight);
-                } else {
-                     if (item.headerText) drawRichLines(page, [{ id: 'l1', text: item.headerText, config: item.textConfig || DEFAULT_TEXT_CONFIG }], fonts, 'top', footerHeight);
-                     if (item.description) drawRichLines(page, [{ id: 'f1', text: item.description, config: DEFAULT_FOOTER_CONFIG }], fonts, 'bottom', footerHeight);
+                // Items not yet migrated to pageMeta (see projectSchema)
+                if (!meta) {
+                     const legacyStyles = [styleOf(item.textConfig || DEFAULT_TEXT_CONFIG), styleOf(DEFAULT_FOOTER_CONFIG)];
+                     const legacyFonts = { [DEFAULT_FONT_FAMILY]: await fonts.forText(`${item.headerText || ''}\n${item.description || ''}`, DEFAULT_FONT_FAMILY, legacyStyles) };
+                     if (item.headerText) drawRichLines(page, [{ id: 'l1', text: item.headerText, config: item.textConfig || DEFAULT_TEXT_CONFIG }], legacyFonts, 'top', 0);
+                     if (item.description) drawRichLines(page, [{ id: 'f1', text: item.description, config: DEFAULT_FOOTER_CONFIG }], legacyFonts, 'bottom', 0);
                 }
 
             } else {
                  const sourceDoc = await PDFDocument.load(buffer, { ignoreEncryption: true });
                  const embeddedPages = await mergedPdf.embedPages(sourceDoc.getPages());
-                 
-                 embeddedPages.forEach((ep, idx) => {
-                    const meta = item.pageMeta ? item.pageMeta[idx] : null;
-                    const hasFooter = meta?.footerLines && meta.footerLines.length > 0;
-                    const footerHeight = hasFooter ? getFooterHeight(meta) : 0;
-
-                    const scale = A4_WIDTH / ep.width;
-                    const scaledHeight = ep.height * scale;
-                    const page = mergedPdf.addPage([A4_WIDTH, scaledHeight + footerHeight]);
-                    page.drawPage(ep, { x: 0, y: footerHeight, width: A4_WIDTH, height: scaledHeight });
-
-                    if (meta) {
-                         if (meta.hideObject) page.drawRectangle({ x: 0, y: footerHeight, width: A4_WIDTH, height: scaledHeight, color: rgb(1,1,1) });
-                         if (meta.headerLines) drawRichLines(page, meta.headerLines, fonts, 'top', footerHeight);
-                         if (meta.footerLines) drawRichLines(page, meta.footerLines, fonts, 'bottom', footerHeight);
-                    }
-                });
+                 for (const [idx, ep] of embeddedPages.entries()) {
+                    await addBookPage(mergedPdf, ep, item.pageMeta ? item.pageMeta[idx] : null, fonts, idx);
+                 }
             }
 
         } catch (e: any) {
             console.error(`Merge failed for ${item.name}`, e);
+            failedItems.push(item);
+            await addMissingItemPage(mergedPdf, item, fonts);
         }
     }
     const pdfBytes = await mergedPdf.save();
-    return createBlob(pdfBytes, 'application/pdf');
+    return { blob: createBlob(pdfBytes, 'application/pdf'), failedItems };
 };
 
 export const generateCombinedPDF = async (
@@ -576,7 +716,7 @@ export const generateCombinedPDF = async (
   compression: CompressionLevel = 'medium',
   coverImageId?: string
 ): Promise<Uint8Array> => {
-  const contentBlob = await mergeFilesToPdf(items, accessToken, compression);
-  const contentBuffer = await contentBlob.arrayBuffer();
+  const { blob } = await mergeFilesToPdf(items, accessToken, compression);
+  const contentBuffer = await blob.arrayBuffer();
   return new Uint8Array(contentBuffer);
 };
@@ -0,0 +1,128 @@
+import { describe, expect, it } from 'vitest';
+import { mergeItems, resolveItemConflicts } from './projectMerge';
+import { DriveFile, FileType } from '../types';
+
+const photo = (id: string, description?: string): DriveFile => ({ id, name: `${id}.jpg`, type: FileType.IMAGE, size: 100, modifiedTime: '2020-01-01T00:00:00Z', description });
+
+const ids = (items: DriveFile[]) => items.map(i => i.id);
+
+const [a, b, c] = [photo('a'), photo('b'), photo('c')];
+
+describe('mergeItems', () => {
+  it('keeps the book as it is when neither side changed it', () => {
+    expect(mergeItems([a, b], [a, b], [a, b])).toEqual({ items: [a, b], conflicts: [] });
+  });
+
+  it('takes an edit from the other device and keeps the local caches', () => {
+    const cached = { ...a, processedBuffer: new ArrayBuffer(8), processedSize: 8, blobUrl: 'blob:a' };
+    const edited = photo('a', 'Farmor 1952');
+    const { items, conflicts } = mergeItems([a], [cached], [edited]);
+    expect(conflicts).toEqual([]);
+    expect(items[0]).toMatchObject({ description: 'Farmor 1952', processedSize: 8, blobUrl: 'blob:a' });
+    expect(items[0].processedBuffer).toBe(cached.processedBuffer);
+  });
+
+  it('keeps an edit made only on this device', () => {
+    const edited = photo('a', 'Farmor 1952');
+    expect(mergeItems([a], [edited], [a])).toEqual({ items: [edited], conflicts: [] });
+  });
+
+  it('accepts the same edit made on both devices', () => {
+    expect(mergeItems([a], [photo('a', 'Åmål')], [photo('a', 'Åmål')]).conflicts).toEqual([]);
+  });
+
+  it('reports different edits of the same item as a conflict', () => {
+    const local = photo('b', 'Här');
+    const remote = photo('b', 'Där');
+    const { items, conflicts } = mergeItems([a, b], [a, local], [a, remote]);
+    expect(items).toEqual([a, local]);
+    expect(conflicts).toEqual([{ id: 'b', local, remote, remoteAfterId: 'a' }]);
+  });
+
+  it('ignores caches, thumbnails and preview links that differ between devices', () => {
+    const local = { ...a, processedSize: 10, compressionLevelUsed: 'high' as const, thumbnail: 'blob:x', blobUrl: 'blob:y' };
+    const remote = { ...a, processedSize: 20, thumbnail: 'https://lh3.googleusercontent.com/a' };
+    expect(mergeItems([a], [local], [remote]).conflicts).toEqual([]);
+  });
+
+  it('removes an item the other device removed', () => {
+    expect(mergeItems([a, b], [a, b], [a])).toEqual({ items: [a], conflicts: [] });
+  });
+
+  it('reports an item removed there and edited here', () => {
+    const local = photo('b', 'Nytt');
+    const { items, conflicts } = mergeItems([a, b], [a, local], [a]);
+    expect(items).toEqual([a, local]);
+    expect(conflicts).toEqual([{ id: 'b', local }]);
+  });
+
+  it('reports an item removed here and edited there', () => {
+    const remote = photo('b', 'Nytt');
+    const { items, conflicts } = mergeItems([a, b], [a], [a, remote]);
+    expect(items).toEqual([a]);
+    expect(conflicts).toEqual([{ id: 'b', remote, remoteAfterId: 'a' }]);
+  });
+
+  it('keeps an item removed here that the other device left alone removed', () => {
+    expect(mergeItems([a, b], [a], [a, b])).toEqual({ items: [a], conflicts: [] });
+  });
+
+  it('places items added on the other device after their remote neighbour', () => {
+    const d = photo('d');
+    const { items, conflicts } = mergeItems([a, b], [b, a, c], [d, a, b]);
+    expect(conflicts).toEqual([]);
+    // d came first there, a comes after b here
+    expect(ids(items)).toEqual(['d', 'b', 'a', 'c']);
+    expect(ids(mergeItems([a], [a], [a, d]).items)).toEqual(['a', 'd']);
+  });
+
+  describe('without a base', () => {
+    it('treats every difference as a conflict', () => {
+      const local = photo('a', 'Här');
+      const remote = photo('a', 'Där');
+      const { items, conflicts } = mergeItems(null, [local, b], [remote, c]);
+      expect(ids(items)).toEqual(['a', 'b']);
+      expect(conflicts).toEqual([
+        { id: 'a', local, remote, remoteAfterId: undefined },
+        { id: 'b', local: b },
+        { id: 'c', remote: c, remoteAfterId: 'a' }
+      ]);
+    });
+
+    it('merges nothing when both sides are equal', () => {
+      expect(mergeItems(null, [a, b], [a, b])).toEqual({ items: [a, b], conflicts: [] });
+    });
+  });
+});
+
+describe('resolveItemConflicts', () => {
+  const local = photo('b', 'Här');
+  const remote = photo('b', 'Där');
+
+  it('keeps the local version unless remote is picked', () => {
+    const { items, conflicts } = mergeItems([a, b], [a, local], [a, remote]);
+    expect(resolveItemConflicts(items, conflicts, {})).toEqual([a, local]);
+    expect(resolveItemConflicts(items, conflicts, { b: 'local' })).toEqual([a, local]);
+  });
+
+  it('swaps in the remote version, keeping local caches', () => {
+    const cached = { ...local, blobUrl: 'blob:b' };
+    const { items, conflicts } = mergeItems([a, b], [a, cached], [a, remote]);
+    expect(resolveItemConflicts(items, conflicts, { b: 'remote' })).toEqual([a, { ...remote, blobUrl: 'blob:b' }]);
+  });
+
+  it('removes the item when the remote side deleted it', () => {
+    const { items, conflicts } = mergeItems([a, b, c], [a, local, c], [a, c]);
+    expect(resolveItemConflicts(items, conflicts, { b: 'remote' })).toEqual([a, c]);
+  });
+
+  it('brings back an item removed here at its remote place', () => {
+    const { items, conflicts } = mergeItems([a, b, c], [a, c], [a, remote, c]);
+    expect(resolveItemConflicts(items, conflicts, { b: 'remote' })).toEqual([a, remote, c]);
+  });
+
+  it('puts an item with no remote neighbour first', () => {
+    const { items, conflicts } = mergeItems([b, a], [a], [remote, a]);
+    expect(ids(resolveItemConflicts(items, conflicts, { b: 'remote' }))).toEqual(['b', 'a']);
+  });
+});
@@ -0,0 +1,155 @@
+
+import { DriveFile, MemoryBook } from '../types';
+
+// Three-way merge of a book's items, used when project.json changed on Drive
+// (another device) since this device last loaded or saved it.
+
+export interface ItemConflict {
+  id: string;
+  local?: DriveFile;  // undefined = removed on this device
+  remote?: DriveFile; // undefined = removed on the other device
+  remoteAfterId?: string; // Item preceding the remote version, used to place it if picked
+}
+
+export interface ItemMergeResult {
+  // Merged list. Conflicting items are left as they are locally.
+  items: DriveFile[];
+  conflicts: ItemConflict[];
+}
+
+export type ConflictChoice = 'local' | 'remote';
+
+// Thrown by saves when changes on both sides touch the same items
+export class ProjectConflictError extends Error {
+  conflicts: ItemConflict[];
+  merged: MemoryBook;       // Local book with every non-conflicting remote change applied
+  remoteRevisionId: string; // Drive revision the merge was made against
+
+  constructor(conflicts: ItemConflict[], merged: MemoryBook, remoteRevisionId: string) {
+    super('Boken har ändrats på en annan enhet.');
+    this.name = 'ProjectConflictError';
+    this.conflicts = conflicts;
+    this.merged = merged;
+    this.remoteRevisionId = remoteRevisionId;
+  }
+}
+
+// Caches and preview links differ between devices without the user changing anything
+const IGNORED_FIELDS = new Set(['processedBuffer', 'processedSize', 'compressionLevelUsed', 'blobUrl', 'fileObj', 'thumbnail']);
+
+const stableStringify = (value: any): string => {
+  if (Array.isArray(value)) return `[${value.map(stableStringify).join(',')}]`;
+  if (value && typeof value === 'object') {
+    return `{${Object.keys(value).sort()
+      .filter(k => value[k] !== undefined)
+      .map(k => `${JSON.stringify(k)}:${stableStringify(value[k])}`).join(',')}}`;
+  }
+  return JSON.stringify(value);
+};
+
+const itemSignature = (item: DriveFile): string => {
+  const persisted: Record<string, any> = {};
+  Object.keys(item).forEach(k => { if (!IGNORED_FIELDS.has(k)) persisted[k] = (item as any)[k]; });
+  return stableStringify(persisted);
+};
+
+const isSameItem = (a: DriveFile, b: DriveFile) => itemSignature(a) === itemSignature(b);
+
+// Local item with the other side's edits, keeping local caches (buffers, blob URLs)
+const takeRemote = (remote: DriveFile, local?: DriveFile): DriveFile => local ? {
+  ...remote,
+  processedBuffer: local.processedBuffer,
+  processedSize: local.processedSize,
+  compressionLevelUsed: local.compressionLevelUsed,
+  blobUrl: local.blobUrl,
+  fileObj: local.fileObj
+} : remote;
+
+// Inserts items that only exist remotely after their remote predecessor
+const insertByRemoteOrder = (items: DriveFile[], toInsert: DriveFile[], remote: DriveFile[]): DriveFile[] => {
+  const result = [...items];
+  for (const item of toInsert) {
+    const remoteIndex = remote.findIndex(r => r.id === item.id);
+    let insertAt = 0;
+    for (let i = remoteIndex - 1; i >= 0; i--) {
+      const anchor = result.findIndex(r => r.id === remote[i].id);
+      if (anchor !== -1) { insertAt = anchor + 1; break; }
+    }
+    result.splice(insertAt, 0, item);
+  }
+  return result;
+};
+
+// base = the version both sides started from, or null if it is unknown. Without a base
+// every item that differs between the sides counts as a conflict.
+// Ordering follows the local list; items added remotely are placed after their remote neighbour.
+export const mergeItems = (base: DriveFile[] | null, local: DriveFile[], remote: DriveFile[]): ItemMergeResult => {
+  const baseById = new Map((base || []).map(i => [i.id, i]));
+  const remoteById = new Map(remote.map(i => [i.id, i]));
+  const localIds = new Set(local.map(i => i.id));
+  const conflicts: ItemConflict[] = [];
+  const remoteAfterId = (id: string) => {
+    const index = remote.findIndex(r => r.id === id);
+    return index > 0 ? remote[index - 1].id : undefined;
+  };
+
+  const items: DriveFile[] = [];
+  for (const localItem of local) {
+    const baseItem = baseById.get(localItem.id);
+    const remoteItem = remoteById.get(localItem.id);
+
+    if (!remoteItem) {
+      // Removed remotely: agree unless it was edited here
+      if (baseItem && isSameItem(baseItem, localItem)) continue;
+      if (baseItem || base === null) conflicts.push({ id: localItem.id, local: localItem });
+      items.push(localItem);
+      continue;
+    }
+
+    if (isSameItem(localItem, remoteItem)) items.push(localItem);
+    else if (baseItem && isSameItem(baseItem, localItem)) items.push(takeRemote(remoteItem, localItem));
+    else if (baseItem && isSameItem(baseItem, remoteItem)) items.push(localItem);
+    else {
+      conflicts.push({ id: localItem.id, local: localItem, remote: remoteItem, remoteAfterId: remoteAfterId(localItem.id) });
+      items.push(localItem);
+    }
+  }
+
+  const remoteOnly: DriveFile[] = [];
+  for (const remoteItem of remote) {
+    if (localIds.has(remoteItem.id)) continue;
+    const baseItem = baseById.get(remoteItem.id);
+    if (!baseItem) {
+      // Added on the other device (or unknown without a base)
+      if (base === null) conflicts.push({ id: remoteItem.id, remote: remoteItem, remoteAfterId: remoteAfterId(remoteItem.id) });
+      else remoteOnly.push(remoteItem);
+    } else if (!isSameItem(baseItem, remoteItem)) {
+      // Removed here but edited there
+      conflicts.push({ id: remoteItem.id, remote: remoteItem, remoteAfterId: remoteAfterId(remoteItem.id) });
+    }
+  }
+
+  return { items: insertByRemoteOrder(items, remoteOnly, remote), conflicts };
+};
+
+// Applies the user's pick for each conflict to an item list (normally ItemMergeResult.items)
+export const resolveItemConflicts = (
+  items: DriveFile[],
+  conflicts: ItemConflict[],
+  choices: Record<string, ConflictChoice>
+): DriveFile[] => {
+  let result = [...items];
+  for (const conflict of conflicts) {
+    if (choices[conflict.id] !== 'remote') continue;
+    const index = result.findIndex(i => i.id === conflict.id);
+    if (!conflict.remote) {
+      if (index !== -1) result.splice(index, 1);
+    } else if (index !== -1) {
+      result[index] = takeRemote(conflict.remote, result[index]);
+    } else {
+      const anchor = conflict.remoteAfterId ? result.findIndex(i => i.id === conflict.remoteAfterId) : -1;
+      result.splice(anchor + 1, 0, conflict.remote);
+    }
+  }
+  return result;
+};
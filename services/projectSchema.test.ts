@@ -0,0 +1,97 @@
+import { describe, expect, it } from 'vitest';
+import { migrateProject, parseProjectFile, ProjectFileError, PROJECT_SCHEMA_VERSION } from './projectSchema';
+import { DEFAULT_FOOTER_CONFIG } from './textDefaults';
+import projectV0 from './fixtures/project-v0.json';
+import projectV1 from './fixtures/project-v1.json';
+
+// A fresh copy each time; validation repairs items in place
+const fileText = (fixture: object) => JSON.stringify(fixture);
+
+const expectProjectError = (run: () => unknown, kind: ProjectFileError['kind']) => {
+  try {
+    run();
+  } catch (e) {
+    expect(e).toBeInstanceOf(ProjectFileError);
+    expect((e as ProjectFileError).kind).toBe(kind);
+    return e as ProjectFileError;
+  }
+  throw new Error(`Expected a ProjectFileError (${kind})`);
+};
+
+describe('version 0 (legacy text fields)', () => {
+  const parsed = parseProjectFile(fileText(projectV0));
+  const item = (id: string) => parsed.book.items.find(i => i.id === id)!;
+
+  it('is upgraded to the current version', () => {
+    expect(parsed.migratedFrom).toBe(0);
+    expect(parsed.book.schemaVersion).toBe(PROJECT_SCHEMA_VERSION);
+  });
+
+  it('moves an image caption and heading into pageMeta', () => {
+    const wedding = item('1PhotoWedding');
+    expect(wedding.pageMeta?.[0].headerLines[0]).toMatchObject({ text: 'Bröllopet 1952', config: { fontSize: 30, color: '#ffffff' } });
+    expect(wedding.pageMeta?.[0].footerLines[0]).toMatchObject({ text: 'Farmor och farfar utanför kyrkan i Åmål.', config: DEFAULT_FOOTER_CONFIG });
+    expect(wedding).not.toHaveProperty('headerText');
+    expect(wedding).not.toHaveProperty('description');
+    expect(wedding).not.toHaveProperty('textConfig');
+    expect(wedding.processedSize).toBe(812345);
+  });
+
+  it('keeps hideObject on the first page of a PDF', () => {
+    const letter = item('1LetterScan');
+    expect(letter.pageMeta?.[0]).toMatchObject({ headerLines: [], hideObject: true });
+    expect(letter).not.toHaveProperty('hideObject');
+  });
+
+  it('leaves items without text alone', () => {
+    expect(item('1PhotoNoText').pageMeta).toBeUndefined();
+  });
+
+  it('keeps the content of headings and text items', () => {
+    expect(item('header-1').headerText).toBe('Uppväxten i Åmål');
+    expect(item('text-1').description).toBe('# Sommaren 1958\n\nVi badade i Vänern varje dag.');
+  });
+
+  it('upgrades the copies of items kept in chunks', () => {
+    const chunkItem = parsed.book.chunks![0].items[0];
+    expect(chunkItem.pageMeta?.[0].headerLines[0].text).toBe('Bröllopet 1952');
+    expect(chunkItem).not.toHaveProperty('headerText');
+  });
+
+  it('drops invalid items with a warning for each', () => {
+    expect(parsed.book.items.map(i => i.id)).toEqual(['header-1', '1PhotoWedding', '1LetterScan', '1PhotoNoText', 'text-1']);
+    expect(parsed.warnings).toHaveLength(3);
+    expect(parsed.warnings[1]).toContain('trasigt objekt utan id');
+  });
+});
+
+describe('version 1', () => {
+  it('is read as it is', () => {
+    const parsed = parseProjectFile(fileText(projectV1));
+    expect(parsed.migratedFrom).toBeUndefined();
+    expect(parsed.warnings).toEqual([]);
+    expect(parsed.book).toEqual(projectV1);
+  });
+
+  it('reads the offline copy the same way', () => {
+    expect(migrateProject(JSON.parse(fileText(projectV1))).book).toEqual(projectV1);
+  });
+});
+
+describe('errors', () => {
+  it('reports a cut off file as corrupt', () => {
+    const text = fileText(projectV1);
+    expectProjectError(() => parseProjectFile(text.slice(0, text.length / 2)), 'corrupt');
+  });
+
+  it('reports a file without a book as invalid', () => {
+    expectProjectError(() => parseProjectFile('[]'), 'invalid');
+    const error = expectProjectError(() => parseProjectFile('{"title": 3}'), 'invalid');
+    expect(error.details).toEqual(['id saknas', 'titel saknas', 'listan med objekt saknas']);
+  });
+
+  it('refuses files from a newer version of the app', () => {
+    const newer = { ...projectV1, schemaVersion: PROJECT_SCHEMA_VERSION + 1 };
+    expectProjectError(() => parseProjectFile(fileText(newer)), 'tooNew');
+  });
+});
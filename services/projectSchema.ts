@@ -0,0 +1,127 @@
+
+import { DriveFile, FileType, MemoryBook, PageMetadata } from '../types';
+import { DEFAULT_TEXT_CONFIG, DEFAULT_FOOTER_CONFIG } from './textDefaults';
+
+// Versioning of the saved book format (project.json and the offline copy).
+//
+// Historical formats:
+//   0 - no schemaVersion. Image/PDF items may carry their text in the legacy fields
+//       headerText, textConfig, description and hideObject instead of pageMeta.
+//   1 - legacy text moved into pageMeta[0] for image/PDF items. HEADER and TEXT items
+//       keep headerText/description, that is their content.
+
+export const PROJECT_SCHEMA_VERSION = 1;
+
+export type ProjectFileErrorKind = 'corrupt' | 'invalid' | 'tooNew';
+
+// Thrown instead of returning null, so a broken file is never mistaken for an empty book
+export class ProjectFileError extends Error {
+  kind: ProjectFileErrorKind;
+  details: string[];
+
+  constructor(kind: ProjectFileErrorKind, message: string, details: string[] = []) {
+    super(message);
+    this.name = 'ProjectFileError';
+    this.kind = kind;
+    this.details = details;
+  }
+}
+
+export interface ParsedProject {
+  book: MemoryBook;
+  migratedFrom?: number; // Set if the file was saved in an older format
+  warnings: string[];    // Items that were repaired or skipped
+}
+
+// --- LEGACY ITEM TEXT ---
+
+// pageMeta for the first page built from an item's legacy text fields, or null if it has none
+export const legacyTextToPageMeta = (item: DriveFile): PageMetadata | null => {
+  if (!item.headerText && !item.description && !item.hideObject) return null;
+  return {
+    headerLines: item.headerText ? [{ id: 'l1', text: item.headerText, config: item.textConfig || DEFAULT_TEXT_CONFIG }] : [],
+    footerLines: item.description ? [{ id: 'f1', text: item.description, config: DEFAULT_FOOTER_CONFIG }] : [],
+    hideObject: item.hideObject || undefined
+  };
+};
+
+const upgradeLegacyItem = (item: DriveFile): DriveFile => {
+  if (item.type !== FileType.IMAGE && item.type !== FileType.PDF) return item;
+  const hasPageMeta = item.pageMeta && Object.keys(item.pageMeta).length > 0;
+  const legacyMeta = hasPageMeta ? null : legacyTextToPageMeta(item);
+  const { headerText, textConfig, description, hideObject, ...rest } = item;
+  return legacyMeta ? { ...rest, pageMeta: { 0: legacyMeta } } : { ...rest, pageMeta: item.pageMeta };
+};
+
+// --- MIGRATIONS ---
+
+// MIGRATIONS[n] upgrades raw data from version n to n + 1
+const MIGRATIONS: Record<number, (data: any) => any> = {
+  0: (data) => ({
+    ...data,
+    items: data.items.map(upgradeLegacyItem),
+    // Chunks keep copies of their items and are compared against them, so upgrade those too
+    chunks: Array.isArray(data.chunks)
+      ? data.chunks.map((chunk: any) => ({ ...chunk, items: Array.isArray(chunk.items) ? chunk.items.map(upgradeLegacyItem) : [] }))
+      : data.chunks
+  })
+};
+
+// --- VALIDATION ---
+
+const VALID_TYPES = new Set<string>(Object.values(FileType));
+
+const validateItems = (items: any[], warnings: string[]): DriveFile[] => items.filter((item, index) => {
+  if (!item || typeof item !== 'object') {
+    warnings.push(`Objekt ${index + 1} saknar data och hoppades över.`);
+    return false;
+  }
+  if (typeof item.id !== 'string' || !VALID_TYPES.has(item.type)) {
+    warnings.push(`Objekt ${index + 1} (${item.name || 'namnlöst'}) är ofullständigt och hoppades över.`);
+    return false;
+  }
+  if (typeof item.name !== 'string') item.name = 'Namnlös';
+  return true;
+});
+
+// Upgrades already-parsed book data (e.g. from the offline store) to the current version
+export const migrateProject = (data: any): ParsedProject => {
+  if (!data || typeof data !== 'object' || Array.isArray(data)) {
+    throw new ProjectFileError('invalid', 'Sparfilen innehåller ingen bok.');
+  }
+  const problems: string[] = [];
+  if (typeof data.id !== 'string') problems.push('id saknas');
+  if (typeof data.title !== 'string') problems.push('titel saknas');
+  if (!Array.isArray(data.items)) problems.push('listan med objekt saknas');
+  if (problems.length > 0) {
+    throw new ProjectFileError('invalid', `Sparfilen är ofullständig (${problems.join(', ')}).`, problems);
+  }
+
+  const version = typeof data.schemaVersion === 'number' ? data.schemaVersion : 0;
+  if (version > PROJECT_SCHEMA_VERSION) {
+    throw new ProjectFileError('tooNew', 'Boken har sparats med en nyare version av appen. Ladda om sidan för att uppdatera.');
+  }
+
+  const warnings: string[] = [];
+  let upgraded = { ...data, items: validateItems(data.items, warnings) };
+  for (let v = version; v < PROJECT_SCHEMA_VERSION; v++) upgraded = MIGRATIONS[v](upgraded);
+  upgraded.schemaVersion = PROJECT_SCHEMA_VERSION;
+
+  return { book: upgraded as MemoryBook, migratedFrom: version < PROJECT_SCHEMA_VERSION ? version : undefined, warnings };
+};
+
+export const parseProjectFile = (text: string): ParsedProject => {
+  let data: any;
+  try {
+    data = JSON.parse(text);
+  } catch (e) {
+    // Usually an upload that was cut off
+    throw new ProjectFileError('corrupt', 'Sparfilen är skadad och kunde inte läsas.', [String(e)]);
+  }
+  return migrateProject(data);
+};
+
+export const describeProjectFileError = (e: ProjectFileError): string => {
+  const hint = e.kind === 'tooNew' ? '' : ' Du kan återställa en tidigare version via Historik på Google Drive.';
+  return `${e.message}${hint}`;
+};
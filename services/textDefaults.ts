@@ -0,0 +1,12 @@
+import { TextConfig } from '../types';
+
+// Formatting of new text lines, and of text saved before lines had their own formatting.
+// Kept apart from pdfService so the save format doesn't pull in the PDF libraries.
+
+export const DEFAULT_TEXT_CONFIG: TextConfig = {
+  fontSize: 24, alignment: 'center', isBold: true, isItalic: false, verticalPosition: 'center', color: '#000000', backgroundColor: undefined, backgroundOpacity: 0, padding: 0
+};
+
+export const DEFAULT_FOOTER_CONFIG: TextConfig = {
+  fontSize: 12, alignment: 'left', isBold: false, isItalic: false, verticalPosition: 'top', color: '#000000', backgroundColor: undefined, backgroundOpacity: 0, padding: 0
+};
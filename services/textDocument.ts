@@ -0,0 +1,90 @@
+
+import JSZip from 'jszip';
+
+// Written memories: pasted text, empty sources and .txt/.md/.docx files. The text is kept in
+// the item's description and typeset into A4 pages by pdfService.
+// Headings are marked like Markdown ("# Kapitel", "## Avsnitt"); Word headings are converted to that.
+
+export type TextBlockKind = 'heading' | 'subheading' | 'paragraph';
+
+export interface TextBlock {
+  kind: TextBlockKind;
+  text: string; // Paragraphs keep their line breaks (letters, poems, addresses)
+}
+
+const TEXT_EXTENSIONS = /\.(txt|md|markdown|docx)$/i;
+const TEXT_MIME_TYPES = ['text/plain', 'text/markdown', 'application/vnd.openxmlformats-officedocument.wordprocessingml.document'];
+
+const WORD_NS = 'http://schemas.openxmlformats.org/wordprocessingml/2006/main';
+
+export const isTextDocument = (name: string, mimeType?: string) =>
+  TEXT_EXTENSIONS.test(name) || (!!mimeType && TEXT_MIME_TYPES.includes(mimeType));
+
+// Blank lines separate paragraphs; a line starting with # is a heading of its own
+export const parseTextBlocks = (text: string): TextBlock[] => {
+  const blocks: TextBlock[] = [];
+  let paragraph: string[] = [];
+  const endParagraph = () => {
+    if (paragraph.length > 0) blocks.push({ kind: 'paragraph', text: paragraph.join('\n') });
+    paragraph = [];
+  };
+
+  text.replace(/\r\n?/g, '\n').split('\n').forEach(rawLine => {
+    const line = rawLine.replace(/\t/g, '    ').trimEnd();
+    const heading = /^(#{1,6})\s+(.*)$/.exec(line);
+    if (heading) {
+      endParagraph();
+      blocks.push({ kind: heading[1].length === 1 ? 'heading' : 'subheading', text: heading[2].trim() });
+    } else if (line.trim() === '') {
+      endParagraph();
+    } else {
+      paragraph.push(line);
+    }
+  });
+  endParagraph();
+  return blocks;
+};
+
+const wordParagraphText = (p: Element): string => {
+  let text = '';
+  const visit = (node: Element) => {
+    Array.from(node.children).forEach(child => {
+      if (child.namespaceURI !== WORD_NS) return;
+      if (child.localName === 't') text += child.textContent || '';
+      else if (child.localName === 'tab') text += '    ';
+      else if (child.localName === 'br' || child.localName === 'cr') text += '\n';
+      else if (child.localName !== 'pPr' && child.localName !== 'rPr') visit(child);
+    });
+  };
+  visit(p);
+  return text;
+};
+
+// "Title" and "Heading1" (or the Swedish "Rubrik1") become #, lower levels ##
+const wordHeadingPrefix = (p: Element): string => {
+  const style = p.getElementsByTagNameNS(WORD_NS, 'pStyle')[0]?.getAttributeNS(WORD_NS, 'val') || '';
+  if (/^(title|rubrik)$/i.test(style) || /^(heading|rubrik)1$/i.test(style)) return '# ';
+  if (/^(heading|rubrik)\d$/i.test(style)) return '## ';
+  return '';
+};
+
+const readDocx = async (blob: Blob): Promise<string> => {
+  const zip = await JSZip.loadAsync(await blob.arrayBuffer());
+  const documentXml = await zip.file('word/document.xml')?.async('string');
+  if (!documentXml) throw new Error('Word-filen saknar text.');
+  const doc = new DOMParser().parseFromString(documentXml, 'application/xml');
+  return Array.from(doc.getElementsByTagNameNS(WORD_NS, 'p'))
+    .map(p => {
+      const text = wordParagraphText(p).trim();
+      return text ? wordHeadingPrefix(p) + text : '';
+    })
+    .filter(Boolean)
+    .join('\n\n');
+};
+
+// The text of a .txt, .md or .docx file
+export const readTextDocument = async (blob: Blob, name: string): Promise<string> => {
+  if (/\.docx$/i.test(name) || blob.type === TEXT_MIME_TYPES[2]) return readDocx(blob);
+  if (isTextDocument(name, blob.type)) return blob.text();
+  throw new Error(`${name} är inte en textfil som kan läsas.`);
+};
@@ -9,8 +9,14 @@ export enum FileType {
   AUDIO = 'AUDIO'
 }
 
+// serif = Times, the default; mono is meant for transcriptions of letters and documents
+export type FontFamily = 'serif' | 'sans' | 'handwriting' | 'mono';
+
 export interface TextConfig {
   fontSize: number;
+  fontFamily?: FontFamily; // Unset = serif
+  lineSpacing?: number; // Line height as a multiple of the font size, 1.3 when unset
+  letterSpacing?: number; // Extra points between characters, may be negative
   alignment: 'left' | 'center' | 'right';
   isBold: boolean;
   isItalic: boolean;
@@ -20,6 +26,7 @@ export interface TextConfig {
   backgroundOpacity?: number; // 0.0 to 1.0
   padding?: number; // Padding around text in the box
   boxHeight?: number; // Specific height for footer area (only relevant for footer)
+  autoShrink?: boolean; // Scale the text down until it fits its area instead of overflowing
 }
 
 export interface RichTextLine {
@@ -36,6 +43,14 @@ export interface PageMetadata {
 
 export type CompressionLevel = 'low' | 'medium' | 'high';
 
+// When and where a photo was taken, from its EXIF data (or Drive's copy of it)
+export interface CaptureInfo {
+  takenAt?: string;   // Local time as on the camera, yyyy-mm-ddThh:mm:ss (no time zone)
+  latitude?: number;
+  longitude?: number;
+  camera?: string;    // Make and model
+}
+
 export interface DriveFile {
   id: string;
   name: string;
@@ -54,6 +69,7 @@ export interface DriveFile {
   // Metadata
   pageMeta?: Record<number, PageMetadata>; 
   pageCount?: number;
+  captureInfo?: CaptureInfo;
   
   // Local data
   isLocal?: boolean;
@@ -81,9 +97,20 @@ export interface ChunkData {
     isOptimized: boolean; 
     isUploading: boolean;
     isSynced: boolean;
+    uploadProgress?: number; // 0.0 to 1.0 while isUploading
     title: string;
 }
 
+// Listing facts about a book, without loading its project.json
+export interface BookSummary {
+  itemCount: number;
+  coverId?: string;
+  chunkCount?: number;
+  chunksSynced?: number;
+  lastEditedAt?: string;
+  schemaVersion?: number;
+}
+
 export interface MemoryBook {
   id: string;
   title: string;
@@ -95,6 +122,40 @@ export interface MemoryBook {
   chunks?: ChunkData[]; // Persisted chunks
   optimizationCursor?: number; // Index where optimization stopped
   optimizationHash?: string; // Hash to verify chunks validity
+  trashedAt?: string; // Set on books listed from Papperskorg
+  summary?: BookSummary; // Set on books from a listing (see bookMetadata)
+  schemaVersion?: number; // Format of the saved file (see projectSchema)
+  driveId?: string; // Shared Drive the book folder is in, if any
+  accountEmail?: string; // Signed-in Google account that reaches the book folder
+  sharedBy?: string; // Owner's name, set on books someone else shared with me
+  canEdit?: boolean; // False when I may only read a shared book
+}
+
+// A saved version of a book (a project.json revision on Drive)
+export interface BookRevision {
+  id: string;
+  modifiedTime: string;
+  size?: number;
+  modifiedBy?: string;
+}
+
+// Folder the book folders live in, when the user has chosen one (see bookStorage)
+export interface BookRoot {
+  folderId: string;
+  driveId?: string; // Set when the folder is in a Shared Drive
+  name: string;     // For display, e.g. "Släktarkivet / Böcker"
+}
+
+export type CollaboratorRole = 'owner' | 'writer' | 'commenter' | 'reader';
+
+// Someone with access to a book folder (a Drive permission)
+export interface BookCollaborator {
+  permissionId: string;
+  role: CollaboratorRole;
+  email?: string;
+  displayName?: string;
+  photoLink?: string;
+  type: 'user' | 'group' | 'domain' | 'anyone';
 }
 
 export interface ExportedFile {